@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useCallback, useRef } from "react";
 import {
+  AlertTriangle,
   FileText,
+  FolderPlus,
   Plus,
   RefreshCw,
   Trash2,
@@ -8,19 +10,50 @@ import {
   Save,
   FileQuestion,
   Dices,
+  Download,
+  History,
+  Lock,
   ShieldCheck,
   HardDrive,
   Terminal,
   Eraser,
+  Search,
+  Timer,
+  Upload,
+  Unlock,
 } from "lucide-react";
-import { OPFSFileSystem } from "./OPFS";
+import {
+  addMiddleware,
+  ChangeListener,
+  createTracing,
+  ImportConflictPolicy,
+  IntegrityProblem,
+  OPFSError,
+  OPFSFileSystem,
+  OPFSRevision,
+  OPFSStat,
+  RepairAction,
+  SearchResult,
+  StorageBackend,
+  StorageInfo,
+  VerifyReport,
+} from "./OPFS";
+import { FileTree, SortKey } from "./FileTree";
+import { HistoryPanel } from "./HistoryPanel";
+import { IntegrityPanel } from "./IntegrityPanel";
+import { SearchResults } from "./SearchResults";
+import { StorageMeter } from "./StorageMeter";
+import { describeError, describeTrace, formatBytes } from "./format";
+import { discardDraft, isDraftPath, listDrafts, loadDraft, saveDraft } from "./drafts";
 import { WORDS } from "./const";
+import { useFileSystem } from "./opfs-hooks";
 
 interface LogEntry {
   id: number;
   timestamp: string;
   message: string;
-  type: "info" | "success" | "warning" | "error";
+  /** "trace" lines are the per-call timings, shown while they are on. */
+  type: "info" | "success" | "warning" | "error" | "trace";
 }
 
 interface ToastNotification {
@@ -29,20 +62,90 @@ interface ToastNotification {
   type: "success" | "error";
 }
 
+/** Header badge for each backend `init` may settle on. */
+const BACKEND_BADGES: Record<StorageBackend, { label: string; className: string }> = {
+  opfs: { label: "OPFS Active", className: "bg-emerald-100 text-emerald-700 border-emerald-200" },
+  "opfs-async": {
+    label: "OPFS (Async Writes)",
+    className: "bg-emerald-100 text-emerald-700 border-emerald-200",
+  },
+  indexeddb: { label: "IndexedDB Fallback", className: "bg-amber-100 text-amber-700 border-amber-200" },
+  memory: { label: "In Memory Only", className: "bg-red-100 text-red-700 border-red-200" },
+  node: { label: "Node", className: "bg-slate-100 text-slate-700 border-slate-200" },
+};
+
+/** Pause in typing before the search box queries the worker. */
+const SEARCH_DEBOUNCE_MS = 150;
+/** Pause after the last change before the storage meter is refreshed. */
+const STORAGE_REFRESH_MS = 500;
+/** How often the per-folder breakdown is walked again while it is shown. */
+const STORAGE_BREAKDOWN_REFRESH_MS = 30_000;
+/** Pause in typing before unsaved edits are written to the file's draft. */
+const DRAFT_AUTOSAVE_MS = 1000;
+
+// Helper: Directory portion of a slash-separated path ("" for the root)
+const parentDirectory = (path: string): string =>
+  path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+
+// Helper: Whether `path` is `root` itself or lies somewhere below it
+const isWithin = (path: string, root: string): boolean =>
+  path === root || path.startsWith(`${root}/`);
+
+// Helper: Every directory above `path`, nearest first, ending at the root
+const ancestorDirectories = (path: string): string[] => {
+  const directories: string[] = [];
+  let directory = path;
+  while (directory) {
+    directory = parentDirectory(directory);
+    directories.push(directory);
+  }
+  return directories;
+};
+
 export const App: React.FC = () => {
+  // `init` and `lock` go through the provider, so its hooks start over too
+  const fileSystem = useFileSystem();
   // Application State
   const [isInitialized, setIsInitialized] = useState<boolean>(false);
+  // Encryption State: `isLocked` once the store turns out to need a passphrase
+  const [isLocked, setIsLocked] = useState<boolean>(false);
+  const [isEncrypted, setIsEncrypted] = useState<boolean>(false);
+  const [encryptStorage, setEncryptStorage] = useState<boolean>(false);
+  const [passphrase, setPassphrase] = useState<string>("");
   const [isCompatible, setIsCompatible] = useState<boolean>(true);
-  const [files, setFiles] = useState<string[]>([]);
+  const [backend, setBackend] = useState<StorageBackend>("opfs");
+  const [tree, setTree] = useState<Record<string, OPFSStat[]>>({});
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [selectedDirectory, setSelectedDirectory] = useState<string>("");
+  const [sortBy, setSortBy] = useState<SortKey>("name");
   const [currentFile, setCurrentFile] = useState<string | null>(null);
   const [content, setContent] = useState<string>("");
+  // What the editor last loaded or saved; any other content is unsaved
+  const [savedContent, setSavedContent] = useState<string>("");
   const [lastModified, setLastModified] = useState<Date | null>(null);
+  const [fileSize, setFileSize] = useState<number>(0);
+  const [currentVersion, setCurrentVersion] = useState<string | null>(null);
+  // Set when another tab changes the open file underneath the editor
+  const [diskChange, setDiskChange] = useState<"updated" | "deleted" | null>(
+    null,
+  );
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+  const [searchQuery, setSearchQuery] = useState<string>("");
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+  const [storageInfo, setStorageInfo] = useState<StorageInfo | null>(null);
+  // Per-folder sizes, fetched only while the meter shows them
+  const [showStorageBreakdown, setShowStorageBreakdown] = useState<boolean>(false);
+  const [storageBreakdown, setStorageBreakdown] = useState<StorageInfo | null>(null);
+  const [integrityReport, setIntegrityReport] = useState<VerifyReport | null>(null);
   const [notifications, setNotifications] = useState<ToastNotification[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
 
   // Logger State
   const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [showTimings, setShowTimings] = useState<boolean>(false);
   const logEndRef = useRef<HTMLDivElement>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+  const isDirty = currentFile !== null && content !== savedContent;
 
   // Helper: Generate Random Word String
   const generateRandomContent = useCallback((): string => {
@@ -94,44 +197,172 @@ export const App: React.FC = () => {
    * INITIALIZATION
    */
   const initFileSystem = async () => {
+    const withPassphrase = isLocked || encryptStorage;
+    if (withPassphrase && !passphrase) {
+      showToast("Enter a passphrase first", "error");
+      return;
+    }
     setLoading(true);
     addLog("Initializing OPFS context...", "info");
     try {
-      await OPFSFileSystem.init();
+      const active = await fileSystem.init(
+        withPassphrase ? { encryption: { passphrase } } : {},
+      );
+      setBackend(active);
       setIsInitialized(true);
+      setIsLocked(false);
+      setIsEncrypted(withPassphrase);
+      setPassphrase("");
       await refreshFileList();
-      showToast("Storage Initialized Successfully");
-      addLog("File system root accessed successfully", "success");
+      showToast(
+        withPassphrase ? "Storage Unlocked" : "Storage Initialized Successfully",
+      );
+      addLog(`File system root accessed successfully (${active})`, "success");
+      if (active === "memory") {
+        addLog("No persistent storage available: files are lost on reload", "warning");
+      }
+      const drafts = await listDrafts(OPFSFileSystem).catch(() => []);
+      drafts.forEach((path) =>
+        addLog(`Unsaved changes to "${path}" were kept: open it to recover them`, "warning"),
+      );
     } catch (error: any) {
+      if (error instanceof OPFSError && error.code === "STORE_LOCKED") {
+        // Not a failure: the store is encrypted and wants its passphrase
+        setIsLocked(true);
+        addLog("Storage is encrypted, waiting for the passphrase", "warning");
+        return;
+      }
+      if (error instanceof OPFSError && error.code === "DECRYPTION_FAILED") {
+        setPassphrase("");
+      }
       console.error("Initialization error:", error);
-      showToast("Permission denied or FS error", "error");
+      showToast(`Initialization failed: ${describeError(error)}`, "error");
       addLog(`Initialization Error: ${error.message}`, "error");
     } finally {
       setLoading(false);
     }
   };
 
+  /**
+   * ENCRYPTION: Forget the key and go back to the unlock screen. Nothing
+   * decrypted may stay on screen, so the editor and tree are cleared too.
+   */
+  const lockStorage = async () => {
+    if (!confirmDiscard("Lock storage")) return;
+    try {
+      await fileSystem.lock();
+      setIsInitialized(false);
+      setIsLocked(true);
+      closeEditor();
+      setTree({});
+      setExpanded(new Set());
+      setSelectedDirectory("");
+      setSearchQuery("");
+      setStorageInfo(null);
+      setIntegrityReport(null);
+      addLog("Storage locked", "info");
+    } catch (error: any) {
+      showToast(`Lock failed: ${describeError(error)}`, "error");
+      addLog(`Lock Error: ${error.message}`, "error");
+    }
+  };
+
   /**
    * CRUD: Read (List)
    */
+  const loadDirectory = useCallback(async (path: string) => {
+    const entries = await OPFSFileSystem.list(path, { withStats: true });
+    setTree((previousTree) => ({ ...previousTree, [path]: entries }));
+    return entries;
+  }, []);
+
   const refreshFileList = useCallback(async () => {
     try {
-      const entries = await OPFSFileSystem.list();
-      setFiles(entries);
-      addLog(`Directory synced: ${entries.length} files found`, "info");
+      // Reload the root plus every directory currently expanded in the tree
+      const directories = ["", ...Array.from(expanded)];
+      const results = await Promise.allSettled(
+        directories.map((path) =>
+          OPFSFileSystem.list(path, { withStats: true }),
+        ),
+      );
+      const nextTree: Record<string, OPFSStat[]> = {};
+      const stillExpanded = new Set<string>();
+      results.forEach((result, index) => {
+        if (result.status === "fulfilled") {
+          nextTree[directories[index]] = result.value;
+          if (index > 0) stillExpanded.add(directories[index]);
+        }
+      });
+      if (results[0].status === "rejected") throw results[0].reason;
+      setTree(nextTree);
+      setExpanded(stillExpanded);
+      addLog(
+        `Directory synced: ${nextTree[""].length} entries at root`,
+        "info",
+      );
     } catch (error: any) {
-      showToast("Sync failed", "error");
+      showToast(`Sync failed: ${describeError(error)}`, "error");
       addLog(`Sync Error: ${error.message}`, "error");
     }
-  }, [showToast, addLog]);
+  }, [expanded, showToast, addLog]);
+
+  const toggleDirectory = async (path: string) => {
+    setSelectedDirectory(path);
+    if (expanded.has(path)) {
+      setExpanded((previous) => {
+        const next = new Set(previous);
+        next.delete(path);
+        return next;
+      });
+      return;
+    }
+    try {
+      await loadDirectory(path);
+      setExpanded((previous) => new Set(previous).add(path));
+    } catch (error: any) {
+      showToast(`Open folder failed: ${describeError(error)}`, "error");
+      addLog(`List Error for "${path}": ${error.message}`, "error");
+    }
+  };
+
+  /**
+   * QUOTA: Ask before a write the browser would likely refuse
+   */
+  const confirmWithinQuota = async (bytes: number, what: string): Promise<boolean> => {
+    let info: StorageInfo;
+    try {
+      info = await OPFSFileSystem.storageInfo();
+    } catch {
+      // Can't tell; let the write itself succeed or fail
+      return true;
+    }
+    if (info.quota === null || info.usage + bytes <= info.quota) return true;
+    const free = formatBytes(Math.max(0, info.quota - info.usage));
+    addLog(`Quota: ${what} needs ${formatBytes(bytes)} but only ${free} is free`, "warning");
+    return window.confirm(
+      `${what} needs ${formatBytes(bytes)}, but only ${free} of storage is left, ` +
+        "so it will probably fail.\n\nTry anyway?",
+    );
+  };
 
   /**
    * CRUD: Create
    */
   const createNewFile = async () => {
+    if (!confirmDiscard("Create a new file")) return;
     setLoading(true);
-    const randomName = `note_${Math.random().toString(36).substring(2, 7)}.txt`;
+    const randomName = [
+      selectedDirectory,
+      `note_${Math.random().toString(36).substring(2, 7)}.txt`,
+    ]
+      .filter(Boolean)
+      .join("/");
     const initialRandomContent = generateRandomContent();
+    const size = new Blob([initialRandomContent]).size;
+    if (!(await confirmWithinQuota(size, `Creating "${randomName}"`))) {
+      setLoading(false);
+      return;
+    }
 
     try {
       const createdName = await OPFSFileSystem.create(
@@ -144,46 +375,151 @@ export const App: React.FC = () => {
         "success",
       );
 
-      await refreshFileList();
       await loadFile(createdName);
     } catch (error: any) {
-      showToast("Create failed: " + error.message, "error");
+      showToast(`Create failed: ${describeError(error)}`, "error");
       addLog(`Create Error: ${error.message}`, "error");
     } finally {
       setLoading(false);
     }
   };
 
+  /**
+   * DIRECTORIES: Create
+   */
+  const createFolder = async () => {
+    const name = window.prompt(
+      `New folder in "/${selectedDirectory}"`,
+      "project",
+    );
+    if (!name) return;
+    try {
+      const createdPath = await OPFSFileSystem.mkdir(
+        [selectedDirectory, name].filter(Boolean).join("/"),
+      );
+      showToast(`Created folder ${createdPath}`);
+      addLog(`Action: Created directory "${createdPath}"`, "success");
+
+      await loadDirectory(createdPath);
+      setExpanded((previous) =>
+        new Set(previous)
+          .add(createdPath)
+          .add(parentDirectory(createdPath)),
+      );
+      setSelectedDirectory(createdPath);
+    } catch (error: any) {
+      showToast(`Create folder failed: ${describeError(error)}`, "error");
+      addLog(`Mkdir Error: ${error.message}`, "error");
+    }
+  };
+
+  /**
+   * DIRECTORIES: Delete (recursive)
+   */
+  const deleteFolder = async (path: string) => {
+    if (!window.confirm(`Delete "${path}" and everything inside it?`)) return;
+    try {
+      await OPFSFileSystem.rmdir(path, { recursive: true });
+      showToast(`Deleted folder ${path}`);
+      addLog(`Action: Deleted directory "${path}" recursively`, "warning");
+    } catch (error: any) {
+      showToast(`Delete folder failed: ${describeError(error)}`, "error");
+      addLog(`Rmdir Error for "${path}": ${error.message}`, "error");
+    }
+  };
+
+  /**
+   * RENAME: Files and directories (inline in the sidebar)
+   */
+  const renameEntry = async (path: string, newName: string) => {
+    try {
+      const renamedPath = await OPFSFileSystem.rename(path, newName);
+      showToast(`Renamed to ${newName}`);
+      addLog(`Action: Renamed "${path}" to "${renamedPath}"`, "success");
+    } catch (error: any) {
+      showToast(`Rename failed: ${describeError(error)}`, "error");
+      addLog(`Rename Error for "${path}": ${error.message}`, "error");
+    }
+  };
+
   /**
    * CRUD: Read (Single File)
    */
   const loadFile = async (fileName: string) => {
     try {
-      const text = await OPFSFileSystem.read(fileName);
+      const [{ content: text, version }, stats] = await Promise.all([
+        OPFSFileSystem.readVersioned(fileName),
+        OPFSFileSystem.stat(fileName),
+      ]);
+
+      const shown = await recoverDraft(fileName, text, version);
 
       setCurrentFile(fileName);
-      setContent(text);
-      setLastModified(new Date());
+      setSelectedDirectory(parentDirectory(fileName));
+      setContent(shown);
+      setSavedContent(text);
+      setCurrentVersion(version);
+      setLastModified(new Date(stats.lastModified ?? Date.now()));
+      setFileSize(stats.size);
+      setDiskChange(null);
       addLog(`Action: Read file "${fileName}"`, "info");
     } catch (error: any) {
-      showToast("Load error", "error");
+      showToast(`Load failed: ${describeError(error)}`, "error");
       addLog(`Read Error for "${fileName}": ${error.message}`, "error");
     }
   };
 
   /**
-   * CRUD: Update
+   * NAVIGATION: Open a file from the tree or search results, unless that
+   * would throw away edits the user wants to keep
+   */
+  const openFile = async (fileName: string) => {
+    if (!confirmDiscard(fileName === currentFile ? "Reload it" : `Open "${fileName}"`)) {
+      return;
+    }
+    await loadFile(fileName);
+  };
+
+  /**
+   * CRUD: Update (conditional on the version we loaded, unless forced)
    */
-  const saveFile = async () => {
+  const saveFile = async (force = false) => {
     if (!currentFile) return;
+    // The old contents stay behind as a revision, so the whole file is new usage
+    const size = new Blob([content]).size;
+    if (!force && !(await confirmWithinQuota(size, `Saving "${currentFile}"`))) return;
     try {
-      await OPFSFileSystem.update(currentFile, content);
+      const version = await OPFSFileSystem.update(
+        currentFile,
+        content,
+        force ? {} : { expectedVersion: currentVersion ?? undefined },
+      );
+      const stats = await OPFSFileSystem.stat(currentFile);
 
-      setLastModified(new Date());
+      setCurrentVersion(version);
+      setSavedContent(content);
+      setLastModified(new Date(stats.lastModified ?? Date.now()));
+      setFileSize(stats.size);
+      setDiskChange(null);
+      await dropDraft(currentFile);
       showToast("File saved");
       addLog(`Action: Updated content for "${currentFile}"`, "success");
     } catch (error: any) {
-      showToast("Save failed", "error");
+      if (error instanceof OPFSError && error.code === "CONFLICT") {
+        addLog(`Conflict: "${currentFile}" changed since it was opened`, "warning");
+        const overwrite = window.confirm(
+          `"${currentFile}" was changed elsewhere since you opened it.\n\n` +
+            "OK overwrites it with your version, Cancel loads the latest copy.",
+        );
+        if (overwrite) {
+          await saveFile(true);
+        } else {
+          await dropDraft(currentFile);
+          await loadFile(currentFile);
+        }
+        return;
+      }
+      showToast(`Save failed: ${describeError(error)}`, "error");
       addLog(
         `Update Error for "${currentFile}": ${error.message}`,
         "error",
@@ -195,7 +531,7 @@ export const App: React.FC = () => {
    * EDIT FUNCTIONALITY: Randomize (Local update only)
    */
   const randomizeCurrentFile = async () => {
-    if (!currentFile) return;
+    if (!currentFile || !confirmDiscard("Randomize it")) return;
     try {
       const randomText = generateRandomContent();
       setContent(randomText);
@@ -218,23 +554,425 @@ export const App: React.FC = () => {
     const fileName = currentFile;
     try {
       await OPFSFileSystem.delete(fileName);
-
-      setCurrentFile(null);
-      setContent("");
-      setLastModified(null);
       showToast(`Deleted ${fileName}`);
       addLog(`Action: Deleted file "${fileName}"`, "warning");
-
-      setTimeout(refreshFileList, 100);
     } catch (error: any) {
-      showToast("Delete failed", "error");
+      showToast(`Delete failed: ${describeError(error)}`, "error");
       addLog(`Delete Error for "${fileName}": ${error.message}`, "error");
     }
   };
 
-  // Compatibility Check
+  /**
+   * RESTORE: Recreate the open file after another tab deleted it
+   */
+  const restoreFile = async () => {
+    if (!currentFile) return;
+    try {
+      await OPFSFileSystem.create(currentFile, content);
+      addLog(`Action: Restored "${currentFile}" from the editor`, "success");
+      await dropDraft(currentFile);
+      await loadFile(currentFile);
+    } catch (error: any) {
+      showToast(`Restore failed: ${describeError(error)}`, "error");
+      addLog(`Restore Error for "${currentFile}": ${error.message}`, "error");
+    }
+  };
+
+  /**
+   * HISTORY: Bring back an earlier revision; what it replaces is kept too
+   */
+  const restoreRevision = async (revision: OPFSRevision) => {
+    if (!currentFile) return;
+    const savedAt = new Date(revision.lastModified).toLocaleString();
+    const confirmed = window.confirm(
+      `Replace "${currentFile}" with the revision from ${savedAt}?\n\n` +
+        "The current contents stay in history. Unsaved edits are discarded.",
+    );
+    if (!confirmed) return;
+    try {
+      await OPFSFileSystem.restore(currentFile, revision.id);
+      await dropDraft(currentFile);
+      showToast("Revision restored");
+      addLog(
+        `Action: Restored "${currentFile}" to the revision from ${savedAt}`,
+        "success",
+      );
+      await loadFile(currentFile);
+    } catch (error: any) {
+      showToast(`Restore failed: ${describeError(error)}`, "error");
+      addLog(`History Error for "${currentFile}": ${error.message}`, "error");
+    }
+  };
+
+  /**
+   * BACKUP: Download everything as a ZIP archive
+   */
+  const exportArchive = async () => {
+    setLoading(true);
+    try {
+      const archive = await OPFSFileSystem.exportArchive();
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `opfs-backup-${new Date().toISOString().slice(0, 10)}.zip`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url));
+      showToast(`Exported ${formatBytes(archive.size)}`);
+      addLog(`Action: Exported the store as a ${formatBytes(archive.size)} archive`, "success");
+    } catch (error: any) {
+      showToast(`Export failed: ${describeError(error)}`, "error");
+      addLog(`Export Error: ${error.message}`, "error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * BACKUP: Restore a ZIP archive chosen through the hidden file input
+   */
+  const importArchive = async (file: File) => {
+    const onConflict = window.prompt(
+      `Importing "${file.name}". When a path already exists: fail, skip, overwrite or rename?`,
+      "rename",
+    );
+    if (!onConflict) return;
+    if (!(await confirmWithinQuota(file.size, `Importing "${file.name}"`))) return;
+    setLoading(true);
+    try {
+      const { imported, skipped } = await OPFSFileSystem.importArchive(file, {
+        onConflict: onConflict.trim().toLowerCase() as ImportConflictPolicy,
+      });
+      showToast(`Imported ${imported.length} entries`);
+      addLog(
+        `Action: Imported ${imported.length} entries from "${file.name}"` +
+          (skipped.length > 0 ? `, skipped ${skipped.length}` : ""),
+        "success",
+      );
+    } catch (error: any) {
+      showToast(`Import failed: ${describeError(error)}`, "error");
+      addLog(`Import Error for "${file.name}": ${error.message}`, "error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * INTEGRITY: Check every file against its checksum and list what's wrong
+   */
+  const checkStorage = async () => {
+    setLoading(true);
+    try {
+      const report = await OPFSFileSystem.verify();
+      setIntegrityReport(report);
+      addLog(
+        `Check: ${report.checked} files, ${report.problems.length} problems`,
+        report.problems.length === 0 ? "success" : "warning",
+      );
+    } catch (error: any) {
+      showToast(`Check failed: ${describeError(error)}`, "error");
+      addLog(`Check Error: ${error.message}`, "error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * INTEGRITY: Deal with each problem in turn, then check again so the
+   * list shows what's left, even when one of them failed
+   */
+  const repairProblems = async (problems: IntegrityProblem[], action: RepairAction) => {
+    setLoading(true);
+    try {
+      for (const problem of problems) {
+        await OPFSFileSystem.repair(problem, action);
+        addLog(
+          `Action: ${action === "repair" ? "Repaired" : "Quarantined"} "${problem.path}" (${problem.type})`,
+          "success",
+        );
+      }
+      showToast(problems.length === 1 ? "Problem resolved" : "Problems resolved");
+    } catch (error: any) {
+      showToast(`Repair failed: ${describeError(error)}`, "error");
+      addLog(`Repair Error: ${error.message}`, "error");
+    }
+    try {
+      setIntegrityReport(await OPFSFileSystem.verify());
+    } catch (error: any) {
+      addLog(`Check Error: ${error.message}`, "error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const closeEditor = () => {
+    setCurrentFile(null);
+    setContent("");
+    setSavedContent("");
+    setLastModified(null);
+    setDiskChange(null);
+    setShowHistory(false);
+  };
+
+  /**
+   * DRAFTS: Unsaved edits are autosaved to a hidden draft (see the effect
+   * below). Saving, or choosing to lose them, drops it.
+   */
+  const dropDraft = async (fileName: string) => {
+    try {
+      await discardDraft(OPFSFileSystem, fileName);
+    } catch (error: any) {
+      addLog(`Draft Error for "${fileName}": ${error.message}`, "error");
+    }
+  };
+
+  /**
+   * DRAFTS: A draft still there when its file is opened holds edits a crash
+   * or closed tab lost. Offers them back; returns what the editor shows.
+   */
+  const recoverDraft = async (fileName: string, text: string, version: string) => {
+    const draft = await loadDraft(OPFSFileSystem, fileName).catch(() => null);
+    if (!draft) return text;
+    const savedAt = new Date(draft.savedAt).toLocaleString();
+    const recover =
+      draft.content !== text &&
+      window.confirm(
+        `"${fileName}" has unsaved changes from ${savedAt}.\n\n` +
+          (draft.version !== version
+            ? "The file was saved again since, so they may be out of date. "
+            : "") +
+          "OK restores them, Cancel discards them.",
+      );
+    if (recover) {
+      addLog(`Action: Recovered unsaved changes to "${fileName}" from ${savedAt}`, "warning");
+      return draft.content;
+    }
+    await dropDraft(fileName);
+    return text;
+  };
+
+  /**
+   * DRAFTS: Ask before `action` throws away unsaved edits; true if there
+   * are none or the user agreed to lose them.
+   */
+  const confirmDiscard = (action: string): boolean => {
+    if (!currentFile || !isDirty) return true;
+    const discard = window.confirm(
+      `"${currentFile}" has unsaved changes.\n\n${action} anyway and discard them?`,
+    );
+    if (discard) {
+      dropDraft(currentFile);
+      addLog(`Action: Discarded unsaved changes to "${currentFile}"`, "warning");
+    }
+    return discard;
+  };
+
+  /**
+   * LIVE SYNC: Every change, from this tab or another, lands here. The
+   * actions above only perform the operation; the tree and editor follow
+   * from the events. Kept in a ref so the subscription always sees the
+   * latest state without resubscribing on every render.
+   */
+  const handleChangeRef = useRef<ChangeListener>(() => undefined);
+  handleChangeRef.current = (event, origin) => {
+    // Drafts are hidden, and autosaving them shouldn't reload the tree
+    if (isDraftPath(event.path)) return;
+
+    if (origin === "remote") {
+      addLog(`Sync: "${event.path}" ${event.type} in another tab`, "info");
+    }
+
+    if (event.type === "renamed" && event.oldPath !== undefined) {
+      // Re-point anything that lived at or under the old path
+      const { oldPath, path } = event;
+      const remap = (target: string) =>
+        isWithin(target, oldPath) ? path + target.slice(oldPath.length) : target;
+      // Autosave starts a draft at the new path; the old one would go stale
+      if (currentFile && isWithin(currentFile, oldPath)) dropDraft(currentFile);
+      setCurrentFile((previous) => previous && remap(previous));
+      setSelectedDirectory(remap);
+      setExpanded((previous) => new Set(Array.from(previous).map(remap)));
+      setTree((previousTree) => {
+        const nextTree: Record<string, OPFSStat[]> = {};
+        Object.entries(previousTree).forEach(([directory, entries]) => {
+          nextTree[remap(directory)] = entries;
+        });
+        return nextTree;
+      });
+    }
+
+    if (event.type === "deleted") {
+      const removed = (target: string) => isWithin(target, event.path);
+      if (currentFile && removed(currentFile)) {
+        // Leave a remote deletion on screen so the text can still be saved
+        if (origin === "remote") {
+          setDiskChange("deleted");
+        } else {
+          dropDraft(currentFile);
+          closeEditor();
+        }
+      }
+      setSelectedDirectory((previous) =>
+        removed(previous) ? parentDirectory(event.path) : previous,
+      );
+      setExpanded(
+        (previous) =>
+          new Set(Array.from(previous).filter((directory) => !removed(directory))),
+      );
+      setTree((previousTree) => {
+        const nextTree: Record<string, OPFSStat[]> = {};
+        Object.entries(previousTree).forEach(([directory, entries]) => {
+          if (!removed(directory)) nextTree[directory] = entries;
+        });
+        return nextTree;
+      });
+    }
+
+    if (
+      event.type === "updated" &&
+      origin === "remote" &&
+      event.path === currentFile
+    ) {
+      setDiskChange("updated");
+    }
+
+    // Re-list every loaded directory above the change; missing parents may
+    // have been created along the way
+    const directories = new Set(
+      [event.path, event.oldPath ?? event.path].flatMap(ancestorDirectories),
+    );
+    directories.forEach((directory) => {
+      if (directory !== "" && !tree[directory]) return;
+      // It may be gone by now; its own deletion event cleans up
+      loadDirectory(directory).catch(() => undefined);
+    });
+  };
+
+  useEffect(() => {
+    if (!isInitialized) return;
+    return OPFSFileSystem.watch(
+      "",
+      (event, origin) => handleChangeRef.current(event, origin),
+      { recursive: true },
+    );
+  }, [isInitialized]);
+
+  /**
+   * DRAFTS: Autosave unsaved edits once typing pauses, so a crash or closed
+   * tab doesn't lose them. The draft notes the version they were made to.
+   */
+  useEffect(() => {
+    if (!currentFile || !isDirty) return;
+    const timer = setTimeout(() => {
+      saveDraft(OPFSFileSystem, currentFile, {
+        content,
+        version: currentVersion,
+        savedAt: Date.now(),
+      }).catch((error) => addLog(`Draft Error for "${currentFile}": ${error.message}`, "error"));
+    }, DRAFT_AUTOSAVE_MS);
+    return () => clearTimeout(timer);
+  }, [currentFile, content, currentVersion, isDirty, addLog]);
+
+  // Closing the tab with unsaved edits asks first; the draft keeps them regardless
+  useEffect(() => {
+    if (!isDirty) return;
+    const warn = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    window.addEventListener("beforeunload", warn);
+    return () => window.removeEventListener("beforeunload", warn);
+  }, [isDirty]);
+
+  /**
+   * TRACING: With timings on, every call to the worker is logged with its
+   * size and duration, split into waiting for locks and running.
+   */
+  useEffect(() => {
+    if (!showTimings) return;
+    return addMiddleware(createTracing((trace) => addLog(describeTrace(trace), "trace")));
+  }, [showTimings, addLog]);
+
+  /**
+   * SEARCH: Query as the user types. Re-runs when the tree reloads, which
+   * it does on every change, so results follow edits too.
+   */
+  useEffect(() => {
+    if (!isInitialized || !searchQuery.trim()) {
+      setSearchResults(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      OPFSFileSystem.search(searchQuery).then(
+        (results) => {
+          if (!cancelled) setSearchResults(results);
+        },
+        (error) => {
+          if (!cancelled) addLog(`Search Error: ${error.message}`, "error");
+        },
+      );
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isInitialized, searchQuery, tree, addLog]);
+
+  /**
+   * STORAGE: Keep the meter current. The tree changes with every write
+   * (through the watcher), so it doubles as the refresh signal. Usage and
+   * quota come from the browser's estimate, without walking any files.
+   */
+  useEffect(() => {
+    if (!isInitialized) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      OPFSFileSystem.storageInfo().then(
+        (info) => {
+          if (!cancelled) setStorageInfo(info);
+        },
+        (error) => {
+          if (!cancelled) addLog(`Storage Info Error: ${error.message}`, "error");
+        },
+      );
+    }, STORAGE_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isInitialized, tree, addLog]);
+
+  /**
+   * STORAGE: The per-folder breakdown walks every file under a shared lock
+   * on the root, holding up writes meanwhile. So it is only fetched while
+   * shown, and then refreshed on a slow interval rather than per change.
+   */
+  useEffect(() => {
+    if (!isInitialized || !showStorageBreakdown) {
+      setStorageBreakdown(null);
+      return;
+    }
+    let cancelled = false;
+    const load = () =>
+      OPFSFileSystem.storageInfo({ byDirectory: true }).then(
+        (info) => {
+          if (!cancelled) setStorageBreakdown(info);
+        },
+        (error) => {
+          if (!cancelled) addLog(`Storage Info Error: ${error.message}`, "error");
+        },
+      );
+    load();
+    const timer = setInterval(load, STORAGE_BREAKDOWN_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [isInitialized, showStorageBreakdown, addLog]);
+
+  // Compatibility Check: storage falls back as far as memory, but the worker is required
   useEffect(() => {
-    if (!navigator.storage || !navigator.storage.getDirectory) {
+    if (typeof Worker === "undefined") {
       setIsCompatible(false);
     }
   }, []);
@@ -248,7 +986,7 @@ export const App: React.FC = () => {
             Unsupported Browser
           </h1>
           <p className="text-slate-600 mt-2">
-            OPFS is required. Please use Safari 15.2+, Chrome, or Edge.
+            Web Workers are required. Please use a current Safari, Chrome, Firefox or Edge.
           </p>
         </div>
       </div>
@@ -260,27 +998,60 @@ export const App: React.FC = () => {
       <div className="min-h-screen bg-slate-50 flex items-center justify-center p-6">
         <div className="max-w-md w-full bg-white p-10 rounded-3xl shadow-2xl border border-slate-100 text-center animate-in fade-in zoom-in duration-500">
           <div className="w-20 h-20 bg-indigo-50 text-indigo-600 rounded-2xl flex items-center justify-center mx-auto mb-6 shadow-inner">
-            <HardDrive size={40} />
+            {isLocked ? <Lock size={40} /> : <HardDrive size={40} />}
           </div>
           <h1 className="text-2xl font-extrabold text-slate-900 mb-2">
-            OPFS Manager
+            {isLocked ? "Storage Locked" : "OPFS Manager"}
           </h1>
           <p className="text-slate-500 mb-8">
-            Access private high-speed storage on your device. Click below to
-            authorize.
+            {isLocked
+              ? "This storage is encrypted. Enter its passphrase to unlock it."
+              : "Access private high-speed storage on your device. Click below to authorize."}
           </p>
-          <button
-            onClick={initFileSystem}
-            disabled={loading}
-            className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white font-bold py-4 rounded-2xl transition-all flex items-center justify-center gap-3 shadow-lg shadow-indigo-200 active:scale-95"
+          <form
+            onSubmit={(event) => {
+              event.preventDefault();
+              initFileSystem();
+            }}
+            className="space-y-4"
           >
-            {loading ? (
-              <RefreshCw size={20} className="animate-spin" />
-            ) : (
-              <ShieldCheck size={20} />
+            {!isLocked && (
+              <label className="flex items-center justify-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={encryptStorage}
+                  onChange={(event) => setEncryptStorage(event.target.checked)}
+                  className="accent-indigo-600"
+                />
+                Encrypt files with a passphrase
+              </label>
+            )}
+            {(isLocked || encryptStorage) && (
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(event) => setPassphrase(event.target.value)}
+                placeholder="Passphrase"
+                autoComplete={isLocked ? "current-password" : "new-password"}
+                autoFocus
+                className="w-full px-4 py-3 border border-slate-200 rounded-2xl text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
             )}
-            Initialize Storage
-          </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white font-bold py-4 rounded-2xl transition-all flex items-center justify-center gap-3 shadow-lg shadow-indigo-200 active:scale-95"
+            >
+              {loading ? (
+                <RefreshCw size={20} className="animate-spin" />
+              ) : isLocked ? (
+                <Unlock size={20} />
+              ) : (
+                <ShieldCheck size={20} />
+              )}
+              {isLocked ? "Unlock Storage" : "Initialize Storage"}
+            </button>
+          </form>
         </div>
       </div>
     );
@@ -293,9 +1064,16 @@ export const App: React.FC = () => {
         <header className="flex flex-col md:flex-row md:items-center justify-between gap-4">
           <div>
             <div className="flex items-center gap-2 mb-1">
-              <span className="bg-emerald-100 text-emerald-700 text-[10px] font-bold px-2 py-0.5 rounded-full uppercase tracking-tighter border border-emerald-200">
-                OPFS Active
+              <span
+                className={`${BACKEND_BADGES[backend].className} text-[10px] font-bold px-2 py-0.5 rounded-full uppercase tracking-tighter border`}
+              >
+                {BACKEND_BADGES[backend].label}
               </span>
+              {isEncrypted && (
+                <span className="bg-indigo-100 text-indigo-700 text-[10px] font-bold px-2 py-0.5 rounded-full uppercase tracking-tighter border border-indigo-200">
+                  Encrypted
+                </span>
+              )}
             </div>
             <h1 className="text-3xl font-black tracking-tight text-slate-900">
               File Explorer
@@ -314,12 +1092,65 @@ export const App: React.FC = () => {
               )}
               Create New
             </button>
+            <button
+              onClick={createFolder}
+              title="New Folder"
+              className="bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 p-2.5 rounded-2xl transition-all active:scale-95"
+            >
+              <FolderPlus size={20} />
+            </button>
+            <button
+              onClick={exportArchive}
+              disabled={loading}
+              title="Export as ZIP"
+              className="bg-white border border-slate-200 hover:bg-slate-50 disabled:opacity-50 text-slate-700 p-2.5 rounded-2xl transition-all active:scale-95"
+            >
+              <Download size={20} />
+            </button>
+            <button
+              onClick={() => archiveInputRef.current?.click()}
+              disabled={loading}
+              title="Import ZIP"
+              className="bg-white border border-slate-200 hover:bg-slate-50 disabled:opacity-50 text-slate-700 p-2.5 rounded-2xl transition-all active:scale-95"
+            >
+              <Upload size={20} />
+            </button>
+            <input
+              ref={archiveInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                // Reset so choosing the same file again still fires
+                event.target.value = "";
+                if (file) importArchive(file);
+              }}
+            />
+            <button
+              onClick={checkStorage}
+              disabled={loading}
+              title="Check Storage"
+              className="bg-white border border-slate-200 hover:bg-slate-50 disabled:opacity-50 text-slate-700 p-2.5 rounded-2xl transition-all active:scale-95"
+            >
+              <ShieldCheck size={20} />
+            </button>
             <button
               onClick={refreshFileList}
               className="bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 p-2.5 rounded-2xl transition-all active:rotate-180 duration-500"
             >
               <RefreshCw size={20} />
             </button>
+            {isEncrypted && (
+              <button
+                onClick={lockStorage}
+                disabled={loading}
+                title="Lock Storage"
+                className="bg-white border border-slate-200 hover:bg-slate-50 disabled:opacity-50 text-slate-700 p-2.5 rounded-2xl transition-all active:scale-95"
+              >
+                <Lock size={20} />
+              </button>
+            )}
           </div>
         </header>
 
@@ -327,16 +1158,72 @@ export const App: React.FC = () => {
           {/* Sidebar */}
           <div className="md:col-span-4 lg:col-span-3 bg-white rounded-3xl border border-slate-200 shadow-sm flex flex-col max-h-[600px]">
             <div className="p-5 border-b border-slate-50 flex justify-between items-center">
-              <h2 className="font-bold text-slate-400 text-xs uppercase tracking-widest">
-                Filesystem Root
-              </h2>
-              <span className="text-[10px] font-bold text-slate-300 bg-slate-50 px-2 py-0.5 rounded-md">
-                {files.length} ITEMS
+              <button
+                onClick={() => setSelectedDirectory("")}
+                title="Select root as target folder"
+                className={`font-bold text-xs uppercase tracking-widest truncate ${
+                  selectedDirectory === ""
+                    ? "text-indigo-500"
+                    : "text-slate-400 hover:text-slate-600"
+                }`}
+              >
+                /{selectedDirectory || "Filesystem Root"}
+              </button>
+              <span className="text-[10px] font-bold text-slate-300 bg-slate-50 px-2 py-0.5 rounded-md flex-shrink-0">
+                {(tree[""] ?? []).length} ITEMS
               </span>
             </div>
+            <div className="px-5 py-3 border-b border-slate-50">
+              <div className="flex items-center gap-2 bg-slate-50 rounded-xl px-3 py-2 focus-within:ring-2 focus-within:ring-indigo-100">
+                <Search size={14} className="text-slate-400 flex-shrink-0" />
+                <input
+                  value={searchQuery}
+                  onChange={(event) => setSearchQuery(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === "Escape") setSearchQuery("");
+                  }}
+                  placeholder="Search files"
+                  className="flex-1 min-w-0 bg-transparent text-sm text-slate-700 placeholder:text-slate-400 focus:outline-none"
+                />
+                {searchQuery && (
+                  <button
+                    onClick={() => setSearchQuery("")}
+                    title="Clear search"
+                    className="text-slate-300 hover:text-slate-600 transition-colors"
+                  >
+                    <X size={14} />
+                  </button>
+                )}
+              </div>
+            </div>
+            <div
+              className={`px-5 py-2 border-b border-slate-50 flex items-center gap-1 ${
+                searchResults ? "hidden" : ""
+              }`}
+            >
+              {(["name", "size", "modified"] as SortKey[]).map((key) => (
+                <button
+                  key={key}
+                  onClick={() => setSortBy(key)}
+                  className={`text-[10px] font-bold uppercase tracking-widest px-2 py-1 rounded-md transition-colors ${
+                    sortBy === key
+                      ? "bg-indigo-50 text-indigo-600"
+                      : "text-slate-300 hover:text-slate-500"
+                  }`}
+                >
+                  {key}
+                </button>
+              ))}
+            </div>
 
             <div className="flex-1 overflow-y-auto p-3 space-y-1 custom-scrollbar min-h-[300px]">
-              {files.length === 0 ? (
+              {searchResults ? (
+                <SearchResults
+                  results={searchResults}
+                  currentFile={currentFile}
+                  onOpenFile={openFile}
+                />
+              ) : (tree[""] ?? []).length === 0 ? (
                 <div className="text-center py-12 px-6">
                   <div className="w-12 h-12 bg-slate-50 text-slate-200 rounded-full flex items-center justify-center mx-auto mb-3">
                     <FileQuestion size={24} />
@@ -346,31 +1233,27 @@ export const App: React.FC = () => {
                   </p>
                 </div>
               ) : (
-                files.map((fileName) => (
-                  <button
-                    key={fileName}
-                    onClick={() => loadFile(fileName)}
-                    className={`w-full text-left p-4 rounded-2xl transition-all flex items-center gap-4 group ${
-                      currentFile === fileName
-                        ? "bg-indigo-600 text-white shadow-lg shadow-indigo-100"
-                        : "hover:bg-slate-50 text-slate-600 border border-transparent hover:border-slate-100"
-                    }`}
-                  >
-                    <FileText
-                      size={18}
-                      className={
-                        currentFile === fileName
-                          ? "text-indigo-200"
-                          : "text-slate-400 group-hover:text-indigo-500"
-                      }
-                    />
-                    <span className="text-sm font-bold truncate">
-                      {fileName}
-                    </span>
-                  </button>
-                ))
+                <FileTree
+                  tree={tree}
+                  expanded={expanded}
+                  currentFile={currentFile}
+                  selectedDirectory={selectedDirectory}
+                  sortBy={sortBy}
+                  onToggleDirectory={toggleDirectory}
+                  onOpenFile={openFile}
+                  onDeleteDirectory={deleteFolder}
+                  onRename={renameEntry}
+                />
               )}
             </div>
+            {storageInfo && (
+              <StorageMeter
+                info={storageInfo}
+                breakdown={storageBreakdown}
+                showBreakdown={showStorageBreakdown}
+                onToggleBreakdown={() => setShowStorageBreakdown((previous) => !previous)}
+              />
+            )}
           </div>
 
           {/* Workspace */}
@@ -399,9 +1282,15 @@ export const App: React.FC = () => {
                         {currentFile}
                       </h3>
                       <div className="flex items-center gap-2 mt-1">
-                        <span className="w-2 h-2 rounded-full bg-emerald-500"></span>
+                        <span
+                          className={`w-2 h-2 rounded-full ${
+                            isDirty ? "bg-amber-500" : "bg-emerald-500"
+                          }`}
+                        ></span>
                         <p className="text-[10px] text-slate-400 uppercase font-black tracking-widest">
-                          Synced: {lastModified?.toLocaleTimeString()}
+                          {isDirty && <span className="text-amber-600">Unsaved changes · </span>}
+                          Modified: {lastModified?.toLocaleString()} ·{" "}
+                          {formatBytes(fileSize)}
                         </p>
                       </div>
                     </div>
@@ -417,11 +1306,26 @@ export const App: React.FC = () => {
                       <span className="hidden sm:inline">Randomize</span>
                     </button>
 
+                    <button
+                      onClick={() => setShowHistory((previous) => !previous)}
+                      title="Revision History"
+                      className={`p-3 rounded-2xl transition-all border flex items-center gap-2 font-bold text-sm ${
+                        showHistory
+                          ? "text-indigo-600 bg-indigo-50 border-indigo-100"
+                          : "text-indigo-500 hover:bg-indigo-50 border-transparent hover:border-indigo-100"
+                      }`}
+                    >
+                      <History size={20} />
+                      <span className="hidden sm:inline">History</span>
+                    </button>
+
                     <button
                       onClick={() => {
-                        setCurrentFile(null);
+                        if (!confirmDiscard("Close it")) return;
+                        closeEditor();
                         addLog("Editor closed", "info");
                       }}
+                      title="Close"
                       className="p-3 text-slate-300 hover:text-slate-900 hover:bg-slate-100 rounded-2xl transition-all"
                     >
                       <X size={24} />
@@ -429,13 +1333,62 @@ export const App: React.FC = () => {
                   </div>
                 </div>
 
-                <textarea
-                  value={content}
-                  onChange={(event) => setContent(event.target.value)}
-                  spellCheck="false"
-                  className="flex-1 p-10 bg-transparent resize-none focus:outline-none text-slate-700 leading-relaxed font-mono text-base"
-                  placeholder="Start writing here..."
-                />
+                {diskChange && (
+                  <div className="px-6 py-3 bg-amber-50 border-b border-amber-100 flex items-center justify-between gap-4">
+                    <span className="flex items-center gap-2 text-sm font-bold text-amber-700">
+                      <AlertTriangle size={16} />
+                      {diskChange === "updated"
+                        ? "This file changed on disk in another tab."
+                        : "This file was deleted in another tab."}
+                    </span>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() =>
+                          diskChange === "updated"
+                            ? openFile(currentFile)
+                            : restoreFile()
+                        }
+                        className="px-3 py-1.5 rounded-xl bg-amber-500 hover:bg-amber-600 text-white text-xs font-black transition-all"
+                      >
+                        {diskChange === "updated" ? "Reload" : "Restore"}
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (diskChange === "updated") {
+                            setDiskChange(null);
+                            return;
+                          }
+                          if (!confirmDiscard("Close it")) return;
+                          // The file is gone, so there's nothing left to recover the draft into
+                          dropDraft(currentFile);
+                          closeEditor();
+                          addLog("Editor closed", "info");
+                        }}
+                        className="px-3 py-1.5 rounded-xl text-amber-700 hover:bg-amber-100 text-xs font-black transition-all"
+                      >
+                        {diskChange === "updated" ? "Keep Mine" : "Close"}
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {showHistory ? (
+                  <HistoryPanel
+                    path={currentFile}
+                    content={content}
+                    version={currentVersion}
+                    onRestore={restoreRevision}
+                    onClose={() => setShowHistory(false)}
+                  />
+                ) : (
+                  <textarea
+                    value={content}
+                    onChange={(event) => setContent(event.target.value)}
+                    spellCheck="false"
+                    className="flex-1 p-10 bg-transparent resize-none focus:outline-none text-slate-700 leading-relaxed font-mono text-base"
+                    placeholder="Start writing here..."
+                  />
+                )}
 
                 <div className="p-6 bg-slate-50 border-t border-slate-100 flex justify-between items-center">
                   <button
@@ -447,7 +1400,7 @@ export const App: React.FC = () => {
                   </button>
 
                   <button
-                    onClick={saveFile}
+                    onClick={() => saveFile()}
                     className="bg-slate-900 hover:bg-black text-white px-10 py-3 rounded-2xl font-black shadow-lg shadow-slate-200 transition-all active:scale-95 flex items-center gap-3"
                   >
                     <Save size={20} />
@@ -470,19 +1423,31 @@ export const App: React.FC = () => {
                 System Activity Log
               </h2>
             </div>
-            <button
-              onClick={() => {
-                setLogs([]);
-                addLog("Logs cleared", "info");
-              }}
-              className="text-xs font-bold text-slate-500 hover:text-slate-300 flex items-center gap-2 transition-colors group"
-            >
-              <Eraser
-                size={14}
-                className="group-hover:rotate-12 transition-transform"
-              />
-              Clear Console
-            </button>
+            <div className="flex items-center gap-6">
+              <button
+                onClick={() => setShowTimings((previous) => !previous)}
+                title="Log every call to the worker with its duration"
+                className={`text-xs font-bold flex items-center gap-2 transition-colors ${
+                  showTimings ? "text-indigo-400" : "text-slate-500 hover:text-slate-300"
+                }`}
+              >
+                <Timer size={14} />
+                {showTimings ? "Timings On" : "Timings Off"}
+              </button>
+              <button
+                onClick={() => {
+                  setLogs([]);
+                  addLog("Logs cleared", "info");
+                }}
+                className="text-xs font-bold text-slate-500 hover:text-slate-300 flex items-center gap-2 transition-colors group"
+              >
+                <Eraser
+                  size={14}
+                  className="group-hover:rotate-12 transition-transform"
+                />
+                Clear Console
+              </button>
+            </div>
           </div>
 
           <div className="p-6 h-[250px] overflow-y-auto custom-scrollbar-dark font-mono text-xs space-y-2 bg-slate-950/50">
@@ -507,7 +1472,9 @@ export const App: React.FC = () => {
                           ? "text-emerald-400"
                           : log.type === "warning"
                             ? "text-amber-400"
-                            : "text-indigo-400"
+                            : log.type === "trace"
+                              ? "text-slate-500"
+                              : "text-indigo-400"
                     }`}
                   >
                     {log.type.toUpperCase()}
@@ -523,6 +1490,16 @@ export const App: React.FC = () => {
         </div>
       </div>
 
+      {integrityReport && (
+        <IntegrityPanel
+          report={integrityReport}
+          busy={loading}
+          onRepair={(problem, action) => repairProblems([problem], action)}
+          onRepairAll={() => repairProblems(integrityReport.problems, "repair")}
+          onClose={() => setIntegrityReport(null)}
+        />
+      )}
+
       {/* Notification Toast Layer */}
       <div className="fixed bottom-8 right-8 z-50 pointer-events-none space-y-3">
         {notifications.map((notification) => (
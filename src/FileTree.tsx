@@ -0,0 +1,283 @@
+import React, { useState } from "react";
+import {
+  ChevronDown,
+  ChevronRight,
+  FileText,
+  Folder,
+  FolderOpen,
+  Pencil,
+  Trash2,
+} from "lucide-react";
+import { OPFSStat } from "./OPFS";
+import { formatBytes, formatDate } from "./format";
+
+export type SortKey = "name" | "size" | "modified";
+
+interface FileTreeProps {
+  /** Loaded children keyed by directory path; "" is the root. */
+  tree: Record<string, OPFSStat[]>;
+  expanded: Set<string>;
+  sortBy: SortKey;
+  currentFile: string | null;
+  selectedDirectory: string;
+  onToggleDirectory: (path: string) => void;
+  onOpenFile: (path: string) => void;
+  onDeleteDirectory: (path: string) => void;
+  onRename: (path: string, newName: string) => void;
+}
+
+interface FileTreeLevelProps extends FileTreeProps {
+  directory: string;
+  depth: number;
+  renamingPath: string | null;
+  setRenamingPath: (path: string | null) => void;
+}
+
+export const FileTree: React.FC<FileTreeProps> = (props) => {
+  const [renamingPath, setRenamingPath] = useState<string | null>(null);
+  return (
+    <FileTreeLevel
+      {...props}
+      directory=""
+      depth={0}
+      renamingPath={renamingPath}
+      setRenamingPath={setRenamingPath}
+    />
+  );
+};
+
+/**
+ * Inline name editor: Enter or blur commits, Escape cancels. Unchanged or
+ * empty names are treated as a cancel.
+ */
+const RenameInput: React.FC<{
+  name: string;
+  onCommit: (newName: string) => void;
+  onCancel: () => void;
+}> = ({ name, onCommit, onCancel }) => {
+  const commit = (value: string) => {
+    const trimmed = value.trim();
+    if (trimmed && trimmed !== name) onCommit(trimmed);
+    else onCancel();
+  };
+  return (
+    <input
+      autoFocus
+      defaultValue={name}
+      onClick={(event) => event.stopPropagation()}
+      onFocus={(event) => {
+        // Preselect the base name, leaving the extension alone
+        const dot = name.lastIndexOf(".");
+        event.target.setSelectionRange(0, dot > 0 ? dot : name.length);
+      }}
+      onKeyDown={(event) => {
+        if (event.key === "Enter") commit(event.currentTarget.value);
+        if (event.key === "Escape") onCancel();
+      }}
+      onBlur={(event) => commit(event.target.value)}
+      className="flex-1 min-w-0 text-sm font-bold text-slate-800 bg-white border border-indigo-300 rounded-lg px-2 py-0.5 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+    />
+  );
+};
+
+const RenameButton: React.FC<{ onClick: () => void; light?: boolean }> = ({
+  onClick,
+  light,
+}) => (
+  <span
+    role="button"
+    title="Rename"
+    onClick={(event) => {
+      event.stopPropagation();
+      onClick();
+    }}
+    className={`opacity-0 group-hover:opacity-100 p-1 transition-all ${
+      light
+        ? "text-indigo-200 hover:text-white"
+        : "text-slate-300 hover:text-indigo-500"
+    }`}
+  >
+    <Pencil size={14} />
+  </span>
+);
+
+/**
+ * Directories always stay on top (alphabetical); files follow the chosen
+ * key, largest and newest first, with the name as tie-breaker.
+ */
+function sortEntries(entries: OPFSStat[], sortBy: SortKey): OPFSStat[] {
+  return [...entries].sort((a, b) => {
+    if (a.kind !== b.kind) return a.kind === "directory" ? -1 : 1;
+    if (a.kind === "file" && sortBy === "size" && a.size !== b.size) {
+      return b.size - a.size;
+    }
+    if (
+      a.kind === "file" &&
+      sortBy === "modified" &&
+      a.lastModified !== b.lastModified
+    ) {
+      return (b.lastModified ?? 0) - (a.lastModified ?? 0);
+    }
+    return a.name.localeCompare(b.name);
+  });
+}
+
+const FileTreeLevel: React.FC<FileTreeLevelProps> = (props) => {
+  const {
+    tree,
+    expanded,
+    sortBy,
+    currentFile,
+    selectedDirectory,
+    onToggleDirectory,
+    onOpenFile,
+    onDeleteDirectory,
+    onRename,
+    directory,
+    depth,
+    renamingPath,
+    setRenamingPath,
+  } = props;
+  const entries = sortEntries(tree[directory] ?? [], sortBy);
+  const indent = { paddingLeft: `${depth * 16 + 16}px` };
+
+  if (depth > 0 && entries.length === 0) {
+    return (
+      <p style={indent} className="text-slate-300 text-xs italic py-2">
+        Empty folder
+      </p>
+    );
+  }
+
+  return (
+    <>
+      {entries.map((entry) => {
+        const isRenaming = renamingPath === entry.path;
+        const renameInput = (
+          <RenameInput
+            name={entry.name}
+            onCommit={(newName) => {
+              setRenamingPath(null);
+              onRename(entry.path, newName);
+            }}
+            onCancel={() => setRenamingPath(null)}
+          />
+        );
+
+        if (entry.kind === "directory") {
+          const isOpen = expanded.has(entry.path);
+          const isSelected = selectedDirectory === entry.path;
+          return (
+            <div key={entry.path}>
+              <div
+                style={indent}
+                className={`w-full pr-3 py-3 rounded-2xl transition-all flex items-center gap-2 group cursor-pointer ${
+                  isSelected
+                    ? "bg-indigo-50 text-indigo-700"
+                    : "hover:bg-slate-50 text-slate-600"
+                }`}
+                onClick={() => onToggleDirectory(entry.path)}
+              >
+                {isOpen ? (
+                  <ChevronDown size={14} className="text-slate-400" />
+                ) : (
+                  <ChevronRight size={14} className="text-slate-400" />
+                )}
+                {isOpen ? (
+                  <FolderOpen size={18} className="text-indigo-400" />
+                ) : (
+                  <Folder size={18} className="text-slate-400" />
+                )}
+                {isRenaming ? (
+                  renameInput
+                ) : (
+                  <>
+                    <span className="text-sm font-bold truncate flex-1">
+                      {entry.name}
+                    </span>
+                    <RenameButton onClick={() => setRenamingPath(entry.path)} />
+                  </>
+                )}
+                <button
+                  title="Delete Folder"
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onDeleteDirectory(entry.path);
+                  }}
+                  className="opacity-0 group-hover:opacity-100 p-1 text-slate-300 hover:text-red-500 transition-all"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+              {isOpen && (
+                <FileTreeLevel
+                  {...props}
+                  directory={entry.path}
+                  depth={depth + 1}
+                />
+              )}
+            </div>
+          );
+        }
+
+        const isActive = currentFile === entry.path;
+        if (isRenaming) {
+          return (
+            <div
+              key={entry.path}
+              style={indent}
+              className="w-full pr-4 py-3 rounded-2xl flex items-center gap-4 bg-slate-50"
+            >
+              <FileText size={18} className="text-indigo-500" />
+              {renameInput}
+            </div>
+          );
+        }
+        return (
+          <button
+            key={entry.path}
+            style={indent}
+            onClick={() => onOpenFile(entry.path)}
+            className={`w-full text-left pr-4 py-4 rounded-2xl transition-all flex items-center gap-4 group ${
+              isActive
+                ? "bg-indigo-600 text-white shadow-lg shadow-indigo-100"
+                : "hover:bg-slate-50 text-slate-600 border border-transparent hover:border-slate-100"
+            }`}
+          >
+            <FileText
+              size={18}
+              className={
+                isActive
+                  ? "text-indigo-200"
+                  : "text-slate-400 group-hover:text-indigo-500"
+              }
+            />
+            <span
+              className="flex-1 min-w-0"
+              onDoubleClick={() => setRenamingPath(entry.path)}
+            >
+              <span className="block text-sm font-bold truncate">
+                {entry.name}
+              </span>
+              <span
+                className={`block text-[10px] font-bold tracking-wide ${
+                  isActive ? "text-indigo-200" : "text-slate-400"
+                }`}
+              >
+                {formatBytes(entry.size)}
+                {entry.storedSize < entry.size
+                  ? ` (${formatBytes(entry.storedSize)} stored)`
+                  : ""}
+                {` · ${formatDate(entry.lastModified)}`}
+              </span>
+            </span>
+            <RenameButton
+              light={isActive}
+              onClick={() => setRenamingPath(entry.path)}
+            />
+          </button>
+        );
+      })}
+    </>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { History, RotateCcw, X } from "lucide-react";
+import { OPFSFileSystem, OPFSRevision } from "./OPFS";
+import { diffLines } from "./diff";
+import { describeError, formatBytes, formatDate } from "./format";
+
+interface HistoryPanelProps {
+  path: string;
+  /** The editor buffer; revisions are diffed against it, saved or not. */
+  content: string;
+  /** Version of the file on disk; the list reloads whenever it changes. */
+  version: string | null;
+  onRestore: (revision: OPFSRevision) => void;
+  onClose: () => void;
+}
+
+const LINE_STYLES = {
+  same: "text-slate-500",
+  added: "bg-emerald-50 text-emerald-800",
+  removed: "bg-red-50 text-red-700",
+};
+
+const LINE_MARKERS = { same: " ", added: "+", removed: "-" };
+
+/**
+ * Prior revisions of the open file beside a line diff of the selected one
+ * against the editor buffer: red lines exist only in the revision, green
+ * lines only in the buffer.
+ */
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  path,
+  content,
+  version,
+  onRestore,
+  onClose,
+}) => {
+  const [revisions, setRevisions] = useState<OPFSRevision[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [revisionText, setRevisionText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    OPFSFileSystem.history(path).then(
+      (loaded) => {
+        if (cancelled) return;
+        setRevisions(loaded);
+        setError(null);
+        // Keep the selection across reloads while it still exists
+        setSelectedId((previous) =>
+          previous && loaded.some((revision) => revision.id === previous)
+            ? previous
+            : loaded[0]?.id ?? null,
+        );
+      },
+      (err) => {
+        if (!cancelled) setError(describeError(err));
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [path, version]);
+
+  useEffect(() => {
+    setRevisionText(null);
+    if (!selectedId) return;
+    let cancelled = false;
+    OPFSFileSystem.readRevision(path, selectedId).then(
+      (text) => {
+        if (!cancelled) setRevisionText(text);
+      },
+      (err) => {
+        if (!cancelled) setError(describeError(err));
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [path, selectedId]);
+
+  const diff = useMemo(
+    () => (revisionText === null ? [] : diffLines(revisionText, content)),
+    [revisionText, content],
+  );
+  const selected = revisions?.find((revision) => revision.id === selectedId);
+  const changed = diff.some((line) => line.type !== "same");
+
+  return (
+    <div className="flex-1 flex min-h-0">
+      <div className="w-56 flex-shrink-0 border-r border-slate-100 flex flex-col">
+        <div className="px-5 py-3 border-b border-slate-50 flex items-center justify-between">
+          <span className="flex items-center gap-2 font-bold text-xs uppercase tracking-widest text-slate-400">
+            <History size={14} />
+            History
+          </span>
+          <button
+            onClick={onClose}
+            title="Close history"
+            className="p-1 text-slate-300 hover:text-slate-900 hover:bg-slate-100 rounded-lg transition-all"
+          >
+            <X size={16} />
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-2 space-y-1 custom-scrollbar">
+          {revisions === null && !error && (
+            <p className="text-slate-400 text-sm italic p-3">Loading…</p>
+          )}
+          {revisions?.length === 0 && (
+            <p className="text-slate-400 text-sm italic p-3">
+              No earlier revisions. One is kept each time the file is saved.
+            </p>
+          )}
+          {revisions?.map((revision) => (
+            <button
+              key={revision.id}
+              onClick={() => setSelectedId(revision.id)}
+              className={`w-full text-left px-3 py-2 rounded-xl transition-colors ${
+                revision.id === selectedId
+                  ? "bg-indigo-50 text-indigo-700"
+                  : "text-slate-600 hover:bg-slate-50"
+              }`}
+            >
+              <div className="text-sm font-bold">
+                {formatDate(revision.lastModified)}
+              </div>
+              <div className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                {formatBytes(revision.size)}
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 min-w-0 flex flex-col">
+        {error && (
+          <div className="px-6 py-3 bg-red-50 border-b border-red-100 text-sm font-bold text-red-600">
+            {error}
+          </div>
+        )}
+        <div className="flex-1 overflow-auto custom-scrollbar font-mono text-sm py-4">
+          {revisionText !== null && !changed && (
+            <p className="px-6 text-slate-400 italic font-sans">
+              This revision matches the editor.
+            </p>
+          )}
+          {changed &&
+            diff.map((line, index) => (
+              <div
+                key={index}
+                className={`px-6 whitespace-pre-wrap break-all ${LINE_STYLES[line.type]}`}
+              >
+                <span className="select-none opacity-50 mr-3">
+                  {LINE_MARKERS[line.type]}
+                </span>
+                {line.text}
+              </div>
+            ))}
+        </div>
+        {selected && (
+          <div className="px-6 py-3 border-t border-slate-100 flex items-center justify-between gap-4">
+            <span className="text-xs text-slate-400">
+              <span className="text-red-500 font-bold">−</span> revision ·{" "}
+              <span className="text-emerald-600 font-bold">+</span> editor
+            </span>
+            <button
+              onClick={() => onRestore(selected)}
+              className="px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-black transition-all flex items-center gap-2 active:scale-95"
+            >
+              <RotateCcw size={14} />
+              Restore this revision
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
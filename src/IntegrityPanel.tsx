@@ -0,0 +1,125 @@
+import React from "react";
+import { Archive, ShieldAlert, ShieldCheck, Wrench, X } from "lucide-react";
+import { IntegrityProblem, RepairAction, VerifyReport } from "./OPFS";
+
+interface IntegrityPanelProps {
+  report: VerifyReport;
+  busy: boolean;
+  onRepair: (problem: IntegrityProblem, action: RepairAction) => void;
+  onRepairAll: () => void;
+  onClose: () => void;
+}
+
+const PROBLEM_LABELS: Record<IntegrityProblem["type"], string> = {
+  corrupted: "Corrupted",
+  unrecorded: "No checksum",
+  missing: "Missing",
+  orphaned: "Leftover",
+};
+
+/** What "Repair" does for each kind of problem, shown as its tooltip. */
+const REPAIR_HINTS: Record<IntegrityProblem["type"], string> = {
+  corrupted: "Restore the newest revision",
+  unrecorded: "Trust the current contents",
+  missing: "Forget the file",
+  orphaned: "Delete it",
+};
+
+/**
+ * The result of a storage check: each problem `verify` found, with the
+ * choice to repair it or move it aside into quarantine.
+ */
+export const IntegrityPanel: React.FC<IntegrityPanelProps> = ({
+  report,
+  busy,
+  onRepair,
+  onRepairAll,
+  onClose,
+}) => {
+  const { checked, problems } = report;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-900/30 flex items-center justify-center p-4">
+      <div className="bg-white rounded-[2rem] shadow-2xl border border-slate-200 w-full max-w-2xl max-h-[80vh] flex flex-col overflow-hidden animate-in">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+          <span className="flex items-center gap-2 font-bold text-xs uppercase tracking-widest text-slate-400">
+            {problems.length === 0 ? (
+              <ShieldCheck size={14} className="text-emerald-500" />
+            ) : (
+              <ShieldAlert size={14} className="text-red-500" />
+            )}
+            Storage Check
+          </span>
+          <button
+            onClick={onClose}
+            title="Close"
+            className="p-1 text-slate-300 hover:text-slate-900 hover:bg-slate-100 rounded-lg transition-all"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <p className="px-6 py-3 text-sm text-slate-500 border-b border-slate-50">
+          Checked {checked} {checked === 1 ? "file" : "files"}:{" "}
+          {problems.length === 0
+            ? "everything matches its checksum."
+            : `${problems.length} ${problems.length === 1 ? "problem" : "problems"} found.`}
+        </p>
+
+        <div className="flex-1 overflow-y-auto p-2 space-y-1 custom-scrollbar">
+          {problems.map((problem) => (
+            <div
+              key={`${problem.type}:${problem.path}`}
+              className="px-4 py-3 rounded-xl hover:bg-slate-50 flex items-center gap-4"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-[10px] font-bold uppercase tracking-widest text-red-600 bg-red-50 px-2 py-0.5 rounded-full">
+                    {PROBLEM_LABELS[problem.type]}
+                  </span>
+                  <span className="text-sm font-bold text-slate-700 truncate">
+                    {problem.path}
+                  </span>
+                </div>
+                <div className="text-xs text-slate-400 mt-1">{problem.message}</div>
+              </div>
+              <button
+                onClick={() => onRepair(problem, "repair")}
+                disabled={busy}
+                title={REPAIR_HINTS[problem.type]}
+                className="px-3 py-1.5 rounded-xl bg-indigo-50 hover:bg-indigo-100 disabled:opacity-50 text-indigo-700 text-xs font-black transition-all flex items-center gap-1.5"
+              >
+                <Wrench size={12} />
+                Repair
+              </button>
+              {problem.type !== "missing" && (
+                <button
+                  onClick={() => onRepair(problem, "quarantine")}
+                  disabled={busy}
+                  title="Move it aside into quarantine"
+                  className="px-3 py-1.5 rounded-xl bg-slate-100 hover:bg-slate-200 disabled:opacity-50 text-slate-600 text-xs font-black transition-all flex items-center gap-1.5"
+                >
+                  <Archive size={12} />
+                  Quarantine
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {problems.length > 1 && (
+          <div className="px-6 py-3 border-t border-slate-100 flex justify-end">
+            <button
+              onClick={onRepairAll}
+              disabled={busy}
+              className="px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white text-xs font-black transition-all flex items-center gap-2 active:scale-95"
+            >
+              <Wrench size={14} />
+              Repair all
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,127 +1,715 @@
-// ── Types ─────────────────────────────────────────────────────────────────────
-
-type OPFSRequest =
-  | { correlationId: string; type: "init" }
-  | { correlationId: string; type: "list" }
-  | { correlationId: string; type: "create"; fileName: string; content: string }
-  | { correlationId: string; type: "read"; fileName: string }
-  | { correlationId: string; type: "update"; fileName: string; content: string }
-  | { correlationId: string; type: "delete"; fileName: string };
-
-interface SuccessResponse<T> {
-  correlationId: string;
-  ok: true;
-  data: T;
-}
-
-interface ErrorResponse {
-  correlationId: string;
-  ok: false;
-  error: string;
-}
+import { Collection, CollectionOptions, createCollection } from "./collection";
+import {
+  CallOptions,
+  createChangeEmitter,
+  createReadStream,
+  createWriteStream,
+  IFileSystem,
+} from "./file-system";
+import {
+  BinaryData,
+  ChangeMessage,
+  correlationIdOf,
+  ImportResult,
+  InitResult,
+  isChangeMessage,
+  OPFSEntry,
+  OPFSError,
+  OPFSInitOptions,
+  OPFSRequest,
+  OPFSRevision,
+  OPFSStat,
+  PROTOCOL_VERSION,
+  SearchResult,
+  StorageBackend,
+  StorageInfo,
+  VerifyReport,
+  VersionedContent,
+  toOPFSError,
+  validateResponse,
+  WorkerTiming,
+} from "./opfs-protocol";
+import {
+  createMiddlewareChain,
+  OperationTrace,
+  OPFSMiddleware,
+} from "./opfs-middleware";
+import { spawnOPFSWorker } from "./opfs-worker-factory";
+import { DEFAULT_SEARCH_LIMIT } from "./search";
 
-type OPFSResponse<T> = SuccessResponse<T> | ErrorResponse;
+export type {
+  BinaryData,
+  CachePolicy,
+  CompressionFormat,
+  CompressionRule,
+  EncryptionOptions,
+  ImportConflictPolicy,
+  ImportResult,
+  IntegrityProblem,
+  OPFSChangeEvent,
+  OPFSEntry,
+  OPFSErrorCode,
+  OPFSInitOptions,
+  OPFSRevision,
+  OPFSStat,
+  RepairAction,
+  SearchResult,
+  StorageBackend,
+  StorageInfo,
+  TransactionOp,
+  VerifyReport,
+  VersionedContent,
+  WorkerTiming,
+  WriteCompression,
+} from "./opfs-protocol";
+export { OPFSError } from "./opfs-protocol";
+export type { CallContext, OperationTrace, OPFSMiddleware } from "./opfs-middleware";
+export { createTracing } from "./opfs-middleware";
+export type {
+  CallOptions,
+  ChangeListener,
+  ChangeOrigin,
+  IFileSystem,
+  WatchOptions,
+} from "./file-system";
+export type {
+  Collection,
+  CollectionBatch,
+  CollectionOptions,
+  Query,
+} from "./collection";
 
 // ── Worker Singleton ──────────────────────────────────────────────────────────
 
 let worker: Worker | null = null;
 
-function getWorker(): Worker {
+/**
+ * Settles once a respawned worker has replayed the last `init`. Every other
+ * request waits on it so nothing reaches a worker that isn't set up yet.
+ */
+let workerReady: Promise<void> = Promise.resolve();
+
+/** Options of the last successful `init`, replayed after a crash. */
+let initOptions: OPFSInitOptions | null = null;
+
+/**
+ * The live worker, spawning one if needed. A fresh worker replays the last
+ * `init` unless `replay` is false: `init` sets it up with its own handshake.
+ */
+function getWorker(replay = true): Worker {
   if (!worker) {
-    worker = new Worker(new URL("./opfs.worker.ts", import.meta.url));
-    worker.onerror = (event) => {
+    const w = spawnOPFSWorker();
+    worker = w;
+    w.onerror = (event) => {
       console.error("[OPFS Worker] Uncaught error:", event.message);
-      worker = null; // allow recreation on next call
+      discardWorker(
+        w,
+        new OPFSError("WORKER_CRASHED", `OPFS worker crashed: ${event.message}`),
+      );
     };
-    attachResponseListener(worker);
+    attachResponseListener(w);
+
+    workerReady = Promise.resolve();
+    if (initOptions && replay) {
+      workerReady = handshake(w, initOptions).then(
+        () => undefined,
+        (err) => {
+          discardWorker(w, err);
+          throw err;
+        },
+      );
+      // Callers waiting on it see the failure; don't also report it as unhandled
+      workerReady.catch(() => undefined);
+    }
   }
   return worker;
 }
 
+/**
+ * Tears down a dead worker and fails everything still waiting on it; the
+ * next call spawns a fresh one.
+ */
+function discardWorker(w: Worker, reason: Error): void {
+  if (worker !== w) return;
+  worker = null;
+  w.terminate();
+  pending.forEach((resolvers) => resolvers.reject(reason));
+  pending.clear();
+}
+
+/**
+ * Sends `init` and checks the worker answers with our protocol version. A
+ * worker from an older deploy (still in the HTTP cache) either rejects our
+ * version itself or replies without one; both end up as PROTOCOL_MISMATCH.
+ */
+async function handshake(
+  w: Worker,
+  options: OPFSInitOptions,
+  callOptions: CallOptions = {},
+): Promise<StorageBackend> {
+  let result: InitResult | undefined;
+  try {
+    result = await dispatch<InitResult | undefined>(
+      w,
+      {
+        correlationId: crypto.randomUUID(),
+        type: "init",
+        protocolVersion: PROTOCOL_VERSION,
+        options,
+      },
+      callOptions,
+    );
+  } catch (err) {
+    // An older worker's reply may not even parse under the current protocol
+    if (err instanceof OPFSError && err.code === "INVALID_REQUEST") {
+      throw new OPFSError("PROTOCOL_MISMATCH", err.message);
+    }
+    throw err;
+  }
+  const workerVersion = result?.protocolVersion;
+  if (workerVersion !== PROTOCOL_VERSION) {
+    throw new OPFSError(
+      "PROTOCOL_MISMATCH",
+      `Protocol mismatch: page speaks v${PROTOCOL_VERSION}, worker speaks ${
+        workerVersion === undefined ? "an unversioned protocol" : `v${workerVersion}`
+      }. Reload to load matching bundles.`,
+    );
+  }
+  return result!.backend;
+}
+
+// ── Change Notifications ──────────────────────────────────────────────────────
+//
+// Each tab runs its own worker, so a tab only hears about its own changes
+// from the worker. Those are relayed to every other tab of the origin over
+// a BroadcastChannel and reported there as "remote".
+
+const changes = createChangeEmitter();
+
+const CHANGE_CHANNEL = "opfs-changes";
+
+let changeChannel: BroadcastChannel | null = null;
+
+function getChangeChannel(): BroadcastChannel | null {
+  if (!changeChannel && typeof BroadcastChannel !== "undefined") {
+    changeChannel = new BroadcastChannel(CHANGE_CHANNEL);
+    changeChannel.onmessage = (event: MessageEvent<unknown>) => {
+      if (isChangeMessage(event.data)) {
+        changes.emit(event.data.changes, "remote");
+      }
+    };
+  }
+  return changeChannel;
+}
+
+function publishChanges(message: ChangeMessage): void {
+  changes.emit(message.changes, "local");
+  getChangeChannel()?.postMessage(message);
+}
+
 // ── Pending Promise Registry ──────────────────────────────────────────────────
 
 type PendingResolvers = {
-  resolve: (value: any) => void;
-  reject: (reason: any) => void;
+  resolve: (value: any, timing?: WorkerTiming) => void;
+  reject: (reason: any, timing?: WorkerTiming) => void;
 };
 
 const pending = new Map<string, PendingResolvers>();
 
 function attachResponseListener(w: Worker): void {
-  w.onmessage = (event: MessageEvent<OPFSResponse<any>>) => {
-    const { correlationId, ok } = event.data;
-    const resolvers = pending.get(correlationId);
-    if (!resolvers) return;
-    pending.delete(correlationId);
-    if (ok) {
-      resolvers.resolve((event.data as SuccessResponse<any>).data);
+  w.onmessage = (event: MessageEvent<unknown>) => {
+    if (isChangeMessage(event.data)) {
+      publishChanges(event.data);
+      return;
+    }
+    let response;
+    try {
+      response = validateResponse(event.data);
+    } catch (err) {
+      // Fail the matching call rather than leaving it hanging forever
+      const correlationId = correlationIdOf(event.data);
+      const resolvers = correlationId && pending.get(correlationId);
+      if (correlationId && resolvers) {
+        pending.delete(correlationId);
+        resolvers.reject(toOPFSError(err));
+      } else {
+        console.error("[OPFS Worker] Dropped invalid response:", err);
+      }
+      return;
+    }
+    const resolvers = pending.get(response.correlationId);
+    if (!resolvers) return; // cancelled, timed out or from a dead worker
+    pending.delete(response.correlationId);
+    if (response.ok) {
+      resolvers.resolve(response.data, response.timing);
     } else {
-      resolvers.reject(new Error((event.data as ErrorResponse).error));
+      resolvers.reject(
+        new OPFSError(response.code, response.error, response.path),
+        response.timing,
+      );
     }
   };
 }
 
+// ── Middleware ────────────────────────────────────────────────────────────────
+
+const middleware = createMiddlewareChain();
+
+/**
+ * Runs `middleware` around every call but `init`, whose request carries
+ * the passphrase. Returns a function that removes it. Ship traces to a
+ * telemetry sink with `addMiddleware(createTracing(sink))`.
+ */
+export function addMiddleware(entry: OPFSMiddleware): () => void {
+  return middleware.add(entry);
+}
+
 // ── Send Helper ───────────────────────────────────────────────────────────────
 
-function send<T>(request: OPFSRequest): Promise<T> {
+function send<T>(
+  request: OPFSRequest,
+  options: CallOptions = {},
+  transfer: Transferable[] = [],
+): Promise<T> {
+  return middleware.run(request, ({ trace }) =>
+    deliver<T>(request, options, transfer, trace),
+  );
+}
+
+async function deliver<T>(
+  request: OPFSRequest,
+  options: CallOptions,
+  transfer: Transferable[],
+  trace: OperationTrace,
+): Promise<T> {
   const w = getWorker();
+  await workerReady;
+  // The worker died while we waited; go again with its replacement
+  if (worker !== w) return deliver<T>(request, options, transfer, trace);
+  return dispatch<T>(w, request, options, transfer, trace);
+}
+
+/** Posts `request` and settles with the reply, adding the worker's timing to `trace`. */
+function dispatch<T>(
+  w: Worker,
+  request: OPFSRequest,
+  { signal, timeoutMs }: CallOptions = {},
+  transfer: Transferable[] = [],
+  trace?: OperationTrace,
+): Promise<T> {
+  const { correlationId } = request;
   return new Promise<T>((resolve, reject) => {
-    pending.set(request.correlationId, { resolve, reject });
-    w.postMessage(request);
+    if (signal?.aborted) {
+      reject(new OPFSError("ABORTED", `"${request.type}" was aborted`));
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const cancel = (error: OPFSError) => {
+      if (!pending.delete(correlationId)) return;
+      cleanup();
+      w.postMessage({
+        correlationId: crypto.randomUUID(),
+        type: "cancel",
+        targetId: correlationId,
+      } as OPFSRequest);
+      reject(error);
+    };
+    const onAbort = () =>
+      cancel(new OPFSError("ABORTED", `"${request.type}" was aborted`));
+
+    const record = (timing?: WorkerTiming) => {
+      if (trace && timing) Object.assign(trace, timing);
+    };
+    pending.set(correlationId, {
+      resolve: (value, timing) => {
+        cleanup();
+        record(timing);
+        resolve(value);
+      },
+      reject: (reason, timing) => {
+        cleanup();
+        record(timing);
+        reject(reason);
+      },
+    });
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(
+        () =>
+          cancel(
+            new OPFSError(
+              "TIMEOUT",
+              `"${request.type}" timed out after ${timeoutMs}ms`,
+            ),
+          ),
+        timeoutMs,
+      );
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+    w.postMessage(request, transfer);
   });
 }
 
+/**
+ * `data` as it should be moved (rather than copied) into the worker, adding
+ * its buffer to `transfer` once. A view of part of a buffer is copied first:
+ * transferring detaches the whole buffer, not just the bytes being written.
+ */
+function transferable<T extends BinaryData | string>(data: T, transfer: Transferable[]): T {
+  let moved: BinaryData = data as BinaryData;
+  if (data instanceof Uint8Array) {
+    const whole = data.byteOffset === 0 && data.byteLength === data.buffer.byteLength;
+    moved = whole ? data : data.slice();
+  }
+  // Blobs are cloned by reference, no copy to avoid
+  const buffer =
+    moved instanceof ArrayBuffer ? moved : moved instanceof Uint8Array ? moved.buffer : null;
+  if (buffer && !transfer.includes(buffer)) transfer.push(buffer);
+  return moved as T;
+}
+
 // ── Public Interface ──────────────────────────────────────────────────────────
 
-interface IFileSystem {
-  init(): Promise<void>;
-  list(): Promise<string[]>;
-  create(fileName: string, content: string): Promise<string>;
-  read(fileName: string): Promise<string>;
-  update(fileName: string, content: string): Promise<void>;
-  delete(fileName: string): Promise<void>;
+function list(
+  path?: string,
+  options?: { withStats?: false } & CallOptions,
+): Promise<OPFSEntry[]>;
+function list(path: string, options: { withStats: true } & CallOptions): Promise<OPFSStat[]>;
+function list(
+  path = "",
+  options: { withStats?: boolean } & CallOptions = {},
+): Promise<OPFSEntry[] | OPFSStat[]> {
+  return send<OPFSEntry[] | OPFSStat[]>(
+    {
+      correlationId: crypto.randomUUID(),
+      type: "list",
+      path,
+      withStats: options.withStats ?? false,
+    },
+    options,
+  );
 }
 
+/**
+ * `IFileSystem` backed by the OPFS worker. If the worker crashes, in-flight
+ * calls reject with WORKER_CRASHED and the next call transparently respawns
+ * it and replays the last `init`.
+ */
 export const OPFSFileSystem: IFileSystem = {
-  init() {
-    return send<void>({ correlationId: crypto.randomUUID(), type: "init" });
+  async init(options = {}) {
+    const { signal, timeoutMs, ...settings } = options;
+    // Let a replay of the last init finish first; two handshakes on one
+    // worker would recover its journal side by side
+    while (worker) {
+      const ready = workerReady;
+      await ready.catch(() => undefined);
+      if (ready === workerReady) break;
+    }
+
+    const spawning = !worker;
+    const handshaking = handshake(getWorker(false), settings, { signal, timeoutMs });
+    if (spawning) {
+      // Calls made meanwhile wait for this handshake instead of a replay
+      workerReady = handshaking.then(
+        () => undefined,
+        () => undefined,
+      );
+    }
+    const backend = await handshaking;
+    initOptions = settings;
+    getChangeChannel(); // start hearing about other tabs
+    return backend;
   },
 
-  list() {
-    return send<string[]>({ correlationId: crypto.randomUUID(), type: "list" });
+  async lock(options) {
+    await send<void>({ correlationId: crypto.randomUUID(), type: "lock" }, options);
+    // A worker respawned after a crash must come back locked too
+    if (initOptions) initOptions = { ...initOptions, encryption: undefined };
   },
 
-  create(fileName, content) {
-    return send<string>({
-      correlationId: crypto.randomUUID(),
-      type: "create",
-      fileName,
-      content,
-    });
+  list,
+
+  stat(path, options) {
+    return send<OPFSStat>(
+      { correlationId: crypto.randomUUID(), type: "stat", path },
+      options,
+    );
   },
 
-  read(fileName) {
-    return send<string>({
-      correlationId: crypto.randomUUID(),
-      type: "read",
-      fileName,
-    });
+  create(path, content, options = {}) {
+    return send<string>(
+      {
+        correlationId: crypto.randomUUID(),
+        type: "create",
+        path,
+        content,
+        overwrite: options.overwrite ?? false,
+        compression: options.compression,
+      },
+      options,
+    );
   },
 
-  update(fileName, content) {
-    return send<void>({
-      correlationId: crypto.randomUUID(),
-      type: "update",
-      fileName,
-      content,
-    });
+  read(path, options) {
+    return send<string>(
+      { correlationId: crypto.randomUUID(), type: "read", path },
+      options,
+    );
   },
 
-  delete(fileName) {
-    return send<void>({
-      correlationId: crypto.randomUUID(),
-      type: "delete",
-      fileName,
-    });
+  readVersioned(path, options) {
+    return send<VersionedContent>(
+      { correlationId: crypto.randomUUID(), type: "readVersioned", path },
+      options,
+    );
+  },
+
+  update(path, content, options = {}) {
+    return send<string>(
+      {
+        correlationId: crypto.randomUUID(),
+        type: "update",
+        path,
+        content,
+        expectedVersion: options.expectedVersion,
+        compression: options.compression,
+      },
+      options,
+    );
+  },
+
+  delete(path, options) {
+    return send<void>(
+      { correlationId: crypto.randomUUID(), type: "delete", path },
+      options,
+    );
+  },
+
+  mkdir(path, options) {
+    return send<string>(
+      { correlationId: crypto.randomUUID(), type: "mkdir", path },
+      options,
+    );
+  },
+
+  rmdir(path, options = {}) {
+    return send<void>(
+      {
+        correlationId: crypto.randomUUID(),
+        type: "rmdir",
+        path,
+        recursive: options.recursive ?? false,
+      },
+      options,
+    );
+  },
+
+  readBytes(path, options) {
+    return send<ArrayBuffer>(
+      { correlationId: crypto.randomUUID(), type: "readBytes", path },
+      options,
+    );
+  },
+
+  writeBytes(path, data, options = {}) {
+    const transfer: Transferable[] = [];
+    return send<void>(
+      {
+        correlationId: crypto.randomUUID(),
+        type: "writeBytes",
+        path,
+        data: transferable(data, transfer),
+        compression: options.compression,
+      },
+      options,
+      transfer,
+    );
+  },
+
+  readRange(path, offset, length, options) {
+    return send<ArrayBuffer>(
+      {
+        correlationId: crypto.randomUUID(),
+        type: "readRange",
+        path,
+        offset,
+        length,
+      },
+      options,
+    );
+  },
+
+  writeAt(path, offset, data, options) {
+    const transfer: Transferable[] = [];
+    return send<number>(
+      {
+        correlationId: crypto.randomUUID(),
+        type: "writeAt",
+        path,
+        offset,
+        data: transferable(data, transfer),
+      },
+      options,
+      transfer,
+    );
+  },
+
+  append(path, data, options) {
+    const transfer: Transferable[] = [];
+    return send<number>(
+      {
+        correlationId: crypto.randomUUID(),
+        type: "append",
+        path,
+        data: transferable(data, transfer),
+      },
+      options,
+      transfer,
+    );
+  },
+
+  readStream(path, options) {
+    return createReadStream(OPFSFileSystem, path, options);
+  },
+
+  writeStream(path, options) {
+    return createWriteStream(OPFSFileSystem, path, options);
+  },
+
+  rename(path, newName, options) {
+    return send<string>(
+      { correlationId: crypto.randomUUID(), type: "rename", path, newName },
+      options,
+    );
+  },
+
+  move(from, to, options) {
+    return send<string>(
+      { correlationId: crypto.randomUUID(), type: "move", from, to },
+      options,
+    );
+  },
+
+  copy(from, to, options) {
+    return send<string>(
+      { correlationId: crypto.randomUUID(), type: "copy", from, to },
+      options,
+    );
+  },
+
+  transaction(ops, options) {
+    // Writes may share a buffer; it's moved once
+    const transfer: Transferable[] = [];
+    return send<void>(
+      {
+        correlationId: crypto.randomUUID(),
+        type: "transaction",
+        ops: ops.map((op) =>
+          op.type === "write" ? { ...op, content: transferable(op.content, transfer) } : op,
+        ),
+      },
+      options,
+      transfer,
+    );
+  },
+
+  history(path, options) {
+    return send<OPFSRevision[]>(
+      { correlationId: crypto.randomUUID(), type: "history", path },
+      options,
+    );
+  },
+
+  readRevision(path, revisionId, options) {
+    return send<string>(
+      { correlationId: crypto.randomUUID(), type: "readRevision", path, revisionId },
+      options,
+    );
+  },
+
+  restore(path, revisionId, options) {
+    return send<string>(
+      { correlationId: crypto.randomUUID(), type: "restore", path, revisionId },
+      options,
+    );
+  },
+
+  exportArchive(options = {}) {
+    return send<Blob>(
+      {
+        correlationId: crypto.randomUUID(),
+        type: "exportArchive",
+        compress: options.compress ?? true,
+      },
+      options,
+    );
+  },
+
+  importArchive(archive, options = {}) {
+    return send<ImportResult>(
+      {
+        correlationId: crypto.randomUUID(),
+        type: "importArchive",
+        archive,
+        onConflict: options.onConflict ?? "fail",
+      },
+      options,
+    );
+  },
+
+  search(query, options = {}) {
+    return send<SearchResult[]>(
+      {
+        correlationId: crypto.randomUUID(),
+        type: "search",
+        query,
+        limit: options.limit ?? DEFAULT_SEARCH_LIMIT,
+      },
+      options,
+    );
+  },
+
+  storageInfo(options = {}) {
+    return send<StorageInfo>(
+      {
+        correlationId: crypto.randomUUID(),
+        type: "storageInfo",
+        byDirectory: options.byDirectory ?? false,
+      },
+      options,
+    );
+  },
+
+  verify(path = "", options) {
+    return send<VerifyReport>(
+      { correlationId: crypto.randomUUID(), type: "verify", path },
+      options,
+    );
+  },
+
+  repair(problem, action, options) {
+    return send<void>(
+      { correlationId: crypto.randomUUID(), type: "repair", problem, action },
+      options,
+    );
+  },
+
+  watch(path, listener, options) {
+    return changes.watch(path, listener, options);
   },
 };
+
+/**
+ * A typed JSON document collection stored in OPFS, e.g.
+ * `collection<User>("users", { indexes: ["email"] })`.
+ */
+export function collection<T extends object>(
+  name: string,
+  options?: CollectionOptions<T>,
+): Collection<T> {
+  return createCollection<T>(OPFSFileSystem, name, options);
+}
@@ -0,0 +1,93 @@
+import React from "react";
+import { FileText } from "lucide-react";
+import { SearchResult } from "./OPFS";
+
+interface SearchResultsProps {
+  results: SearchResult[];
+  currentFile: string | null;
+  onOpenFile: (path: string) => void;
+}
+
+/** Splits a snippet into plain and highlighted runs. */
+const Snippet: React.FC<Pick<SearchResult, "snippet" | "highlights">> = ({
+  snippet,
+  highlights,
+}) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  highlights.forEach(([start, end]) => {
+    if (start > position) parts.push(snippet.slice(position, start));
+    parts.push(
+      <mark key={start} className="bg-amber-100 text-inherit rounded px-0.5">
+        {snippet.slice(start, end)}
+      </mark>,
+    );
+    position = end;
+  });
+  parts.push(snippet.slice(position));
+  return <>{parts}</>;
+};
+
+/** Ranked search hits, shown in place of the tree while a query is typed. */
+export const SearchResults: React.FC<SearchResultsProps> = ({
+  results,
+  currentFile,
+  onOpenFile,
+}) => {
+  if (results.length === 0) {
+    return (
+      <p className="text-slate-400 text-sm italic text-center py-12 px-6">
+        No matching files
+      </p>
+    );
+  }
+  return (
+    <>
+      {results.map((result) => {
+        const isActive = currentFile === result.path;
+        const slash = result.path.lastIndexOf("/");
+        return (
+          <button
+            key={result.path}
+            onClick={() => onOpenFile(result.path)}
+            className={`w-full text-left px-4 py-3 rounded-2xl transition-all flex items-start gap-3 group ${
+              isActive
+                ? "bg-indigo-600 text-white shadow-lg shadow-indigo-100"
+                : "hover:bg-slate-50 text-slate-600 border border-transparent hover:border-slate-100"
+            }`}
+          >
+            <FileText
+              size={18}
+              className={`mt-0.5 flex-shrink-0 ${
+                isActive ? "text-indigo-200" : "text-slate-400 group-hover:text-indigo-500"
+              }`}
+            />
+            <span className="flex-1 min-w-0">
+              <span className="block text-sm font-bold truncate">
+                {result.path.slice(slash + 1)}
+              </span>
+              {slash > 0 && (
+                <span
+                  className={`block text-[10px] font-bold tracking-wide truncate ${
+                    isActive ? "text-indigo-200" : "text-slate-400"
+                  }`}
+                >
+                  /{result.path.slice(0, slash)}
+                </span>
+              )}
+              {result.snippet && (
+                <span
+                  className={`block text-xs mt-1 line-clamp-2 ${
+                    isActive ? "text-indigo-100" : "text-slate-500"
+                  }`}
+                >
+                  <Snippet snippet={result.snippet} highlights={result.highlights} />
+                </span>
+              )}
+            </span>
+          </button>
+        );
+      })}
+    </>
+  );
+};
@@ -0,0 +1,100 @@
+import React from "react";
+import { StorageInfo } from "./OPFS";
+import { formatBytes } from "./format";
+
+/** Share of the quota past which the meter turns amber. */
+const NEARLY_FULL = 0.8;
+const TOP_DIRECTORIES = 3;
+
+interface StorageMeterProps {
+  info: StorageInfo;
+  /** `storageInfo` with `byDirectory`; null until it has been walked. */
+  breakdown: StorageInfo | null;
+  showBreakdown: boolean;
+  onToggleBreakdown: () => void;
+}
+
+/**
+ * Usage against quota and persistence. On request, what compression saves
+ * and the largest top-level folders, which take a walk of every file.
+ */
+export const StorageMeter: React.FC<StorageMeterProps> = ({
+  info,
+  breakdown,
+  showBreakdown,
+  onToggleBreakdown,
+}) => {
+  const share = info.quota ? Math.min(1, info.usage / info.quota) : 0;
+  const files = showBreakdown ? breakdown?.files : undefined;
+  const largest = ((showBreakdown && breakdown?.directories) || [])
+    .slice()
+    .sort((a, b) => b.size - a.size)
+    .slice(0, TOP_DIRECTORIES);
+  return (
+    <div className="px-5 py-4 border-t border-slate-50 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+          Storage
+        </span>
+        <span
+          title={
+            info.persisted
+              ? "The browser won't clear this storage to free space"
+              : "The browser may clear this storage when space runs low"
+          }
+          className={`text-[10px] font-bold px-2 py-0.5 rounded-full border ${
+            info.persisted
+              ? "bg-emerald-50 text-emerald-600 border-emerald-100"
+              : "bg-amber-50 text-amber-600 border-amber-100"
+          }`}
+        >
+          {info.persisted ? "Persistent" : "Best effort"}
+        </span>
+      </div>
+      {info.quota !== null && (
+        <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+          <div
+            className={`h-full rounded-full ${
+              share >= NEARLY_FULL ? "bg-amber-500" : "bg-indigo-500"
+            }`}
+            style={{ width: `${Math.max(share * 100, 1)}%` }}
+          />
+        </div>
+      )}
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-slate-500">
+          {formatBytes(info.usage)}
+          {info.quota !== null && ` of ${formatBytes(info.quota)}`} used
+        </p>
+        <button
+          onClick={onToggleBreakdown}
+          title="Sizes per folder; adds up every file"
+          className="text-[10px] font-bold text-slate-400 hover:text-indigo-600 transition-colors"
+        >
+          {showBreakdown ? "Hide details" : "Details"}
+        </button>
+      </div>
+      {showBreakdown && !breakdown && (
+        <p className="text-[11px] text-slate-400">Adding up folders…</p>
+      )}
+      {files && files.storedSize < files.size && (
+        <p
+          title="Size of your files, and what they take up once compressed"
+          className="text-[11px] text-emerald-600"
+        >
+          {formatBytes(files.size)} of files stored in{" "}
+          {formatBytes(files.storedSize)}
+        </p>
+      )}
+      {largest.map((directory) => (
+        <div
+          key={directory.path}
+          className="flex justify-between gap-2 text-[11px] text-slate-400"
+        >
+          <span className="truncate">/{directory.path}</span>
+          <span className="flex-shrink-0">{formatBytes(directory.size)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
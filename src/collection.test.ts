@@ -0,0 +1,185 @@
+/**
+ * @jest-environment ./src/testing/web-environment.js
+ */
+import { createCollection } from "./collection";
+import type { IFileSystem } from "./file-system";
+import { createMemoryFileSystem } from "./memory-fs";
+import { OPFSError } from "./opfs-protocol";
+
+interface User {
+  name: string;
+  email: string;
+  role: "admin" | "member";
+  tags?: string[];
+}
+
+const ada: User = { name: "Ada", email: "ada@example.com", role: "admin" };
+const bob: User = { name: "Bob", email: "bob@example.com", role: "member" };
+const cy: User = { name: "Cy", email: "cy@example.com", role: "member" };
+
+function parseUser(value: unknown): User {
+  const user = value as User;
+  if (typeof user?.email !== "string" || !user.email.includes("@")) {
+    throw new Error("email is required");
+  }
+  return user;
+}
+
+async function expectCode(promise: Promise<unknown>, code: string) {
+  await expect(promise).rejects.toBeInstanceOf(OPFSError);
+  await expect(promise).rejects.toMatchObject({ code });
+}
+
+describe("collection", () => {
+  let fs: IFileSystem;
+
+  beforeEach(() => {
+    fs = createMemoryFileSystem();
+  });
+
+  test("puts, gets and deletes documents", async () => {
+    const users = createCollection<User>(fs, "users");
+    await users.put("ada", ada);
+    expect(await users.get("ada")).toEqual(ada);
+    expect(await users.get("nobody")).toBeUndefined();
+
+    await users.put("ada", { ...ada, name: "Ada L." });
+    expect((await users.get("ada"))?.name).toBe("Ada L.");
+
+    expect(await users.delete("ada")).toBe(true);
+    expect(await users.delete("ada")).toBe(false);
+    expect(await users.get("ada")).toBeUndefined();
+  });
+
+  test("stores documents in a hidden directory with file-safe names", async () => {
+    const users = createCollection<User>(fs, "users");
+    await users.put("team/../ada", ada);
+    await users.put("..", bob);
+
+    expect(await users.get("team/../ada")).toEqual(ada);
+    expect(await users.get("..")).toEqual(bob);
+    expect(await fs.list("")).toEqual([]);
+    expect((await fs.stat(".collections/users")).kind).toBe("directory");
+    expect((await users.query()).map((result) => result.id)).toEqual([
+      "..",
+      "team/../ada",
+    ]);
+  });
+
+  test("rejects empty ids and invalid collection names", async () => {
+    const users = createCollection<User>(fs, "users");
+    await expectCode(users.put("", ada), "INVALID_ARGUMENT");
+    expect(() => createCollection<User>(fs, "a/b")).toThrow(OPFSError);
+  });
+
+  test("validates documents against the schema before writing", async () => {
+    const users = createCollection<User>(fs, "users", { schema: parseUser });
+    const invalid = { ...ada, email: "nope" };
+    await expectCode(users.put("ada", invalid), "INVALID_ARGUMENT");
+    await expect(users.put("ada", invalid)).rejects.toThrow(/email is required/);
+    expect(await users.get("ada")).toBeUndefined();
+
+    await users.put("ada", ada);
+    expect(await users.get("ada")).toEqual(ada);
+  });
+
+  test("queries by field, filter and limit", async () => {
+    const users = createCollection<User>(fs, "users");
+    await users.put("ada", ada);
+    await users.put("bob", { ...bob, tags: ["ops"] });
+    await users.put("cy", cy);
+
+    const members = await users.query({ where: { role: "member" } });
+    expect(members.map((result) => result.id)).toEqual(["bob", "cy"]);
+
+    const tagged = await users.query({ where: { tags: ["ops"] } });
+    expect(tagged.map((result) => result.id)).toEqual(["bob"]);
+
+    const named = await users.query({ filter: (user) => user.name.startsWith("C") });
+    expect(named).toEqual([{ id: "cy", doc: cy }]);
+
+    expect(await users.query({ limit: 2 })).toHaveLength(2);
+  });
+
+  test("answers indexed queries without scanning the collection", async () => {
+    const users = createCollection<User>(fs, "users", { indexes: ["role", "email"] });
+    await users.put("ada", ada);
+    await users.put("bob", bob);
+    await users.put("cy", cy);
+
+    const list = jest.spyOn(fs, "list");
+    const found = await users.query({ where: { role: "member", email: "cy@example.com" } });
+    expect(found).toEqual([{ id: "cy", doc: cy }]);
+    expect(list).not.toHaveBeenCalled();
+  });
+
+  test("keeps indexes current as documents change", async () => {
+    const users = createCollection<User>(fs, "users", { indexes: ["role"] });
+    await users.put("ada", ada);
+    await users.put("bob", bob);
+
+    await users.put("bob", { ...bob, role: "admin" });
+    await users.delete("ada");
+
+    const index = JSON.parse(await fs.read(".collections/users/indexes/role.json"));
+    expect(index).toEqual({ '"admin"': ["bob"] });
+    expect(await users.query({ where: { role: "member" } })).toEqual([]);
+  });
+
+  test("persists indexes and builds missing ones from existing documents", async () => {
+    await createCollection<User>(fs, "users").put("ada", ada);
+    await createCollection<User>(fs, "users").put("bob", bob);
+
+    const indexed = createCollection<User>(fs, "users", { indexes: ["role"] });
+    const members = await indexed.query({ where: { role: "member" } });
+    expect(members.map((result) => result.id)).toEqual(["bob"]);
+
+    // A second instance (another tab, a reload) reads the persisted index
+    const reopened = createCollection<User>(fs, "users", { indexes: ["role"] });
+    await reopened.put("cy", cy);
+    const again = await indexed.query({ where: { role: "member" } });
+    expect(again.map((result) => result.id)).toEqual(["bob", "cy"]);
+  });
+
+  test("commits batches atomically", async () => {
+    const users = createCollection<User>(fs, "users", {
+      schema: parseUser,
+      indexes: ["role"],
+    });
+    await users.put("ada", ada);
+
+    await users.batch().put("bob", bob).put("cy", cy).delete("ada").commit();
+    expect((await users.query()).map((result) => result.id)).toEqual(["bob", "cy"]);
+
+    const batch = users.batch().delete("bob");
+    expect(() => batch.put("dee", { ...cy, email: "" })).toThrow(OPFSError);
+
+    const transaction = jest
+      .spyOn(fs, "transaction")
+      .mockRejectedValueOnce(new OPFSError("QUOTA_EXCEEDED", "Storage is full"));
+    await expectCode(batch.commit(), "QUOTA_EXCEEDED");
+    transaction.mockRestore();
+    expect(await users.get("bob")).toEqual(bob);
+    expect(await users.query({ where: { role: "member" } })).toHaveLength(2);
+  });
+
+  test("retries a batch when another writer commits first", async () => {
+    const users = createCollection<User>(fs, "users", { indexes: ["role"] });
+    const other = createCollection<User>(fs, "users", { indexes: ["role"] });
+    await users.put("ada", ada);
+
+    const transaction = fs.transaction.bind(fs);
+    let interleaved = false;
+    jest.spyOn(fs, "transaction").mockImplementation(async (ops, options) => {
+      if (!interleaved) {
+        interleaved = true;
+        await other.put("bob", bob);
+      }
+      return transaction(ops, options);
+    });
+
+    await users.put("cy", cy);
+    const members = await users.query({ where: { role: "member" } });
+    expect(members.map((result) => result.id)).toEqual(["bob", "cy"]);
+  });
+});
@@ -0,0 +1,359 @@
+import type { CallOptions, IFileSystem } from "./file-system";
+import { isValidName, joinPath } from "./opfs-paths";
+import { OPFSError, TransactionOp } from "./opfs-protocol";
+
+// ── Document Collections ──────────────────────────────────────────────────────
+//
+// Typed JSON documents on top of any `IFileSystem`, one file per document:
+//
+//   .collections/<name>/docs/<id>.json
+//   .collections/<name>/indexes/<field>.json    { "<JSON value>": [ids] }
+//
+// Every batch (a lone put or delete is a batch of one) commits its documents
+// and the index files it touches in a single transaction. Index writes are
+// conditional on the version that was read, so when another tab commits in
+// between, the batch is recomputed against the new state and retried.
+
+const COLLECTIONS_DIR = ".collections";
+
+/** Attempts per batch before a CONFLICT reaches the caller. */
+const MAX_COMMIT_ATTEMPTS = 5;
+
+export interface CollectionOptions<T> {
+  /**
+   * Checks (and may normalize) each document before it is written; throw to
+   * reject it. A zod-style `schema.parse` fits directly.
+   */
+  schema?: (value: unknown) => T;
+  /**
+   * Fields kept in a persisted index for fast `where` lookups. Only string,
+   * number, boolean and null values are indexed.
+   */
+  indexes?: ReadonlyArray<keyof T & string>;
+}
+
+export interface Query<T> {
+  /** Field equality; indexed fields are looked up without scanning. */
+  where?: Partial<T>;
+  /** Further narrows the matches; runs on every candidate document. */
+  filter?: (doc: T, id: string) => boolean;
+  limit?: number;
+}
+
+export interface CollectionBatch<T> {
+  put(id: string, doc: T): CollectionBatch<T>;
+  delete(id: string): CollectionBatch<T>;
+  /** Applies every queued change or none; the last change per id wins. */
+  commit(options?: CallOptions): Promise<void>;
+}
+
+export interface Collection<T> {
+  readonly name: string;
+  get(id: string, options?: CallOptions): Promise<T | undefined>;
+  put(id: string, doc: T, options?: CallOptions): Promise<void>;
+  /** Resolves with whether there was a document to delete. */
+  delete(id: string, options?: CallOptions): Promise<boolean>;
+  /** Matching documents, ordered by id. */
+  query(
+    query?: Query<T>,
+    options?: CallOptions,
+  ): Promise<Array<{ id: string; doc: T }>>;
+  batch(): CollectionBatch<T>;
+}
+
+type IndexFile = Record<string, string[]>;
+
+interface StoredDocument<T> {
+  doc: T;
+  version: string;
+}
+
+/**
+ * Makes ids and field names safe as file names. Dots are escaped too, so
+ * "." and ".." (and hidden-looking names) can't come through unchanged.
+ */
+function encodeName(value: string): string {
+  return encodeURIComponent(value).replace(/\./g, "%2E");
+}
+
+function decodeName(name: string): string {
+  return decodeURIComponent(name);
+}
+
+/** Index bucket for a field value, or undefined if it isn't indexable. */
+function indexKey(value: unknown): string | undefined {
+  return value === null ||
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+    ? JSON.stringify(value)
+    : undefined;
+}
+
+function fieldOf(doc: unknown, field: string): unknown {
+  return doc === undefined ? undefined : (doc as Record<string, unknown>)[field];
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  return (
+    typeof a === "object" &&
+    typeof b === "object" &&
+    JSON.stringify(a) === JSON.stringify(b)
+  );
+}
+
+function isNotFound(err: unknown): boolean {
+  return err instanceof OPFSError && err.code === "NOT_FOUND";
+}
+
+export function createCollection<T extends object>(
+  fs: IFileSystem,
+  name: string,
+  options: CollectionOptions<T> = {},
+): Collection<T> {
+  if (!isValidName(name)) {
+    throw new OPFSError("INVALID_NAME", `Invalid collection name: "${name}"`);
+  }
+  const root = joinPath(COLLECTIONS_DIR, name);
+  const docsDir = joinPath(root, "docs");
+  const indexes: string[] = Array.from(new Set(options.indexes ?? []));
+
+  const docPath = (id: string) => {
+    if (typeof id !== "string" || id === "") {
+      throw new OPFSError("INVALID_ARGUMENT", "Document ids must be non-empty strings");
+    }
+    return joinPath(docsDir, `${encodeName(id)}.json`);
+  };
+  const indexPath = (field: string) =>
+    joinPath(root, "indexes", `${encodeName(field)}.json`);
+
+  const validate = (id: string, doc: T): T => {
+    docPath(id);
+    if (!options.schema) return doc;
+    try {
+      return options.schema(doc);
+    } catch (err) {
+      throw new OPFSError(
+        "INVALID_ARGUMENT",
+        `Invalid document "${id}" in "${name}": ${
+          err instanceof Error ? err.message : String(err)
+        }`,
+        docPath(id),
+      );
+    }
+  };
+
+  const readDoc = async (
+    id: string,
+    callOptions?: CallOptions,
+  ): Promise<StoredDocument<T> | undefined> => {
+    try {
+      const { content, version } = await fs.readVersioned(docPath(id), callOptions);
+      return { doc: JSON.parse(content) as T, version };
+    } catch (err) {
+      if (isNotFound(err)) return undefined;
+      throw err;
+    }
+  };
+
+  const listIds = async (callOptions?: CallOptions): Promise<string[]> => {
+    try {
+      const entries = await fs.list(docsDir, callOptions);
+      return entries
+        .filter((entry) => entry.kind === "file" && entry.name.endsWith(".json"))
+        .map((entry) => decodeName(entry.name.slice(0, -".json".length)));
+    } catch (err) {
+      if (isNotFound(err)) return [];
+      throw err;
+    }
+  };
+
+  const readIndex = async (field: string, callOptions?: CallOptions) => {
+    const { content, version } = await fs.readVersioned(indexPath(field), callOptions);
+    return { index: JSON.parse(content) as IndexFile, version };
+  };
+
+  // ── Index Bootstrap ──
+  // An index declared after documents were stored is built from them once;
+  // whichever tab gets there first writes it, the others keep theirs.
+
+  let indexesReady: Promise<void> | null = null;
+
+  const buildMissingIndexes = async (callOptions?: CallOptions) => {
+    for (const field of indexes) {
+      try {
+        await fs.stat(indexPath(field), callOptions);
+        continue;
+      } catch (err) {
+        if (!isNotFound(err)) throw err;
+      }
+      const index: IndexFile = {};
+      for (const id of await listIds(callOptions)) {
+        const stored = await readDoc(id, callOptions);
+        const key = stored && indexKey(fieldOf(stored.doc, field));
+        if (key !== undefined) (index[key] ??= []).push(id);
+      }
+      try {
+        await fs.create(indexPath(field), JSON.stringify(index), callOptions);
+      } catch (err) {
+        if (!(err instanceof OPFSError && err.code === "ALREADY_EXISTS")) throw err;
+      }
+    }
+  };
+
+  const ensureIndexes = (callOptions?: CallOptions) => {
+    if (!indexesReady) {
+      indexesReady = buildMissingIndexes(callOptions);
+      // Let the next call try again rather than caching the failure
+      indexesReady.catch(() => {
+        indexesReady = null;
+      });
+    }
+    return indexesReady;
+  };
+
+  // ── Commits ──
+
+  /** Writes from this page run one at a time; other tabs are caught by CAS. */
+  let writeQueue: Promise<unknown> = Promise.resolve();
+
+  const serialize = <R>(task: () => Promise<R>): Promise<R> => {
+    const result = writeQueue.then(task, task);
+    writeQueue = result.catch(() => undefined);
+    return result;
+  };
+
+  /** One attempt at a batch; resolves with the documents it replaced. */
+  const commitOnce = async (
+    changes: Map<string, T | null>,
+    callOptions?: CallOptions,
+  ): Promise<Map<string, StoredDocument<T> | undefined>> => {
+    const previous = new Map<string, StoredDocument<T> | undefined>();
+    for (const id of Array.from(changes.keys())) {
+      previous.set(id, await readDoc(id, callOptions));
+    }
+
+    const ops: TransactionOp[] = [];
+    changes.forEach((doc, id) => {
+      const old = previous.get(id);
+      if (doc) {
+        ops.push({
+          type: "write",
+          path: docPath(id),
+          content: JSON.stringify(doc),
+          expectedVersion: old?.version,
+        });
+      } else if (old) {
+        ops.push({ type: "delete", path: docPath(id) });
+      }
+    });
+
+    for (const field of indexes) {
+      const { index, version } = await readIndex(field, callOptions);
+      let changed = false;
+      changes.forEach((doc, id) => {
+        const before = indexKey(fieldOf(previous.get(id)?.doc, field));
+        const after = doc ? indexKey(fieldOf(doc, field)) : undefined;
+        if (before === after) return;
+        if (before !== undefined) {
+          index[before] = (index[before] ?? []).filter((other) => other !== id);
+          if (index[before].length === 0) delete index[before];
+        }
+        if (after !== undefined) {
+          index[after] = Array.from(new Set([...(index[after] ?? []), id])).sort();
+        }
+        changed = true;
+      });
+      if (changed) {
+        ops.push({
+          type: "write",
+          path: indexPath(field),
+          content: JSON.stringify(index),
+          expectedVersion: version,
+        });
+      }
+    }
+
+    if (ops.length > 0) await fs.transaction(ops, callOptions);
+    return previous;
+  };
+
+  const commit = (changes: Map<string, T | null>, callOptions?: CallOptions) =>
+    serialize(async () => {
+      await ensureIndexes(callOptions);
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return await commitOnce(changes, callOptions);
+        } catch (err) {
+          const conflict = err instanceof OPFSError && err.code === "CONFLICT";
+          if (!conflict || attempt >= MAX_COMMIT_ATTEMPTS) throw err;
+        }
+      }
+    });
+
+  return {
+    name,
+
+    async get(id, callOptions) {
+      return (await readDoc(id, callOptions))?.doc;
+    },
+
+    async put(id, doc, callOptions) {
+      await commit(new Map([[id, validate(id, doc)]]), callOptions);
+    },
+
+    async delete(id, callOptions) {
+      docPath(id);
+      const previous = await commit(new Map([[id, null]]), callOptions);
+      return previous.get(id) !== undefined;
+    },
+
+    async query(query = {}, callOptions) {
+      await ensureIndexes(callOptions);
+      const where = Object.entries(query.where ?? {});
+
+      // Intersect the index buckets of every indexed field in `where`
+      let candidates: string[] | null = null;
+      for (const [field, value] of where) {
+        const key = indexKey(value);
+        if (!indexes.includes(field) || key === undefined) continue;
+        const { index } = await readIndex(field, callOptions);
+        const bucket = new Set(index[key] ?? []);
+        candidates = (candidates ?? Array.from(bucket)).filter((id) => bucket.has(id));
+      }
+
+      const results: Array<{ id: string; doc: T }> = [];
+      for (const id of (candidates ?? (await listIds(callOptions))).sort()) {
+        if (query.limit !== undefined && results.length >= query.limit) break;
+        const stored = await readDoc(id, callOptions);
+        if (!stored) continue; // deleted since the index was read
+        const { doc } = stored;
+        const matches =
+          where.every(([field, value]) => isEqual(fieldOf(doc, field), value)) &&
+          (!query.filter || query.filter(doc, id));
+        if (matches) results.push({ id, doc });
+      }
+      return results;
+    },
+
+    batch() {
+      const changes = new Map<string, T | null>();
+      const batch: CollectionBatch<T> = {
+        put(id, doc) {
+          changes.set(id, validate(id, doc));
+          return batch;
+        },
+        delete(id) {
+          docPath(id);
+          changes.set(id, null);
+          return batch;
+        },
+        async commit(callOptions) {
+          await commit(new Map(changes), callOptions);
+        },
+      };
+      return batch;
+    },
+  };
+}
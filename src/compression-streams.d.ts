@@ -0,0 +1,15 @@
+// Compression Streams API, which lib.dom only declares from TypeScript 5.0.
+
+type CompressionFormat = "deflate" | "deflate-raw" | "gzip";
+
+declare class CompressionStream {
+  constructor(format: CompressionFormat);
+  readonly readable: ReadableStream<Uint8Array>;
+  readonly writable: WritableStream<BufferSource>;
+}
+
+declare class DecompressionStream {
+  constructor(format: CompressionFormat);
+  readonly readable: ReadableStream<Uint8Array>;
+  readonly writable: WritableStream<BufferSource>;
+}
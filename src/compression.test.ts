@@ -0,0 +1,44 @@
+/**
+ * @jest-environment ./src/testing/web-environment.js
+ */
+import {
+  COMPRESSED_HEADER_LENGTH,
+  compressBody,
+  compressedHeader,
+  compressedHeaderOf,
+  decompressBody,
+} from "./compression";
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe("compression", () => {
+  it("records the format and logical size in the header", () => {
+    const header = compressedHeader("deflate", 123456789);
+    expect(header.byteLength).toBe(COMPRESSED_HEADER_LENGTH);
+    expect(compressedHeaderOf(header)).toEqual({ format: "deflate", size: 123456789 });
+    expect(compressedHeaderOf(header.subarray(0, 4))).toBeNull();
+    expect(compressedHeaderOf(bytes("unknown format"))).toBeNull();
+  });
+
+  it("round-trips bodies in both formats", async () => {
+    const contents = bytes("again and again ".repeat(100));
+    for (const format of ["gzip", "deflate"] as const) {
+      const body = await compressBody(format, contents);
+      expect(body.byteLength).toBeLessThan(contents.byteLength);
+      const header = { format, size: contents.byteLength };
+      await expect(decompressBody(header, body)).resolves.toEqual(contents);
+    }
+  });
+
+  it("fails with CORRUPTED on damaged or truncated bodies", async () => {
+    const contents = bytes("again and again ".repeat(100));
+    const body = await compressBody("gzip", contents);
+    const header = { format: "gzip" as const, size: contents.byteLength };
+    await expect(
+      decompressBody(header, body.subarray(0, body.length / 2), "a.txt"),
+    ).rejects.toMatchObject({ code: "CORRUPTED", path: "a.txt" });
+    await expect(
+      decompressBody({ ...header, size: 1 }, body),
+    ).rejects.toMatchObject({ code: "CORRUPTED" });
+  });
+});
@@ -0,0 +1,91 @@
+import { CompressionFormat, OPFSError } from "./opfs-protocol";
+
+// ── Content Compression ───────────────────────────────────────────────────────
+//
+// Compressed contents are one byte for the format, the logical size as a
+// float64 (exact for any real file), then the compressed body. The header
+// is never encrypted, so stat can tell the logical size from the first
+// bytes of the file; with a key set, the body after it is sealed. Whether
+// a file is compressed at all is recorded beside the header, not in it.
+
+const FORMAT_CODES: Record<CompressionFormat, number> = { gzip: 1, deflate: 2 };
+
+export const COMPRESSED_HEADER_LENGTH = 1 + 8;
+
+export interface CompressedHeader {
+  format: CompressionFormat;
+  /** Size of the contents before compression. */
+  size: number;
+}
+
+export function canCompress(): boolean {
+  return (
+    typeof CompressionStream !== "undefined" &&
+    typeof DecompressionStream !== "undefined"
+  );
+}
+
+/**
+ * The header compressed contents start with; null if it's cut short or
+ * names a format this build doesn't know.
+ */
+export function compressedHeaderOf(bytes: Uint8Array): CompressedHeader | null {
+  if (bytes.length < COMPRESSED_HEADER_LENGTH) return null;
+  const format = (Object.keys(FORMAT_CODES) as CompressionFormat[]).find(
+    (name) => FORMAT_CODES[name] === bytes[0],
+  );
+  if (!format) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset + 1, 8);
+  return { format, size: view.getFloat64(0) };
+}
+
+async function pipe(
+  bytes: Uint8Array,
+  transform: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> {
+  const reader = new Blob([bytes]).stream().pipeThrough(transform).getReader();
+  const chunks: Uint8Array[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  return new Uint8Array(await new Blob(chunks).arrayBuffer());
+}
+
+/** The header for `size` bytes of `format`, followed by nothing yet. */
+export function compressedHeader(format: CompressionFormat, size: number): Uint8Array {
+  const header = new Uint8Array(COMPRESSED_HEADER_LENGTH);
+  header[0] = FORMAT_CODES[format];
+  new DataView(header.buffer, 1, 8).setFloat64(0, size);
+  return header;
+}
+
+/** The compressed body for `bytes`, without a header. */
+export function compressBody(format: CompressionFormat, bytes: Uint8Array): Promise<Uint8Array> {
+  return pipe(bytes, new CompressionStream(format));
+}
+
+/**
+ * Contents of a compressed `body` whose header said `header`. Fails with
+ * CORRUPTED if it doesn't inflate to the recorded size.
+ */
+export async function decompressBody(
+  header: CompressedHeader,
+  body: Uint8Array,
+  path?: string,
+): Promise<Uint8Array> {
+  if (!canCompress()) {
+    throw new OPFSError("UNSUPPORTED", "This browser can't decompress stored files", path);
+  }
+  let contents: Uint8Array;
+  try {
+    contents = await pipe(body, new DecompressionStream(header.format));
+  } catch {
+    throw new OPFSError("CORRUPTED", "The compressed contents are damaged", path);
+  }
+  if (contents.byteLength !== header.size) {
+    throw new OPFSError("CORRUPTED", "The compressed contents are truncated", path);
+  }
+  return contents;
+}
@@ -0,0 +1,33 @@
+import { diffLines } from "./diff";
+
+const render = (before: string, after: string) =>
+  diffLines(before, after).map(({ type, text }) =>
+    type === "same" ? `  ${text}` : type === "added" ? `+ ${text}` : `- ${text}`,
+  );
+
+describe("diffLines", () => {
+  it("reports identical text as unchanged", () => {
+    expect(render("a\nb", "a\nb")).toEqual(["  a", "  b"]);
+  });
+
+  it("marks insertions, deletions and replacements", () => {
+    expect(render("a\nb\nc", "a\nc\nd")).toEqual(["  a", "- b", "  c", "+ d"]);
+    expect(render("a\nold\nc", "a\nnew\nc")).toEqual(["  a", "- old", "+ new", "  c"]);
+  });
+
+  it("handles empty sides", () => {
+    expect(render("", "x")).toEqual(["- ", "+ x"]);
+    expect(render("x\ny", "")).toEqual(["- x", "- y", "+ "]);
+  });
+
+  it("keeps lines common to both around moved blocks", () => {
+    expect(render("1\n2\n3\n4", "3\n4\n1\n2")).toEqual([
+      "- 1",
+      "- 2",
+      "  3",
+      "  4",
+      "+ 1",
+      "+ 2",
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+// ── Line Diff ─────────────────────────────────────────────────────────────────
+//
+// Longest-common-subsequence diff over lines, for comparing a revision with
+// the editor buffer. The unchanged head and tail are trimmed first, so the
+// quadratic table only covers the region that actually differs.
+
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+/** Past this many table cells, the changed region is shown as replaced whole. */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** Lines only in `before` are "removed", lines only in `after` are "added". */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const same = (text: string): DiffLine => ({ type: "same", text });
+  const head = a.slice(0, start).map(same);
+  const tail = a.slice(endA).map(same);
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+
+  if (middleA.length * middleB.length > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...middleA.map((text): DiffLine => ({ type: "removed", text })),
+      ...middleB.map((text): DiffLine => ({ type: "added", text })),
+      ...tail,
+    ];
+  }
+
+  // lengths[i][j]: LCS length of middleA[i..] and middleB[j..]
+  const rows = middleA.length;
+  const columns = middleB.length;
+  const lengths: Uint32Array[] = [];
+  for (let i = 0; i <= rows; i++) lengths.push(new Uint32Array(columns + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      lengths[i][j] =
+        middleA[i] === middleB[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < columns) {
+    if (i < rows && j < columns && middleA[i] === middleB[j]) {
+      middle.push(same(middleA[i]));
+      i++;
+      j++;
+    } else if (i < rows && (j === columns || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      middle.push({ type: "removed", text: middleA[i++] });
+    } else {
+      middle.push({ type: "added", text: middleB[j++] });
+    }
+  }
+  return [...head, ...middle, ...tail];
+}
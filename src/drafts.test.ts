@@ -0,0 +1,46 @@
+/**
+ * @jest-environment ./src/testing/web-environment.js
+ */
+import { discardDraft, draftPath, listDrafts, loadDraft, saveDraft } from "./drafts";
+import type { IFileSystem } from "./file-system";
+import { createMemoryFileSystem } from "./memory-fs";
+
+describe("editor drafts", () => {
+  let fs: IFileSystem;
+
+  beforeEach(async () => {
+    fs = createMemoryFileSystem();
+    await fs.init();
+  });
+
+  it("saves, loads and discards a draft per file", async () => {
+    await expect(loadDraft(fs, "notes/a.txt")).resolves.toBeNull();
+    await saveDraft(fs, "notes/a.txt", { content: "one", version: "v1", savedAt: 1 });
+    await saveDraft(fs, "/notes/a.txt", { content: "two", version: "v1", savedAt: 2 });
+    await saveDraft(fs, "notes", { content: "dir?", version: null, savedAt: 3 });
+
+    await expect(loadDraft(fs, "notes/a.txt")).resolves.toEqual({
+      content: "two",
+      version: "v1",
+      savedAt: 2,
+    });
+    await expect(listDrafts(fs).then((paths) => paths.sort())).resolves.toEqual([
+      "notes",
+      "notes/a.txt",
+    ]);
+
+    await discardDraft(fs, "notes/a.txt");
+    await discardDraft(fs, "notes/a.txt");
+    await expect(loadDraft(fs, "notes/a.txt")).resolves.toBeNull();
+    await expect(listDrafts(fs)).resolves.toEqual(["notes"]);
+  });
+
+  it("keeps drafts out of listings and treats unreadable ones as missing", async () => {
+    await fs.create("a.txt", "saved");
+    await saveDraft(fs, "a.txt", { content: "unsaved", version: null, savedAt: 1 });
+    await expect(fs.list("")).resolves.toMatchObject([{ name: "a.txt" }]);
+
+    await fs.update(draftPath("a.txt"), "{not json");
+    await expect(loadDraft(fs, "a.txt")).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+import { DRAFTS_DIR, IFileSystem } from "./file-system";
+import { joinPath, splitPath } from "./opfs-paths";
+import { OPFSError } from "./opfs-protocol";
+
+// ── Editor Drafts ─────────────────────────────────────────────────────────────
+//
+// Unsaved editor contents, autosaved so a crash or a closed tab loses at
+// most the last moments of typing. Each file's draft sits directly in
+// `DRAFTS_DIR`, named for the file's encoded path, so drafts never collide
+// with each other's directories:
+//
+//   .opfs-drafts/notes%2Ftodo.txt.json    { content, version, savedAt }
+//
+// Saving the file, or discarding its edits, removes the draft. One that is
+// still there when the file is next opened holds edits that were lost.
+
+export interface Draft {
+  content: string;
+  /** Version of the file the edits were made to; null if it had none. */
+  version: string | null;
+  savedAt: number;
+}
+
+const DRAFT_SUFFIX = ".json";
+
+/** Where the draft of the file at `path` is kept. */
+export function draftPath(path: string): string {
+  return joinPath(DRAFTS_DIR, `${encodeURIComponent(joinPath(path))}${DRAFT_SUFFIX}`);
+}
+
+/** Whether `path` is a draft, or the drafts directory itself. */
+export function isDraftPath(path: string): boolean {
+  return splitPath(path)[0] === DRAFTS_DIR;
+}
+
+function isNotFound(err: unknown): boolean {
+  return err instanceof OPFSError && err.code === "NOT_FOUND";
+}
+
+function parseDraft(text: string): Draft | null {
+  try {
+    const draft = JSON.parse(text);
+    return typeof draft?.content === "string" && typeof draft?.savedAt === "number"
+      ? { content: draft.content, version: draft.version ?? null, savedAt: draft.savedAt }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveDraft(fs: IFileSystem, path: string, draft: Draft): Promise<void> {
+  await fs.create(draftPath(path), JSON.stringify(draft), { overwrite: true });
+}
+
+/** The draft of `path`, or null if there is none or it can't be read back. */
+export async function loadDraft(fs: IFileSystem, path: string): Promise<Draft | null> {
+  try {
+    return parseDraft(await fs.read(draftPath(path)));
+  } catch (err) {
+    if (isNotFound(err)) return null;
+    throw err;
+  }
+}
+
+/** Removes the draft of `path`, if it has one. */
+export async function discardDraft(fs: IFileSystem, path: string): Promise<void> {
+  try {
+    await fs.delete(draftPath(path));
+  } catch (err) {
+    if (!isNotFound(err)) throw err;
+  }
+}
+
+/** Paths of every file with a draft, in no particular order. */
+export async function listDrafts(fs: IFileSystem): Promise<string[]> {
+  try {
+    return (await fs.list(DRAFTS_DIR))
+      .filter((entry) => entry.kind === "file" && entry.name.endsWith(DRAFT_SUFFIX))
+      .map((entry) => decodeURIComponent(entry.name.slice(0, -DRAFT_SUFFIX.length)));
+  } catch (err) {
+    if (isNotFound(err)) return [];
+    throw err;
+  }
+}
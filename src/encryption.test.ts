@@ -0,0 +1,98 @@
+/**
+ * @jest-environment ./src/testing/web-environment.js
+ */
+import {
+  SEALED_CHUNK_SIZE,
+  seal,
+  sealedLength,
+  unlockKey,
+  unseal,
+  unsealedLength,
+} from "./encryption";
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+const text = (data: Uint8Array) => new TextDecoder().decode(data);
+const options = { passphrase: "correct horse", iterations: 1000 };
+
+describe("encryption", () => {
+  it("seals with a fresh IV every time and unseals", async () => {
+    const { key } = await unlockKey(options, null);
+    const first = await seal(key, bytes("secret"));
+    const second = await seal(key, bytes("secret"));
+    expect(first.byteLength).toBe(sealedLength(6));
+    expect(first).not.toEqual(second);
+    expect(text(await unseal(key, first))).toBe("secret");
+  });
+
+  it("seals in chunks that only open in their place", async () => {
+    const { key } = await unlockKey(options, null);
+    const contents = new Uint8Array(SEALED_CHUNK_SIZE * 2 + 10).map((_, i) => i % 251);
+    const sealed = await seal(key, contents);
+    expect(sealed.byteLength).toBe(sealedLength(contents.byteLength));
+    expect(unsealedLength(sealed.byteLength)).toBe(contents.byteLength);
+    expect(await unseal(key, sealed)).toEqual(contents);
+    for (const size of [0, 1, SEALED_CHUNK_SIZE, SEALED_CHUNK_SIZE + 1]) {
+      expect(unsealedLength(sealedLength(size))).toBe(size);
+    }
+
+    // One full chunk as it's stored
+    const stride = sealedLength(SEALED_CHUNK_SIZE);
+    const [first, second] = [0, 1].map((index) =>
+      sealed.subarray(stride * index, stride * (index + 1)),
+    );
+    const join = async (...parts: Uint8Array[]) =>
+      new Uint8Array(await new Blob(parts).arrayBuffer());
+    // Swapped around, or cut short where a chunk ends
+    await expect(unseal(key, await join(second, first))).rejects.toMatchObject({
+      code: "DECRYPTION_FAILED",
+    });
+    await expect(unseal(key, await join(first, second))).rejects.toMatchObject({
+      code: "DECRYPTION_FAILED",
+    });
+  });
+
+  it("doesn't take plain contents for sealed ones", async () => {
+    const { key } = await unlockKey(options, null);
+    for (const plain of [bytes("plain"), new Uint8Array(0)]) {
+      await expect(unseal(key, plain)).rejects.toMatchObject({ code: "DECRYPTION_FAILED" });
+    }
+  });
+
+  it("fails with DECRYPTION_FAILED on tampering or a missing key", async () => {
+    const { key } = await unlockKey(options, null);
+    const sealed = await seal(key, bytes("secret"));
+    sealed[sealed.length - 1] ^= 1;
+    await expect(unseal(key, sealed, "a.txt")).rejects.toMatchObject({
+      code: "DECRYPTION_FAILED",
+      path: "a.txt",
+    });
+    await expect(unseal(null, await seal(key, bytes("x")))).rejects.toMatchObject({
+      code: "DECRYPTION_FAILED",
+    });
+  });
+
+  it("verifies passphrases against the stored key check", async () => {
+    const { key, check } = await unlockKey(options, null);
+    const again = await unlockKey({ passphrase: "correct horse" }, check);
+    expect(again.check).toBe(check);
+    const sealed = await seal(key, bytes("secret"));
+    expect(text(await unseal(again.key, sealed))).toBe("secret");
+    await expect(
+      unlockKey({ passphrase: "wrong horse" }, check),
+    ).rejects.toMatchObject({ code: "DECRYPTION_FAILED" });
+  });
+
+  it("accepts only AES-GCM keys", async () => {
+    const aes = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+      "encrypt",
+      "decrypt",
+    ]);
+    await expect(unlockKey({ key: aes }, null)).resolves.toMatchObject({ key: aes });
+    const hmac = await crypto.subtle.generateKey({ name: "HMAC", hash: "SHA-256" }, false, [
+      "sign",
+    ]);
+    await expect(unlockKey({ key: hmac }, null)).rejects.toMatchObject({
+      code: "INVALID_ARGUMENT",
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { EncryptionOptions, OPFSError } from "./opfs-protocol";
+
+// ── Content Encryption ────────────────────────────────────────────────────────
+//
+// Sealed contents are the contents in SEALED_CHUNK_SIZE pieces, each sealed
+// on its own with AES-GCM: a fresh 12-byte IV, the ciphertext, and its
+// 16-byte tag. A chunk's index, and whether it's the last, are
+// authenticated along with it, so chunks can't be swapped around or the
+// file cut short at a chunk boundary. Every chunk but the last is full and
+// even empty contents get one, so the stored length alone says where each
+// chunk starts: a ranged read or write only touches the chunks it covers.
+// Nothing in sealed bytes marks them as such; whoever stores them records
+// that. A store's key check (PBKDF2 salt and rounds, plus a known value
+// sealed with the key) tells a wrong passphrase apart before any file is
+// read.
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const CHUNK_OVERHEAD = IV_LENGTH + TAG_LENGTH;
+const SALT_LENGTH = 16;
+const CHECK_VALUE = "opfs-key-check";
+
+/** Plain bytes per sealed chunk. */
+export const SEALED_CHUNK_SIZE = 64 * 1024;
+export const DEFAULT_PBKDF2_ITERATIONS = 600_000;
+
+/** Stored beside the files of an encrypted store; holds nothing secret. */
+export interface KeyCheck {
+  format: 1;
+  /** Hex. */
+  salt: string;
+  iterations: number;
+  /** Hex of CHECK_VALUE sealed with the store's key. */
+  check: string;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/** Chunks that `size` plain bytes are sealed in. */
+export function chunkCount(size: number): number {
+  return Math.max(1, Math.ceil(size / SEALED_CHUNK_SIZE));
+}
+
+/** Stored length of `size` plain bytes once sealed. */
+export function sealedLength(size: number): number {
+  return size + chunkCount(size) * CHUNK_OVERHEAD;
+}
+
+/** Plain length of sealed contents `storedLength` bytes long. */
+export function unsealedLength(storedLength: number): number {
+  const chunks = Math.ceil(storedLength / (SEALED_CHUNK_SIZE + CHUNK_OVERHEAD));
+  return Math.max(0, storedLength - chunks * CHUNK_OVERHEAD);
+}
+
+/** Where chunk `index` starts in sealed contents. */
+export function sealedChunkOffset(index: number): number {
+  return index * (SEALED_CHUNK_SIZE + CHUNK_OVERHEAD);
+}
+
+/** The key to open sealed contents with; fails without one. */
+export function requireKey(key: CryptoKey | null, path?: string): CryptoKey {
+  if (!key) {
+    throw new OPFSError("DECRYPTION_FAILED", "The contents are encrypted and no key is set", path);
+  }
+  return key;
+}
+
+/** What each chunk is authenticated with besides its ciphertext. */
+function chunkData(index: number, last: boolean): Uint8Array {
+  const data = new Uint8Array(5);
+  new DataView(data.buffer).setUint32(0, index);
+  data[4] = last ? 1 : 0;
+  return data;
+}
+
+/**
+ * `bytes` sealed as chunks `first` onward of contents that are `total`
+ * chunks long, back to back as they're stored from sealedChunkOffset(first).
+ * Only the last chunk of all may be short.
+ */
+export async function sealChunks(
+  key: CryptoKey,
+  bytes: Uint8Array,
+  first: number,
+  total: number,
+): Promise<Uint8Array> {
+  const count = Math.max(1, Math.ceil(bytes.byteLength / SEALED_CHUNK_SIZE));
+  const sealed = new Uint8Array(bytes.byteLength + count * CHUNK_OVERHEAD);
+  for (let i = 0; i < count; i++) {
+    const index = first + i;
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: chunkData(index, index === total - 1) },
+      key,
+      bytes.subarray(i * SEALED_CHUNK_SIZE, (i + 1) * SEALED_CHUNK_SIZE),
+    );
+    const at = i * (SEALED_CHUNK_SIZE + CHUNK_OVERHEAD);
+    sealed.set(iv, at);
+    sealed.set(new Uint8Array(ciphertext), at + IV_LENGTH);
+  }
+  return sealed;
+}
+
+/**
+ * Plain contents of the chunks `stored` holds, the first of them being
+ * chunk `first` of `total`. Fails with DECRYPTION_FAILED if any of them
+ * doesn't authenticate.
+ */
+export async function unsealChunks(
+  key: CryptoKey | null,
+  stored: Uint8Array,
+  first: number,
+  total: number,
+  path?: string,
+): Promise<Uint8Array> {
+  const open = requireKey(key, path);
+  const stride = SEALED_CHUNK_SIZE + CHUNK_OVERHEAD;
+  // Even empty contents have a chunk, so no chunks at all is damage
+  const count = Math.max(1, Math.ceil(stored.byteLength / stride));
+  const plain = new Uint8Array(Math.max(0, stored.byteLength - count * CHUNK_OVERHEAD));
+  try {
+    for (let i = 0; i < count; i++) {
+      const index = first + i;
+      const chunk = stored.subarray(i * stride, (i + 1) * stride);
+      const contents = await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: chunk.subarray(0, IV_LENGTH),
+          additionalData: chunkData(index, index === total - 1),
+        },
+        open,
+        chunk.subarray(IV_LENGTH),
+      );
+      plain.set(new Uint8Array(contents), i * SEALED_CHUNK_SIZE);
+    }
+  } catch {
+    throw new OPFSError(
+      "DECRYPTION_FAILED",
+      "The contents could not be decrypted: wrong key, or they were damaged",
+      path,
+    );
+  }
+  return plain;
+}
+
+export function seal(key: CryptoKey, bytes: Uint8Array): Promise<Uint8Array> {
+  return sealChunks(key, bytes, 0, chunkCount(bytes.byteLength));
+}
+
+/** Plain contents of sealed `bytes`; fails with DECRYPTION_FAILED if they aren't. */
+export function unseal(
+  key: CryptoKey | null,
+  bytes: Uint8Array,
+  path?: string,
+): Promise<Uint8Array> {
+  const total = chunkCount(unsealedLength(bytes.byteLength));
+  return unsealChunks(key, bytes, 0, total, path);
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number,
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+/** The key check stored as `text`, or null if it's missing or unreadable. */
+export function parseKeyCheck(text: string): KeyCheck | null {
+  try {
+    const check = JSON.parse(text);
+    return check?.format === 1 &&
+      typeof check.salt === "string" &&
+      Number.isSafeInteger(check.iterations) &&
+      typeof check.check === "string"
+      ? (check as KeyCheck)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Throws INVALID_ARGUMENT unless `options` holds a non-empty passphrase
+ * (with a positive whole number of iterations, if given) or an AES-GCM key.
+ */
+export function checkEncryptionOptions(options: EncryptionOptions): void {
+  if ("passphrase" in options) {
+    if (typeof options.passphrase !== "string" || options.passphrase === "") {
+      throw new OPFSError("INVALID_ARGUMENT", "The passphrase must not be empty");
+    }
+    const { iterations } = options;
+    if (iterations !== undefined && (!Number.isSafeInteger(iterations) || iterations < 1)) {
+      throw new OPFSError("INVALID_ARGUMENT", `Invalid iterations: ${iterations}`);
+    }
+  } else if ((options.key as CryptoKey | undefined)?.algorithm?.name !== "AES-GCM") {
+    throw new OPFSError("INVALID_ARGUMENT", "Encryption needs a passphrase or an AES-GCM key");
+  }
+}
+
+/**
+ * The content key for `options`, verified against the store's `existing`
+ * key check, or with a new check to store when there is none yet. A key
+ * that doesn't match fails with DECRYPTION_FAILED.
+ */
+export async function unlockKey(
+  options: EncryptionOptions,
+  existing: KeyCheck | null,
+): Promise<{ key: CryptoKey; check: KeyCheck }> {
+  checkEncryptionOptions(options);
+  const salt = existing
+    ? fromHex(existing.salt)
+    : crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const requested = "passphrase" in options ? options.iterations : undefined;
+  // A store keeps the rounds its key was first derived with
+  const iterations = existing?.iterations ?? requested ?? DEFAULT_PBKDF2_ITERATIONS;
+  const key =
+    "passphrase" in options
+      ? await deriveKey(options.passphrase, salt, iterations)
+      : options.key;
+
+  if (!existing) {
+    const check = await seal(key, new TextEncoder().encode(CHECK_VALUE));
+    return { key, check: { format: 1, salt: toHex(salt), iterations, check: toHex(check) } };
+  }
+  let value: string | null = null;
+  try {
+    value = new TextDecoder().decode(await unseal(key, fromHex(existing.check)));
+  } catch {
+    // A check sealed under another key; reported below
+  }
+  if (value !== CHECK_VALUE) {
+    throw new OPFSError("DECRYPTION_FAILED", "Wrong passphrase or key");
+  }
+  return { key, check: existing };
+}
@@ -0,0 +1,77 @@
+/**
+ * @jest-environment ./src/testing/web-environment.js
+ */
+import { createHandleTree, createMemoryStore } from "./fallback-storage";
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+async function textOf(handle: FileSystemFileHandle): Promise<string> {
+  return (await handle.getFile()).text();
+}
+
+async function namesIn(directory: FileSystemDirectoryHandle): Promise<string[]> {
+  const names: string[] = [];
+  for await (const entry of directory.values()) names.push(entry.name);
+  return names.sort();
+}
+
+describe("fallback storage", () => {
+  let root: FileSystemDirectoryHandle;
+
+  beforeEach(() => {
+    root = createHandleTree(createMemoryStore());
+  });
+
+  it("creates, lists and removes entries like OPFS", async () => {
+    const docs = await root.getDirectoryHandle("docs", { create: true });
+    await docs.getFileHandle("a.txt", { create: true });
+    await root.getFileHandle("b.txt", { create: true });
+    await expect(namesIn(root)).resolves.toEqual(["b.txt", "docs"]);
+    await expect(namesIn(docs)).resolves.toEqual(["a.txt"]);
+
+    await expect(root.removeEntry("docs")).rejects.toMatchObject({
+      name: "InvalidModificationError",
+    });
+    await root.removeEntry("docs", { recursive: true });
+    await expect(namesIn(root)).resolves.toEqual(["b.txt"]);
+    await expect(docs.getFileHandle("c.txt", { create: true })).rejects.toMatchObject({
+      name: "NotFoundError",
+    });
+  });
+
+  it("raises the errors real engines do", async () => {
+    await root.getFileHandle("a.txt", { create: true });
+    await expect(root.getDirectoryHandle("a.txt")).rejects.toMatchObject({
+      name: "TypeMismatchError",
+    });
+    await expect(root.getFileHandle("missing")).rejects.toMatchObject({ name: "NotFoundError" });
+    await expect(root.removeEntry("missing")).rejects.toMatchObject({ name: "NotFoundError" });
+    await expect(root.getFileHandle("a/b")).rejects.toBeInstanceOf(TypeError);
+  });
+
+  it("commits writable streams on close only", async () => {
+    const file = await root.getFileHandle("a.txt", { create: true });
+    const first = await file.createWritable();
+    await first.write(bytes("hello"));
+    await expect(textOf(file)).resolves.toBe("");
+    await first.close();
+    await expect(textOf(file)).resolves.toBe("hello");
+
+    const second = await file.createWritable({ keepExistingData: true });
+    await second.write({ type: "write", position: 7, data: bytes("!") });
+    await second.abort();
+    await expect(textOf(file)).resolves.toBe("hello");
+
+    const { lastModified } = await file.getFile();
+    const third = await file.createWritable({ keepExistingData: true });
+    await third.write({ type: "write", position: 7, data: bytes("!") });
+    await third.close();
+    await expect(textOf(file)).resolves.toBe("hello\0\0!");
+    expect((await file.getFile()).lastModified).toBeGreaterThan(lastModified);
+
+    const fourth = await file.createWritable({ keepExistingData: true });
+    await fourth.truncate(4);
+    await fourth.close();
+    await expect(textOf(file)).resolves.toBe("hell");
+  });
+});
@@ -0,0 +1,318 @@
+// ── Fallback Storage ──────────────────────────────────────────────────────────
+//
+// Directory and file handles, shaped like OPFS's, over a flat store of
+// entries keyed by path: the worker runs on them unchanged where the
+// browser has no OPFS. Files are written through `createWritable()` only;
+// there are no sync access handles. Errors are the DOMExceptions real
+// engines raise, so the worker maps them the same way.
+
+export interface StoredEntry {
+  kind: "file" | "directory";
+  /** Contents; files only. */
+  data?: Uint8Array;
+  lastModified: number;
+}
+
+/** Where a handle tree keeps its entries. The root ("") is implicit. */
+export interface EntryStore {
+  get(path: string): Promise<StoredEntry | undefined>;
+  put(path: string, entry: StoredEntry): Promise<void>;
+  /** Removes `path` and everything below it. */
+  delete(path: string): Promise<void>;
+  /** Names of the entries directly inside the directory at `path`. */
+  children(path: string): Promise<string[]>;
+}
+
+function childPath(parent: string, name: string): string {
+  return parent === "" ? name : `${parent}/${name}`;
+}
+
+function isBelow(path: string, parent: string): boolean {
+  return path === parent || path.startsWith(`${parent}/`);
+}
+
+function assertEntryName(name: string): void {
+  if (name === "" || name === "." || name === ".." || /[/\\]/.test(name)) {
+    throw new TypeError(`Name is not allowed: "${name}"`);
+  }
+}
+
+function notFound(name: string): DOMException {
+  return new DOMException(`"${name}" not found`, "NotFoundError");
+}
+
+// ── Stores ────────────────────────────────────────────────────────────────────
+
+/** Entries in a Map: gone when the worker is. */
+export function createMemoryStore(): EntryStore {
+  const entries = new Map<string, StoredEntry>();
+  return {
+    async get(path) {
+      return entries.get(path);
+    },
+    async put(path, entry) {
+      entries.set(path, entry);
+    },
+    async delete(path) {
+      Array.from(entries.keys()).forEach((key) => {
+        if (isBelow(key, path)) entries.delete(key);
+      });
+    },
+    async children(path) {
+      const prefix = path === "" ? "" : `${path}/`;
+      return Array.from(entries.keys())
+        .filter((key) => key.startsWith(prefix) && !key.includes("/", prefix.length))
+        .map((key) => key.slice(prefix.length));
+    },
+  };
+}
+
+const ENTRIES_STORE = "entries";
+const PARENT_INDEX = "parent";
+
+/** An entry as IndexedDB holds it, with its parent for listing. */
+interface EntryRecord extends StoredEntry {
+  parent: string;
+}
+
+function parentOf(path: string): string {
+  const slash = path.lastIndexOf("/");
+  return slash === -1 ? "" : path.slice(0, slash);
+}
+
+function requested<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Settles once `transaction` is durable, not just once its requests ran. */
+function committed(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error ?? new DOMException("Transaction aborted", "AbortError"));
+  });
+}
+
+/** Entries in the IndexedDB database `name`, one record per path. */
+export async function openIndexedDBStore(name: string): Promise<EntryStore> {
+  const open = indexedDB.open(name, 1);
+  open.onupgradeneeded = () => {
+    open.result
+      .createObjectStore(ENTRIES_STORE)
+      .createIndex(PARENT_INDEX, PARENT_INDEX);
+  };
+  const db = await requested(open);
+  const transaction = (mode: IDBTransactionMode) => db.transaction(ENTRIES_STORE, mode);
+
+  return {
+    async get(path) {
+      const record: EntryRecord | undefined = await requested(
+        transaction("readonly").objectStore(ENTRIES_STORE).get(path),
+      );
+      return record && { kind: record.kind, data: record.data, lastModified: record.lastModified };
+    },
+    async put(path, entry) {
+      const write = transaction("readwrite");
+      const record: EntryRecord = { ...entry, parent: parentOf(path) };
+      write.objectStore(ENTRIES_STORE).put(record, path);
+      await committed(write);
+    },
+    async delete(path) {
+      const write = transaction("readwrite");
+      const store = write.objectStore(ENTRIES_STORE);
+      store.delete(path);
+      // Everything below sorts between "path/" and "path/" + the last code unit
+      store.delete(IDBKeyRange.bound(`${path}/`, `${path}/\uffff`));
+      await committed(write);
+    },
+    async children(path) {
+      const keys = await requested(
+        transaction("readonly")
+          .objectStore(ENTRIES_STORE)
+          .index(PARENT_INDEX)
+          .getAllKeys(IDBKeyRange.only(path)),
+      );
+      return keys.map((key) => String(key).slice(path === "" ? 0 : path.length + 1));
+    },
+  };
+}
+
+// ── Handles ───────────────────────────────────────────────────────────────────
+
+type WriteParams =
+  | Uint8Array
+  | { type: "write"; position?: number; data: Uint8Array }
+  | { type: "seek"; position: number }
+  | { type: "truncate"; size: number };
+
+/** Buffers every write and replaces the file's contents on `close`. */
+class StoredWritable {
+  private position = 0;
+
+  constructor(
+    private readonly store: EntryStore,
+    private readonly path: string,
+    private data: Uint8Array,
+    private readonly lastModified: number,
+  ) {}
+
+  async write(params: WriteParams): Promise<void> {
+    if (params instanceof Uint8Array) {
+      this.writeAt(this.position, params);
+    } else if (params.type === "write") {
+      this.writeAt(params.position ?? this.position, params.data);
+    } else if (params.type === "seek") {
+      this.position = params.position;
+    } else {
+      await this.truncate(params.size);
+    }
+  }
+
+  async truncate(size: number): Promise<void> {
+    this.resize(size);
+    this.position = Math.min(this.position, size);
+  }
+
+  async close(): Promise<void> {
+    if (!(await this.store.get(this.path))) throw notFound(this.path);
+    await this.store.put(this.path, {
+      kind: "file",
+      data: this.data,
+      // Strictly increasing, so versions differ even within a millisecond
+      lastModified: Math.max(Date.now(), this.lastModified + 1),
+    });
+  }
+
+  async abort(): Promise<void> {}
+
+  private writeAt(position: number, bytes: Uint8Array): void {
+    // Writing past the end zero-fills the gap
+    if (position + bytes.byteLength > this.data.byteLength) {
+      this.resize(position + bytes.byteLength);
+    }
+    this.data.set(bytes, position);
+    this.position = position + bytes.byteLength;
+  }
+
+  private resize(size: number): void {
+    const resized = new Uint8Array(size);
+    resized.set(this.data.subarray(0, size));
+    this.data = resized;
+  }
+}
+
+class StoredFileHandle {
+  readonly kind = "file" as const;
+
+  constructor(
+    private readonly store: EntryStore,
+    private readonly path: string,
+    readonly name: string,
+  ) {}
+
+  private async entry(): Promise<StoredEntry> {
+    const entry = await this.store.get(this.path);
+    if (entry?.kind !== "file") throw notFound(this.name);
+    return entry;
+  }
+
+  async getFile(): Promise<File> {
+    const { data, lastModified } = await this.entry();
+    return new File([data ?? new Uint8Array(0)], this.name, { lastModified });
+  }
+
+  async createWritable(
+    options: { keepExistingData?: boolean } = {},
+  ): Promise<StoredWritable> {
+    const { data, lastModified } = await this.entry();
+    const initial = options.keepExistingData && data ? data.slice() : new Uint8Array(0);
+    return new StoredWritable(this.store, this.path, initial, lastModified);
+  }
+}
+
+class StoredDirectoryHandle {
+  readonly kind = "directory" as const;
+
+  constructor(
+    private readonly store: EntryStore,
+    private readonly path: string,
+    readonly name: string,
+  ) {}
+
+  /** Path of the child `name` of `kind`, created with `create`. */
+  private async child(
+    name: string,
+    kind: StoredEntry["kind"],
+    create = false,
+  ): Promise<string> {
+    assertEntryName(name);
+    const path = childPath(this.path, name);
+    let entry = await this.store.get(path);
+    if (!entry && create) {
+      // Nothing may be created inside a directory that was removed
+      if (this.path !== "" && !(await this.store.get(this.path))) throw notFound(this.name);
+      entry =
+        kind === "file"
+          ? { kind, data: new Uint8Array(0), lastModified: Date.now() }
+          : { kind, lastModified: Date.now() };
+      await this.store.put(path, entry);
+    }
+    if (!entry) throw notFound(name);
+    if (entry.kind !== kind) {
+      throw new DOMException(`"${name}" is a ${entry.kind}`, "TypeMismatchError");
+    }
+    return path;
+  }
+
+  async getDirectoryHandle(
+    name: string,
+    options: { create?: boolean } = {},
+  ): Promise<StoredDirectoryHandle> {
+    const path = await this.child(name, "directory", options.create);
+    return new StoredDirectoryHandle(this.store, path, name);
+  }
+
+  async getFileHandle(
+    name: string,
+    options: { create?: boolean } = {},
+  ): Promise<StoredFileHandle> {
+    const path = await this.child(name, "file", options.create);
+    return new StoredFileHandle(this.store, path, name);
+  }
+
+  async removeEntry(
+    name: string,
+    options: { recursive?: boolean } = {},
+  ): Promise<void> {
+    assertEntryName(name);
+    const path = childPath(this.path, name);
+    const entry = await this.store.get(path);
+    if (!entry) throw notFound(name);
+    if (
+      entry.kind === "directory" &&
+      !options.recursive &&
+      (await this.store.children(path)).length > 0
+    ) {
+      throw new DOMException(`"${name}" is not empty`, "InvalidModificationError");
+    }
+    await this.store.delete(path);
+  }
+
+  async *values(): AsyncIterableIterator<StoredFileHandle | StoredDirectoryHandle> {
+    for (const name of await this.store.children(this.path)) {
+      const path = childPath(this.path, name);
+      const entry = await this.store.get(path);
+      if (entry?.kind === "file") yield new StoredFileHandle(this.store, path, name);
+      else if (entry) yield new StoredDirectoryHandle(this.store, path, name);
+    }
+  }
+}
+
+/** The root directory of the handle tree kept in `store`. */
+export function createHandleTree(store: EntryStore): FileSystemDirectoryHandle {
+  return new StoredDirectoryHandle(store, "", "") as unknown as FileSystemDirectoryHandle;
+}
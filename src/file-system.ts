@@ -0,0 +1,891 @@
+import { joinPath, splitParent, splitPath } from "./opfs-paths";
+import {
+  BinaryData,
+  CachePolicy,
+  CompressionFormat,
+  CompressionRule,
+  ImportConflictPolicy,
+  ImportResult,
+  IntegrityProblem,
+  OPFSChangeEvent,
+  OPFSEntry,
+  OPFSError,
+  OPFSInitOptions,
+  OPFSRevision,
+  OPFSStat,
+  RepairAction,
+  SearchResult,
+  StorageBackend,
+  StorageInfo,
+  TransactionOp,
+  VerifyReport,
+  VersionedContent,
+  WriteCompression,
+} from "./opfs-protocol";
+import { ZipEntry, ZipItem } from "./zip";
+
+// ── File System Contract ──────────────────────────────────────────────────────
+//
+// Implemented by the OPFS worker client (OPFS.ts) and by the in-memory and
+// Node-backed test doubles; the conformance suite in testing/ holds them all
+// to the same behaviour.
+
+/** Per-call controls accepted by every `IFileSystem` operation. */
+export interface CallOptions {
+  /** Aborting rejects the call with ABORTED (and cancels it in the worker). */
+  signal?: AbortSignal;
+  /** Rejects with TIMEOUT (and cancels in the worker) after this many ms. */
+  timeoutMs?: number;
+}
+
+/** "local" for changes made through this page, "remote" for other tabs. */
+export type ChangeOrigin = "local" | "remote";
+
+export type ChangeListener = (
+  event: OPFSChangeEvent,
+  origin: ChangeOrigin,
+) => void;
+
+export interface WatchOptions {
+  /** Also report changes deeper than the direct children of the path. */
+  recursive?: boolean;
+}
+
+/**
+ * All paths are slash-separated and relative to the root; the empty string
+ * (or "/") refers to the root itself. Every operation takes optional
+ * `CallOptions` (abort signal, timeout) as its last argument, and fails with
+ * an `OPFSError` whose code is the same for every implementation.
+ */
+export interface IFileSystem {
+  /** Resolves with the backend files are kept in; see `StorageBackend`. */
+  init(options?: OPFSInitOptions & CallOptions): Promise<StorageBackend>;
+  /**
+   * Forgets the encryption key once running calls finish. Until `init`
+   * unlocks the store again, every call fails with STORE_LOCKED. Does
+   * nothing for a store that isn't encrypted.
+   */
+  lock(options?: CallOptions): Promise<void>;
+  list(
+    path?: string,
+    options?: { withStats?: false } & CallOptions,
+  ): Promise<OPFSEntry[]>;
+  list(
+    path: string,
+    options: { withStats: true } & CallOptions,
+  ): Promise<OPFSStat[]>;
+  stat(path: string, options?: CallOptions): Promise<OPFSStat>;
+  /**
+   * Creates the file, and any missing parent directories, returning its
+   * path. Fails with ALREADY_EXISTS if something is there already, unless
+   * `overwrite` is set. `compression` here and on the other whole-file
+   * writes picks how the contents are stored (see `WriteCompression`);
+   * reads always return them as written.
+   */
+  create(
+    path: string,
+    content: string,
+    options?: { overwrite?: boolean; compression?: WriteCompression } & CallOptions,
+  ): Promise<string>;
+  read(path: string, options?: CallOptions): Promise<string>;
+  /** Reads the content along with the version to pass to `update`. */
+  readVersioned(path: string, options?: CallOptions): Promise<VersionedContent>;
+  /**
+   * Overwrites an existing file and returns its new version. With
+   * `expectedVersion`, fails with CONFLICT instead if the file was written
+   * since that version was read (e.g. from another tab).
+   */
+  update(
+    path: string,
+    content: string,
+    options?: { expectedVersion?: string; compression?: WriteCompression } & CallOptions,
+  ): Promise<string>;
+  delete(path: string, options?: CallOptions): Promise<void>;
+  /** Creates the directory and any missing parents, returning its path. */
+  mkdir(path: string, options?: CallOptions): Promise<string>;
+  /** Removes a directory; non-empty directories require `recursive`. */
+  rmdir(
+    path: string,
+    options?: { recursive?: boolean } & CallOptions,
+  ): Promise<void>;
+  /** Reads the raw file contents; the buffer is transferred, not copied. */
+  readBytes(path: string, options?: CallOptions): Promise<ArrayBuffer>;
+  /**
+   * Creates or overwrites the file with raw bytes. ArrayBuffers (and the
+   * buffer behind a Uint8Array) are transferred to the worker, which
+   * detaches them on the calling side.
+   */
+  writeBytes(
+    path: string,
+    data: BinaryData,
+    options?: { compression?: WriteCompression } & CallOptions,
+  ): Promise<void>;
+  /** Reads up to `length` bytes at `offset`; shorter at end of file. */
+  readRange(
+    path: string,
+    offset: number,
+    length: number,
+    options?: CallOptions,
+  ): Promise<ArrayBuffer>;
+  /** Writes in place at `offset`, creating the file if needed. Returns bytes written. */
+  writeAt(
+    path: string,
+    offset: number,
+    data: BinaryData | string,
+    options?: CallOptions,
+  ): Promise<number>;
+  /** Appends to the end of the file, creating it if needed. Returns the new size. */
+  append(
+    path: string,
+    data: BinaryData | string,
+    options?: CallOptions,
+  ): Promise<number>;
+  /**
+   * Streams the file in `chunkSize` windows via `readRange`. `signal` and
+   * `timeoutMs` apply to each chunk request.
+   */
+  readStream(
+    path: string,
+    options?: { offset?: number; chunkSize?: number } & CallOptions,
+  ): ReadableStream<Uint8Array>;
+  /**
+   * Streams chunks into the file via `writeAt`. The file is truncated first
+   * unless `append` is set. Chunk buffers are transferred like `writeBytes`.
+   */
+  writeStream(
+    path: string,
+    options?: { append?: boolean } & CallOptions,
+  ): WritableStream<BinaryData | string>;
+  /** Renames a file or directory in place, returning its new path. */
+  rename(path: string, newName: string, options?: CallOptions): Promise<string>;
+  /**
+   * Moves a file or directory to `to`, which must not exist yet. Returns
+   * the new path. Never loses the source if the move fails midway.
+   */
+  move(from: string, to: string, options?: CallOptions): Promise<string>;
+  /** Copies a file or directory tree to `to`, which must not exist yet. */
+  copy(from: string, to: string, options?: CallOptions): Promise<string>;
+  /**
+   * Applies every op or none of them. All ops are validated first (CONFLICT,
+   * NOT_FOUND, TYPE_MISMATCH, ...), and a path may appear only once. If the
+   * tab dies midway, the next `init` finishes or undoes the transaction.
+   */
+  transaction(ops: TransactionOp[], options?: CallOptions): Promise<void>;
+  /**
+   * Prior revisions of a file, newest first. Whole-file writes (`create`
+   * with overwrite, `update`, `writeBytes`, `transaction`, `restore`) record
+   * one; partial writes (`writeAt`, `append`, streams) don't. History follows
+   * the file through renames and moves and is dropped when it's deleted.
+   * Hidden files, and files in hidden directories, keep none.
+   */
+  history(path: string, options?: CallOptions): Promise<OPFSRevision[]>;
+  /** Text of one revision; NOT_FOUND if it has been dropped. */
+  readRevision(
+    path: string,
+    revisionId: string,
+    options?: CallOptions,
+  ): Promise<string>;
+  /**
+   * Makes a revision the current contents, returning the new version. The
+   * contents being replaced become a revision themselves, so it can be undone.
+   */
+  restore(
+    path: string,
+    revisionId: string,
+    options?: CallOptions,
+  ): Promise<string>;
+  /**
+   * ZIP archive of every file and directory, hidden ones included, with
+   * modification times. Internal bookkeeping (journal, temp files, history)
+   * is left out. Files are deflated unless `compress` is false. Encrypted
+   * contents go into the archive decrypted.
+   */
+  exportArchive(
+    options?: { compress?: boolean } & CallOptions,
+  ): Promise<Blob>;
+  /**
+   * Adds the contents of a ZIP archive, merging into existing directories.
+   * `onConflict` (default "fail") decides what happens to entries whose
+   * path is taken; with "fail", nothing is written if any is. Entries
+   * that would land outside the root fail with INVALID_NAME.
+   */
+  importArchive(
+    archive: Blob,
+    options?: { onConflict?: ImportConflictPolicy } & CallOptions,
+  ): Promise<ImportResult>;
+  /**
+   * Files whose name or contents contain every word of `query`, best match
+   * first (at most `limit`, default 20). The last word also matches longer
+   * words it begins, so results can follow typing. Matching ignores case
+   * and accents; hidden files are never returned.
+   */
+  search(
+    query: string,
+    options?: { limit?: number } & CallOptions,
+  ): Promise<SearchResult[]>;
+  /**
+   * How much storage is used and allowed, and whether the browser may
+   * clear it under pressure. Usage per top-level directory is added with
+   * `byDirectory`, which walks every file.
+   */
+  storageInfo(
+    options?: { byDirectory?: boolean } & CallOptions,
+  ): Promise<StorageInfo>;
+  /**
+   * Checks the files at or under `path` (default: everything) against the
+   * checksums recorded as they were written, and looks for leftovers of
+   * interrupted writes. Only reports; `repair` acts on what it finds.
+   */
+  verify(path?: string, options?: CallOptions): Promise<VerifyReport>;
+  /**
+   * Deals with one problem from `verify` as `action` says. Fails with
+   * NOT_FOUND if the problem is no longer there, and when asked to repair
+   * a corrupted file that has no revision to repair it from.
+   */
+  repair(
+    problem: IntegrityProblem,
+    action: RepairAction,
+    options?: CallOptions,
+  ): Promise<void>;
+  /**
+   * Calls `listener` for every change to `path` or its children (any
+   * descendant with `recursive`); renames match on either end. Changes made
+   * by a call are reported before that call resolves. Returns a function
+   * that unsubscribes.
+   */
+  watch(
+    path: string,
+    listener: ChangeListener,
+    options?: WatchOptions,
+  ): () => void;
+}
+
+// ── Shared Helpers ────────────────────────────────────────────────────────────
+
+export const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+export async function toBytes(data: BinaryData | string): Promise<Uint8Array> {
+  if (typeof data === "string") return new TextEncoder().encode(data);
+  if (data instanceof Uint8Array) return data;
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+export function assertRange(offset: number, length: number): void {
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    throw new OPFSError("INVALID_ARGUMENT", `Invalid offset: ${offset}`);
+  }
+  if (!Number.isSafeInteger(length) || length < 0) {
+    throw new OPFSError("INVALID_ARGUMENT", `Invalid length: ${length}`);
+  }
+}
+
+/** A transaction may touch each path only once. */
+export function assertDistinctPaths(ops: TransactionOp[]): void {
+  const seen = new Set<string>();
+  for (const op of ops) {
+    const path = joinPath(op.path);
+    if (seen.has(path)) {
+      throw new OPFSError(
+        "INVALID_ARGUMENT",
+        `"${path}" appears more than once in the transaction`,
+        path,
+      );
+    }
+    seen.add(path);
+  }
+}
+
+/** Rejects up front when the caller's signal has already fired. */
+export function throwIfAborted(operation: string, signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new OPFSError("ABORTED", `"${operation}" was aborted`);
+  }
+}
+
+/** `ReadableStream` over any file system, pulling `chunkSize` windows via `readRange`. */
+export function createReadStream(
+  fs: IFileSystem,
+  path: string,
+  options: { offset?: number; chunkSize?: number } & CallOptions = {},
+): ReadableStream<Uint8Array> {
+  const { offset, chunkSize = DEFAULT_CHUNK_SIZE, ...callOptions } = options;
+  let position = offset ?? 0;
+  return new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        const buffer = await fs.readRange(
+          path,
+          position,
+          chunkSize,
+          callOptions,
+        );
+        if (buffer.byteLength === 0) {
+          controller.close();
+          return;
+        }
+        position += buffer.byteLength;
+        controller.enqueue(new Uint8Array(buffer));
+      },
+    },
+    { highWaterMark: 1 },
+  );
+}
+
+/** `WritableStream` over any file system, writing each chunk via `writeAt`. */
+export function createWriteStream(
+  fs: IFileSystem,
+  path: string,
+  options: { append?: boolean } & CallOptions = {},
+): WritableStream<BinaryData | string> {
+  const { append, ...callOptions } = options;
+  let position = 0;
+  return new WritableStream<BinaryData | string>({
+    async start() {
+      if (append) {
+        position = await fs.append(path, new Uint8Array(0), callOptions);
+      } else {
+        await fs.writeBytes(path, new Uint8Array(0), callOptions);
+      }
+    },
+    async write(chunk) {
+      position += await fs.writeAt(path, position, chunk, callOptions);
+    },
+  });
+}
+
+// ── Revision History ──────────────────────────────────────────────────────────
+
+export const DEFAULT_MAX_REVISIONS = 10;
+
+/** `history.maxRevisions` from the init options, validated. */
+export function maxRevisionsOf(options: OPFSInitOptions = {}): number {
+  const maxRevisions = options.history?.maxRevisions ?? DEFAULT_MAX_REVISIONS;
+  if (!Number.isSafeInteger(maxRevisions) || maxRevisions < 0) {
+    throw new OPFSError("INVALID_ARGUMENT", `Invalid maxRevisions: ${maxRevisions}`);
+  }
+  return maxRevisions;
+}
+
+/** Name of the hidden sidecar beside a file that holds its revisions. */
+export function historyName(name: string): string {
+  return `.${name}.history`;
+}
+
+/** Hidden files, and anything inside a hidden directory, keep no history. */
+export function keepsHistory(path: string): boolean {
+  return splitPath(path).every((segment) => !segment.startsWith("."));
+}
+
+/** Revision ids are `<sequence>-<lastModified>`; null for anything else. */
+export function parseRevisionId(
+  id: string,
+): { sequence: number; lastModified: number } | null {
+  const match = /^(\d+)-(\d+)$/.exec(id);
+  return match
+    ? { sequence: Number(match[1]), lastModified: Number(match[2]) }
+    : null;
+}
+
+/** Id for a new revision of contents last written at `lastModified`. */
+export function nextRevisionId(
+  existing: OPFSRevision[],
+  lastModified: number,
+): string {
+  const sequence = existing.reduce(
+    (max, revision) => Math.max(max, parseRevisionId(revision.id)?.sequence ?? 0),
+    0,
+  );
+  return `${sequence + 1}-${Math.floor(lastModified)}`;
+}
+
+/** Newest first. */
+export function compareRevisions(a: OPFSRevision, b: OPFSRevision): number {
+  return (
+    (parseRevisionId(b.id)?.sequence ?? 0) -
+    (parseRevisionId(a.id)?.sequence ?? 0)
+  );
+}
+
+export function revisionNotFound(path: string, revisionId: string): OPFSError {
+  return new OPFSError(
+    "NOT_FOUND",
+    `Revision "${revisionId}" of "${joinPath(path)}" does not exist`,
+    path,
+  );
+}
+
+// ── Archives ──────────────────────────────────────────────────────────────────
+
+/**
+ * Where editors autosave what hasn't been saved yet (see drafts.ts). Hidden
+ * like quarantine: readable and writable, but never listed, exported or
+ * checked.
+ */
+export const DRAFTS_DIR = ".opfs-drafts";
+
+/**
+ * The worker's journal, search index, key check, checksum manifest and
+ * backend probe, quarantined files, editor drafts, temp files of in-flight
+ * writes, and history sidecars.
+ */
+export function isInternalName(name: string): boolean {
+  return (
+    name === ".opfs-journal" ||
+    name === ".opfs-probe" ||
+    name === ".opfs-search" ||
+    name === ".opfs-keycheck" ||
+    name === ".opfs-manifest" ||
+    name === QUARANTINE_DIR ||
+    name === DRAFTS_DIR ||
+    /^\..+\.(tmp|history)$/.test(name)
+  );
+}
+
+const CONFLICT_POLICIES: ImportConflictPolicy[] = ["fail", "skip", "overwrite", "rename"];
+
+export interface ImportPlan {
+  /** Directories to create, parents first. */
+  directories: string[];
+  /** Where each archived file goes, and whether it replaces one. */
+  files: { item: ZipItem; path: string; exists: boolean }[];
+  skipped: string[];
+}
+
+/** "a/b.txt" → "a/b (2).txt"; directories keep dots in their names. */
+function numberedPath(path: string, kind: ZipEntry["kind"], n: number): string {
+  const [parent, name] = splitParent(path);
+  const dot = kind === "file" ? name.lastIndexOf(".") : -1;
+  const numbered =
+    dot > 0 ? `${name.slice(0, dot)} (${n})${name.slice(dot)}` : `${name} (${n})`;
+  return joinPath(...parent, numbered);
+}
+
+/**
+ * Decides where every archive entry goes before anything is written, so
+ * "fail" and type mismatches leave the file system untouched. `kindOf`
+ * reports what is at a path now. Directories the archive only implies are
+ * planned like listed ones; internal entries are dropped.
+ */
+export async function planImport(
+  items: ZipItem[],
+  kindOf: (path: string) => Promise<ZipEntry["kind"] | null>,
+  onConflict: ImportConflictPolicy,
+): Promise<ImportPlan> {
+  if (!CONFLICT_POLICIES.includes(onConflict)) {
+    throw new OPFSError("INVALID_ARGUMENT", `Invalid onConflict: ${onConflict}`);
+  }
+
+  const directories = new Map<string, ZipEntry>();
+  const files = new Map<string, ZipItem>();
+  for (const item of items) {
+    const segments = splitPath(item.path);
+    if (segments.some(isInternalName)) continue;
+    for (let depth = 1; depth < segments.length; depth++) {
+      const parent = joinPath(...segments.slice(0, depth));
+      if (!directories.has(parent)) {
+        directories.set(parent, { path: parent, kind: "directory", lastModified: item.lastModified });
+      }
+    }
+    if (item.kind === "directory") directories.set(item.path, item);
+    else if (files.has(item.path)) {
+      throw new OPFSError("INVALID_ARGUMENT", `"${item.path}" appears more than once in the archive`, item.path);
+    } else files.set(item.path, item);
+  }
+  files.forEach((item) => {
+    if (directories.has(item.path)) {
+      throw new OPFSError("INVALID_ARGUMENT", `"${item.path}" is both a file and a directory in the archive`, item.path);
+    }
+  });
+
+  // Archive directory → where it lands, or null when skipped
+  const targets = new Map<string, string | null>();
+  // Targets already planned, which later entries must not collide with
+  const claimed = new Map<string, ZipEntry["kind"]>();
+  const created = new Set<string>();
+  const plan: ImportPlan = { directories: [], files: [], skipped: [] };
+
+  const place = async (
+    entry: ZipEntry,
+  ): Promise<{ path: string; exists: boolean } | null> => {
+    const [parent, name] = splitParent(entry.path);
+    const parentTarget = parent.length > 0 ? targets.get(joinPath(...parent)) : "";
+    if (parentTarget === null || parentTarget === undefined) return null;
+    const path = joinPath(parentTarget, name);
+    // Nothing exists yet inside a directory the import creates
+    const existing =
+      claimed.get(path) ?? (created.has(parentTarget) ? null : await kindOf(path));
+    if (existing === null || (existing === "directory" && entry.kind === "directory")) {
+      return { path, exists: existing !== null };
+    }
+    switch (onConflict) {
+      case "skip":
+        return null;
+      case "rename":
+        for (let n = 2; ; n++) {
+          const renamed = numberedPath(path, entry.kind, n);
+          const free =
+            !claimed.has(renamed) &&
+            (created.has(parentTarget) || (await kindOf(renamed)) === null);
+          if (free) {
+            return { path: renamed, exists: false };
+          }
+        }
+    }
+    if (existing !== entry.kind) {
+      throw new OPFSError("TYPE_MISMATCH", `"${path}" is a ${existing} in the file system but a ${entry.kind} in the archive`, path);
+    }
+    if (onConflict === "fail") {
+      throw new OPFSError("ALREADY_EXISTS", `"${path}" already exists`, path);
+    }
+    return { path, exists: true };
+  };
+
+  const byDepth = Array.from(directories.values()).sort(
+    (a, b) => splitPath(a.path).length - splitPath(b.path).length,
+  );
+  for (const directory of byDepth) {
+    const placed = await place(directory);
+    targets.set(directory.path, placed?.path ?? null);
+    if (!placed) {
+      plan.skipped.push(directory.path);
+      continue;
+    }
+    claimed.set(placed.path, "directory");
+    if (!placed.exists) {
+      created.add(placed.path);
+      plan.directories.push(placed.path);
+    }
+  }
+  for (const item of Array.from(files.values())) {
+    const placed = await place(item);
+    if (!placed) {
+      plan.skipped.push(item.path);
+      continue;
+    }
+    claimed.set(placed.path, "file");
+    plan.files.push({ item, ...placed });
+  }
+  return plan;
+}
+
+/** Result of applying `plan`: new directories and written files, in order. */
+export function importResultOf(plan: ImportPlan): ImportResult {
+  return {
+    imported: [
+      ...plan.directories,
+      ...plan.files.map((file) => file.path),
+    ],
+    skipped: plan.skipped,
+  };
+}
+
+// ── Caches ────────────────────────────────────────────────────────────────────
+
+const EVICTION_ORDERS: Array<CachePolicy["evict"]> = ["lru", "fifo"];
+
+function isWithin(path: string, directory: string): boolean {
+  return path === directory || path.startsWith(`${directory}/`);
+}
+
+/** `caches` from the init options, validated, with paths normalized. */
+export function cachePoliciesOf(options: OPFSInitOptions = {}): CachePolicy[] {
+  const policies = (options.caches ?? []).map((policy): CachePolicy => {
+    const path = joinPath(policy.path);
+    if (splitPath(path).length === 0) {
+      throw new OPFSError("INVALID_ARGUMENT", "The root can't be a cache directory");
+    }
+    const limits = [policy.maxBytes, policy.maxFiles];
+    if (limits.every((limit) => limit === undefined)) {
+      throw new OPFSError("INVALID_ARGUMENT", `Cache "${path}" needs maxBytes or maxFiles`, path);
+    }
+    limits.forEach((limit) => {
+      if (limit !== undefined && (!Number.isSafeInteger(limit) || limit < 0)) {
+        throw new OPFSError("INVALID_ARGUMENT", `Invalid cache limit: ${limit}`, path);
+      }
+    });
+    if (!EVICTION_ORDERS.includes(policy.evict ?? "lru")) {
+      throw new OPFSError("INVALID_ARGUMENT", `Invalid evict: ${policy.evict}`, path);
+    }
+    return { ...policy, path, evict: policy.evict ?? "lru" };
+  });
+  policies.forEach((a, i) =>
+    policies.slice(i + 1).forEach((b) => {
+      if (isWithin(a.path, b.path) || isWithin(b.path, a.path)) {
+        throw new OPFSError("INVALID_ARGUMENT", `Caches "${a.path}" and "${b.path}" overlap`, a.path);
+      }
+    }),
+  );
+  return policies;
+}
+
+/** A visible file inside a cache directory, as eviction sees it. */
+export interface CachedFile {
+  path: string;
+  size: number;
+  lastModified: number;
+}
+
+export interface CacheTracker {
+  /** Replaces the policies with those of the init options. */
+  configure(options?: OPFSInitOptions): void;
+  policies(): CachePolicy[];
+  /** The policy of the cache directory `path` is in (or is), if any. */
+  policyFor(path: string): CachePolicy | undefined;
+  /** Records a read or write of a file; ignored outside cache directories. */
+  touch(path: string): void;
+  /**
+   * Files to evict, first to last, so that `files` (everything in the
+   * policy's directory) fits its limits again.
+   */
+  evictions(policy: CachePolicy, files: CachedFile[]): string[];
+}
+
+/**
+ * Policies and last-use times of cached files, shared by every backend.
+ * Use times live in memory only; files unused since the backend started
+ * rank by when they were last written.
+ */
+export function createCacheTracker(): CacheTracker {
+  let policies: CachePolicy[] = [];
+  const lastUsed = new Map<string, number>();
+  // Strictly increasing, so uses within one millisecond still rank in order
+  let clock = 0;
+
+  const policyFor = (path: string) =>
+    policies.find((policy) => isWithin(joinPath(path), policy.path));
+
+  return {
+    configure(options) {
+      policies = cachePoliciesOf(options);
+      lastUsed.clear();
+    },
+
+    policies: () => policies,
+
+    policyFor,
+
+    touch(path) {
+      if (!policyFor(path)) return;
+      clock = Math.max(Date.now(), clock + 1);
+      lastUsed.set(joinPath(path), clock);
+    },
+
+    evictions(policy, files) {
+      const present = new Set(files.map((file) => file.path));
+      Array.from(lastUsed.keys()).forEach((path) => {
+        if (isWithin(path, policy.path) && !present.has(path)) lastUsed.delete(path);
+      });
+      const rankOf = (file: CachedFile) =>
+        policy.evict === "fifo" ? file.lastModified : lastUsed.get(file.path) ?? file.lastModified;
+      const queue = files
+        .map((file) => ({ ...file, rank: rankOf(file) }))
+        .sort((a, b) => a.rank - b.rank || (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+
+      let bytes = files.reduce((total, file) => total + file.size, 0);
+      let count = files.length;
+      const evicted: string[] = [];
+      for (const file of queue) {
+        if (bytes <= (policy.maxBytes ?? Infinity) && count <= (policy.maxFiles ?? Infinity)) {
+          break;
+        }
+        evicted.push(file.path);
+        bytes -= file.size;
+        count--;
+      }
+      return evicted;
+    },
+  };
+}
+
+// ── Storage Backends ──────────────────────────────────────────────────────────
+
+const STORAGE_BACKENDS: StorageBackend[] = [
+  "opfs",
+  "opfs-async",
+  "indexeddb",
+  "memory",
+  "node",
+];
+
+/** Throws INVALID_ARGUMENT unless `backend` names one. */
+export function assertBackend(backend: unknown): void {
+  if (!STORAGE_BACKENDS.includes(backend as StorageBackend)) {
+    throw new OPFSError("INVALID_ARGUMENT", `Unknown storage backend: ${backend}`);
+  }
+}
+
+export function backendUnavailable(backend: StorageBackend): OPFSError {
+  return new OPFSError("UNSUPPORTED", `The "${backend}" storage backend isn't available here`);
+}
+
+/** For file systems with just the one backend, `own`: checks what `init` asked for. */
+export function singleBackend(options: OPFSInitOptions, own: StorageBackend): StorageBackend {
+  if (options.backend === undefined || options.backend === own) return own;
+  assertBackend(options.backend);
+  throw backendUnavailable(options.backend);
+}
+
+// ── Compression ───────────────────────────────────────────────────────────────
+
+const COMPRESSION_FORMATS: CompressionFormat[] = ["gzip", "deflate"];
+
+/** Throws INVALID_ARGUMENT unless `compression` is a write's valid choice. */
+export function assertCompression(compression: unknown, path?: string): void {
+  if (
+    compression !== undefined &&
+    compression !== "none" &&
+    !COMPRESSION_FORMATS.includes(compression as CompressionFormat)
+  ) {
+    throw new OPFSError("INVALID_ARGUMENT", `Invalid compression: ${compression}`, path);
+  }
+}
+
+/** `compression` from the init options, validated, with paths normalized. */
+export function compressionRulesOf(options: OPFSInitOptions = {}): CompressionRule[] {
+  return (options.compression ?? []).map((rule) => {
+    const path = joinPath(rule.path);
+    const format = rule.format ?? "gzip";
+    if (!COMPRESSION_FORMATS.includes(format)) {
+      throw new OPFSError("INVALID_ARGUMENT", `Invalid compression format: ${format}`, path);
+    }
+    return { path, format };
+  });
+}
+
+/**
+ * The format a whole-file write to `path` is stored in: what the write asks
+ * for, else the deepest rule covering it, else `current` (the file's own).
+ */
+export function compressionFor(
+  rules: CompressionRule[],
+  path: string,
+  requested: WriteCompression | undefined,
+  current: CompressionFormat | null,
+): CompressionFormat | null {
+  if (requested) return requested === "none" ? null : requested;
+  const rule = rules
+    .filter((candidate) => isWithin(joinPath(path), candidate.path) || candidate.path === "")
+    .sort((a, b) => b.path.length - a.path.length)[0];
+  return rule ? rule.format ?? "gzip" : current;
+}
+
+// ── Integrity ─────────────────────────────────────────────────────────────────
+
+/**
+ * Where "quarantine" moves things: under a directory named for the time,
+ * at their original path. Readable like any hidden path, but left out of
+ * exports and checks.
+ */
+export const QUARANTINE_DIR = ".opfs-quarantine";
+
+const PROBLEM_TYPES: Array<IntegrityProblem["type"]> = [
+  "corrupted",
+  "unrecorded",
+  "missing",
+  "orphaned",
+];
+const REPAIR_ACTIONS: RepairAction[] = ["repair", "quarantine"];
+
+/** Where "quarantine" puts `path` at `timestamp`. */
+export function quarantinePath(path: string, timestamp: number): string {
+  return joinPath(QUARANTINE_DIR, String(timestamp), path);
+}
+
+/** Throws INVALID_ARGUMENT unless `repair` was given something it can act on. */
+export function assertRepairable(problem: IntegrityProblem, action: RepairAction): void {
+  if (!PROBLEM_TYPES.includes(problem?.type) || typeof problem.path !== "string") {
+    throw new OPFSError("INVALID_ARGUMENT", "Not a problem reported by verify");
+  }
+  if (!REPAIR_ACTIONS.includes(action)) {
+    throw new OPFSError("INVALID_ARGUMENT", `Invalid repair action: ${action}`, problem.path);
+  }
+}
+
+export function problemNotFound(problem: IntegrityProblem): OPFSError {
+  return new OPFSError(
+    "NOT_FOUND",
+    `"${joinPath(problem.path)}" is no longer ${problem.type}`,
+    problem.path,
+  );
+}
+
+/**
+ * Why the entry `name` is an orphan, or null if it isn't one. `siblings`
+ * are the other names in its directory; `journals` the ids of journals
+ * still on disk, whose temps `init` will settle.
+ */
+export function orphanReason(
+  name: string,
+  siblings: Set<string>,
+  journals: Set<string>,
+): string | null {
+  const temp = /^\.(.+)\.([^.]+)\.tmp$/.exec(name);
+  if (temp && !journals.has(temp[2])) return "Left behind by a write that never finished";
+  const history = /^\.(.+)\.history$/.exec(name);
+  if (history && !siblings.has(history[1])) return "History of a file that no longer exists";
+  return null;
+}
+
+/** Problems in path order, so reports read like a listing. */
+export function sortProblems(problems: IntegrityProblem[]): IntegrityProblem[] {
+  return problems.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+}
+
+// ── Change Notifications ──────────────────────────────────────────────────────
+
+interface Watcher {
+  path: string;
+  recursive: boolean;
+  listener: ChangeListener;
+}
+
+function isWatched(path: string, watcher: Watcher): boolean {
+  if (path === watcher.path) return true;
+  const parent = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+  if (parent === watcher.path) return true;
+  return (
+    watcher.recursive &&
+    (watcher.path === "" || path.startsWith(`${watcher.path}/`))
+  );
+}
+
+export interface ChangeEmitter {
+  watch: IFileSystem["watch"];
+  emit(changes: OPFSChangeEvent[], origin: ChangeOrigin): void;
+}
+
+/** Subscriber registry behind every implementation's `watch`. */
+export function createChangeEmitter(): ChangeEmitter {
+  const watchers = new Set<Watcher>();
+  return {
+    watch(path, listener, options = {}) {
+      const watcher: Watcher = {
+        path: joinPath(path),
+        recursive: options.recursive ?? false,
+        listener,
+      };
+      watchers.add(watcher);
+      return () => {
+        watchers.delete(watcher);
+      };
+    },
+    emit(changes, origin) {
+      for (const event of changes) {
+        // Copy, so listeners may unsubscribe while being notified
+        for (const watcher of Array.from(watchers)) {
+          const affected =
+            isWatched(event.path, watcher) ||
+            (event.oldPath !== undefined && isWatched(event.oldPath, watcher));
+          if (!affected) continue;
+          try {
+            watcher.listener(event, origin);
+          } catch (err) {
+            // One failing subscriber must not starve the others
+            console.error("[OPFS] Change listener failed:", err);
+          }
+        }
+      }
+    },
+  };
+}
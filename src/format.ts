@@ -0,0 +1,79 @@
+import { OperationTrace, OPFSError, OPFSErrorCode } from "./OPFS";
+
+// ── Display Formatting ────────────────────────────────────────────────────────
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB", "TB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
+export function formatDate(timestamp: number | null): string {
+  if (timestamp === null) return "—";
+  return new Date(timestamp).toLocaleString([], {
+    hour12: false,
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms.toFixed(ms < 10 ? 1 : 0)} ms`;
+  return `${(ms / 1000).toFixed(1)} s`;
+}
+
+/** One log line for a traced call: what it did, how much, and where the time went. */
+export function describeTrace(trace: OperationTrace): string {
+  const parts = [trace.path ? `${trace.type} "${trace.path}"` : trace.type];
+  if (trace.bytesSent) parts.push(`${formatBytes(trace.bytesSent)} sent`);
+  if (trace.bytesReceived) parts.push(`${formatBytes(trace.bytesReceived)} received`);
+  parts.push(
+    trace.executionMs === undefined
+      ? formatDuration(trace.durationMs)
+      : `${formatDuration(trace.durationMs)} (locks ${formatDuration(
+          trace.queuedMs ?? 0,
+        )}, worker ${formatDuration(trace.executionMs)})`,
+  );
+  if (trace.errorCode) parts.push(`failed: ${trace.errorCode}`);
+  return parts.join(" · ");
+}
+
+// ── Error Messages ────────────────────────────────────────────────────────────
+
+const ERROR_HINTS: Record<OPFSErrorCode, string> = {
+  NOT_FOUND: "It no longer exists. Refresh the file list.",
+  ALREADY_EXISTS: "That name is already taken. Pick another one.",
+  CONFLICT: "It was changed elsewhere since you opened it.",
+  TYPE_MISMATCH: "A file and a folder were mixed up at that path.",
+  NOT_EMPTY: "The folder is not empty.",
+  QUOTA_EXCEEDED: "Storage is full. Delete some files and try again.",
+  LOCKED: "The file is busy in another tab. Try again in a moment.",
+  INVALID_NAME: 'That name is not allowed. Avoid "/", "." and "..".',
+  INVALID_ARGUMENT: "The request was invalid.",
+  PERMISSION_DENIED:
+    "Storage access was denied. Check site settings or leave private browsing.",
+  UNSUPPORTED: "This browser does not support that storage operation.",
+  INVALID_REQUEST: "The app is out of date. Reload the page.",
+  PROTOCOL_MISMATCH: "The app was updated. Reload the page.",
+  ABORTED: "The operation was cancelled.",
+  TIMEOUT: "Storage took too long to respond. Try again.",
+  WORKER_CRASHED: "The storage worker restarted. Try again.",
+  STORE_LOCKED: "Storage is locked. Unlock it with your passphrase.",
+  DECRYPTION_FAILED: "Wrong passphrase, or the encrypted data is damaged.",
+  CORRUPTED: "The stored data is damaged.",
+  UNKNOWN: "Something went wrong.",
+};
+
+/** Short, actionable text for a failed operation, suitable for a toast. */
+export function describeError(error: unknown): string {
+  if (error instanceof OPFSError) return ERROR_HINTS[error.code];
+  return ERROR_HINTS.UNKNOWN;
+}
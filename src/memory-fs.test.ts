@@ -0,0 +1,7 @@
+/**
+ * @jest-environment ./src/testing/web-environment.js
+ */
+import { createMemoryFileSystem } from "./memory-fs";
+import { describeFileSystemConformance } from "./testing/conformance";
+
+describeFileSystemConformance("memory", async () => createMemoryFileSystem());
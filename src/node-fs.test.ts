@@ -0,0 +1,24 @@
+/**
+ * @jest-environment ./src/testing/web-environment.js
+ */
+import { promises as fsp } from "fs";
+import { tmpdir } from "os";
+import * as nodePath from "path";
+import { createNodeFileSystem } from "./node-fs";
+import { describeFileSystemConformance } from "./testing/conformance";
+
+let rootDir: string | null = null;
+
+describeFileSystemConformance(
+  "node",
+  async () => {
+    rootDir = await fsp.mkdtemp(nodePath.join(tmpdir(), "opfs-conformance-"));
+    const fs = createNodeFileSystem(rootDir);
+    await fs.init();
+    return fs;
+  },
+  async () => {
+    if (rootDir) await fsp.rm(rootDir, { recursive: true, force: true });
+    rootDir = null;
+  },
+);
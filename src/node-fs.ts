@@ -0,0 +1,868 @@
+import { promises as fsp, Stats } from "fs";
+import * as nodePath from "path";
+import { checkEncryptionOptions } from "./encryption";
+import {
+  assertCompression,
+  assertDistinctPaths,
+  assertRange,
+  assertRepairable,
+  CachedFile,
+  CallOptions,
+  compareRevisions,
+  compressionRulesOf,
+  createCacheTracker,
+  createChangeEmitter,
+  createReadStream,
+  createWriteStream,
+  DEFAULT_MAX_REVISIONS,
+  historyName,
+  IFileSystem,
+  importResultOf,
+  isInternalName,
+  keepsHistory,
+  maxRevisionsOf,
+  nextRevisionId,
+  orphanReason,
+  parseRevisionId,
+  planImport,
+  problemNotFound,
+  quarantinePath,
+  revisionNotFound,
+  singleBackend,
+  sortProblems,
+  throwIfAborted,
+  toBytes,
+} from "./file-system";
+import {
+  assertTransferable,
+  compareEntries,
+  joinPath,
+  siblingPath,
+  splitParent,
+  splitPath,
+} from "./opfs-paths";
+import {
+  BinaryData,
+  CachePolicy,
+  OPFSChangeEvent,
+  OPFSEntry,
+  OPFSError,
+  OPFSErrorCode,
+  OPFSInitOptions,
+  OPFSRevision,
+  OPFSStat,
+  StorageInfo,
+  VerifyReport,
+  toOPFSError,
+  WriteCompression,
+} from "./opfs-protocol";
+import { createSearchIndexer } from "./search";
+import { createZip, readZip, ZipSource } from "./zip";
+
+// ── Node File System ──────────────────────────────────────────────────────────
+//
+// An `IFileSystem` over a real directory on disk, for tests and tooling that
+// run under Node. Every path stays inside `rootDir`; the shared path helpers
+// reject ".." before anything reaches `fs`.
+
+/** errno codes raised by `fs`, by error code. */
+const ERRNO_CODES: Record<string, OPFSErrorCode> = {
+  ENOENT: "NOT_FOUND",
+  EEXIST: "ALREADY_EXISTS",
+  ENOTEMPTY: "NOT_EMPTY",
+  EISDIR: "TYPE_MISMATCH",
+  ENOTDIR: "TYPE_MISMATCH",
+  ENOSPC: "QUOTA_EXCEEDED",
+  EDQUOT: "QUOTA_EXCEEDED",
+  EACCES: "PERMISSION_DENIED",
+  EPERM: "PERMISSION_DENIED",
+  EBUSY: "LOCKED",
+};
+
+function toNodeError(err: unknown, path: string): OPFSError {
+  const errno = (err as NodeJS.ErrnoException | null)?.code;
+  if (typeof errno === "string" && errno in ERRNO_CODES) {
+    return new OPFSError(ERRNO_CODES[errno], (err as Error).message, path);
+  }
+  return toOPFSError(err, path);
+}
+
+function versionOf(stats: Stats): string {
+  return `${stats.size}-${Math.floor(stats.mtimeMs)}`;
+}
+
+async function statOrNull(absolute: string): Promise<Stats | null> {
+  try {
+    return await fsp.stat(absolute);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+type PlannedOp =
+  | { type: "write"; path: string; data: BinaryData | string; created: boolean }
+  | { type: "delete"; path: string; absolute: string };
+
+/** The hidden sidecar directory beside a file that holds its revisions. */
+function historyDirOf(absolute: string): string {
+  return nodePath.join(
+    nodePath.dirname(absolute),
+    historyName(nodePath.basename(absolute)),
+  );
+}
+
+async function listRevisions(historyDir: string): Promise<OPFSRevision[]> {
+  let names: string[];
+  try {
+    names = await fsp.readdir(historyDir);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+  const revisions: OPFSRevision[] = [];
+  for (const name of names) {
+    const parsed = parseRevisionId(name);
+    if (!parsed) continue;
+    const { size } = await fsp.stat(nodePath.join(historyDir, name));
+    revisions.push({ id: name, size, lastModified: parsed.lastModified });
+  }
+  return revisions.sort(compareRevisions);
+}
+
+export function createNodeFileSystem(rootDir: string): IFileSystem {
+  const resolve = (segments: string[]) => nodePath.join(rootDir, ...segments);
+  let maxRevisions = DEFAULT_MAX_REVISIONS;
+  const changes = createChangeEmitter();
+  const caches = createCacheTracker();
+  // Cache directories written to since they were last trimmed
+  const pendingCaches = new Set<CachePolicy>();
+  const notify = (change: OPFSChangeEvent) => {
+    changes.emit([change], "local");
+    searchIndex.apply(change);
+    if (change.type === "deleted") return;
+    const policy = caches.policyFor(change.path);
+    if (policy) pendingCaches.add(policy);
+    if (change.kind === "file") caches.touch(change.path);
+  };
+  const notifyWrite = (path: string, created: boolean) =>
+    notify({ type: created ? "created" : "updated", kind: "file", path: joinPath(path) });
+
+  /**
+   * Walks `segments` one directory at a time so a missing or mistyped
+   * segment fails the same way it does in OPFS.
+   */
+  const getDirectory = async (segments: string[], create = false) => {
+    for (let i = 1; i <= segments.length; i++) {
+      const at = segments.slice(0, i);
+      const absolute = resolve(at);
+      const stats = await statOrNull(absolute);
+      if (!stats && create) {
+        await fsp.mkdir(absolute);
+        continue;
+      }
+      if (!stats) {
+        throw new OPFSError("NOT_FOUND", `"${at.join("/")}" does not exist`, at.join("/"));
+      }
+      if (!stats.isDirectory()) {
+        throw new OPFSError("TYPE_MISMATCH", `"${at.join("/")}" is not a directory`, at.join("/"));
+      }
+    }
+    return resolve(segments);
+  };
+
+  /** Absolute path of the entry at `path`, with its parent resolved first. */
+  const resolveEntry = async (path: string, create = false) => {
+    const [segments, name] = splitParent(path);
+    const parent = await getDirectory(segments, create);
+    const absolute = nodePath.join(parent, name);
+    return { absolute, stats: await statOrNull(absolute) };
+  };
+
+  const getEntry = async (path: string) => {
+    const { absolute, stats } = await resolveEntry(path);
+    if (!stats) {
+      throw new OPFSError("NOT_FOUND", `"${joinPath(path)}" does not exist`, path);
+    }
+    return { absolute, stats };
+  };
+
+  /** Resolves a file, creating it (and its parents) with `create`; reports which. */
+  const openFile = async (
+    path: string,
+    create = false,
+  ): Promise<[string, boolean]> => {
+    const { absolute, stats } = await resolveEntry(path, create);
+    if (!stats && create) {
+      await fsp.writeFile(absolute, new Uint8Array(0));
+      return [absolute, true];
+    }
+    if (!stats) {
+      throw new OPFSError("NOT_FOUND", `"${joinPath(path)}" does not exist`, path);
+    }
+    if (!stats.isFile()) {
+      throw new OPFSError("TYPE_MISMATCH", `"${joinPath(path)}" is a directory`, path);
+    }
+    return [absolute, false];
+  };
+
+  const getFile = async (path: string) => (await openFile(path))[0];
+
+  const statEntry = (stats: Stats, path: string): OPFSStat => {
+    const [, name] = splitParent(path);
+    if (stats.isDirectory()) {
+      return {
+        name,
+        path,
+        kind: "directory",
+        size: 0,
+        storedSize: 0,
+        lastModified: null,
+        version: null,
+      };
+    }
+    return {
+      name,
+      path,
+      kind: "file",
+      size: stats.size,
+      storedSize: stats.size,
+      lastModified: Math.floor(stats.mtimeMs),
+      version: versionOf(stats),
+    };
+  };
+
+  const prepareTransfer = async (from: string, to: string) => {
+    assertTransferable(from, to);
+    const source = await getEntry(from);
+    const target = await resolveEntry(to, true);
+    if (target.stats) {
+      throw new OPFSError("ALREADY_EXISTS", `"${joinPath(to)}" already exists`, to);
+    }
+    const kind: OPFSEntry["kind"] = source.stats.isDirectory() ? "directory" : "file";
+    return { source: source.absolute, target: target.absolute, kind };
+  };
+
+  /** Validates a whole-file write in a transaction against what's there now. */
+  const planWrite = async (
+    path: string,
+    data: BinaryData | string,
+    expectedVersion?: string,
+    compression?: WriteCompression,
+  ): Promise<PlannedOp> => {
+    assertCompression(compression, path);
+    const { stats } = await resolveEntry(path).catch((err) => {
+      if (err instanceof OPFSError && err.code === "NOT_FOUND") return { stats: null };
+      throw err;
+    });
+    if (stats?.isDirectory()) {
+      throw new OPFSError("TYPE_MISMATCH", `"${joinPath(path)}" is a directory`, path);
+    }
+    if (expectedVersion !== undefined) {
+      if (!stats) {
+        throw new OPFSError("NOT_FOUND", `"${joinPath(path)}" does not exist`, path);
+      }
+      if (versionOf(stats) !== expectedVersion) {
+        throw new OPFSError(
+          "CONFLICT",
+          `"${joinPath(path)}" changed since it was read`,
+          path,
+        );
+      }
+    }
+    return { type: "write", path: joinPath(path), data, created: !stats };
+  };
+
+  /**
+   * Copies the current contents of an existing file into its history,
+   * dropping the oldest revisions beyond `maxRevisions`.
+   */
+  const recordRevision = async (path: string, absolute: string) => {
+    if (maxRevisions <= 0 || !keepsHistory(path)) return;
+    const historyDir = historyDirOf(absolute);
+    const stats = await fsp.stat(absolute);
+    await fsp.mkdir(historyDir, { recursive: true });
+    const id = nextRevisionId(await listRevisions(historyDir), stats.mtimeMs);
+    await fsp.copyFile(absolute, nodePath.join(historyDir, id));
+    for (const stale of (await listRevisions(historyDir)).slice(maxRevisions)) {
+      await fsp.rm(nodePath.join(historyDir, stale.id), { force: true });
+    }
+  };
+
+  const getRevision = async (path: string, revisionId: string) => {
+    const historyDir = historyDirOf(await getFile(path));
+    const revision = nodePath.join(historyDir, revisionId);
+    if (!parseRevisionId(revisionId) || !(await statOrNull(revision))) {
+      throw revisionNotFound(path, revisionId);
+    }
+    return revision;
+  };
+
+  const searchIndex = createSearchIndexer({
+    async read(path) {
+      const absolute = resolve(splitPath(path));
+      const stats = await statOrNull(absolute);
+      if (!stats?.isFile()) return null;
+      return { version: versionOf(stats), data: new Blob([await fsp.readFile(absolute)]) };
+    },
+    async files(path) {
+      const files: Array<{ path: string; version: string }> = [];
+      const walk = async (segments: string[]) => {
+        const stats = await statOrNull(resolve(segments));
+        if (stats?.isFile()) {
+          files.push({ path: joinPath(...segments), version: versionOf(stats) });
+        } else if (stats?.isDirectory()) {
+          for (const name of (await fsp.readdir(resolve(segments))).sort()) {
+            if (!name.startsWith(".")) await walk([...segments, name]);
+          }
+        }
+      };
+      await walk(splitPath(path));
+      return files;
+    },
+  });
+
+  /** Bytes in the files at or under `absolute`, hidden ones included. */
+  const sizeOf = async (absolute: string): Promise<number> => {
+    const stats = await fsp.stat(absolute);
+    if (!stats.isDirectory()) return stats.size;
+    let size = 0;
+    for (const name of await fsp.readdir(absolute)) {
+      size += await sizeOf(nodePath.join(absolute, name));
+    }
+    return size;
+  };
+
+  /** Every file below `segments` outside hidden files and directories. */
+  const visibleFiles = async (segments: string[]): Promise<CachedFile[]> => {
+    const files: CachedFile[] = [];
+    const walk = async (at: string[]) => {
+      for (const name of await fsp.readdir(resolve(at))) {
+        if (name.startsWith(".")) continue;
+        const child = [...at, name];
+        const stats = await fsp.stat(resolve(child));
+        if (stats.isDirectory()) await walk(child);
+        else {
+          files.push({
+            path: joinPath(...child),
+            size: stats.size,
+            lastModified: Math.floor(stats.mtimeMs),
+          });
+        }
+      }
+    };
+    await walk(segments);
+    return files;
+  };
+
+  /** Evicts from every cache directory written to since the last trim. */
+  const trimCaches = async () => {
+    const policies = Array.from(pendingCaches);
+    pendingCaches.clear();
+    for (const policy of policies) {
+      const segments = splitPath(policy.path);
+      if (!(await statOrNull(resolve(segments)))?.isDirectory()) continue;
+      const files = await visibleFiles(segments);
+      for (const path of caches.evictions(policy, files)) {
+        const absolute = resolve(splitPath(path));
+        await fsp.rm(absolute, { force: true });
+        await fsp.rm(historyDirOf(absolute), { recursive: true, force: true });
+        notify({ type: "deleted", kind: "file", path });
+      }
+    }
+  };
+
+  /**
+   * Checks the signal, then runs `task` with `fs` errors mapped to codes.
+   * Caches the task wrote to are trimmed before it resolves.
+   */
+  const run = async <T>(
+    operation: string,
+    path: string,
+    options: CallOptions,
+    task: () => Promise<T>,
+  ): Promise<T> => {
+    throwIfAborted(operation, options.signal);
+    try {
+      const result = await task();
+      if (pendingCaches.size > 0) await trimCaches();
+      return result;
+    } catch (err) {
+      throw toNodeError(err, path);
+    }
+  };
+
+  function list(
+    path?: string,
+    options?: { withStats?: false } & CallOptions,
+  ): Promise<OPFSEntry[]>;
+  function list(path: string, options: { withStats: true } & CallOptions): Promise<OPFSStat[]>;
+  function list(
+    path = "",
+    options: { withStats?: boolean } & CallOptions = {},
+  ): Promise<OPFSEntry[] | OPFSStat[]> {
+    return run("list", path, options, async () => {
+      const directory = await getDirectory(splitPath(path));
+      const entries: OPFSEntry[] = [];
+      for (const dirent of await fsp.readdir(directory, { withFileTypes: true })) {
+        if (dirent.name.startsWith(".")) continue;
+        const entryPath = joinPath(path, dirent.name);
+        entries.push(
+          options.withStats
+            ? statEntry(await fsp.stat(nodePath.join(directory, dirent.name)), entryPath)
+            : {
+                name: dirent.name,
+                path: entryPath,
+                kind: dirent.isDirectory() ? "directory" : "file",
+              },
+        );
+      }
+      return entries.sort(compareEntries);
+    });
+  }
+
+  const fs: IFileSystem = {
+    async init(options: OPFSInitOptions & CallOptions = {}) {
+      return run("init", "", options, async () => {
+        const backend = singleBackend(options, "node");
+        maxRevisions = maxRevisionsOf(options);
+        caches.configure(options);
+        // Checked like the worker does, but files are written as they are
+        compressionRulesOf(options);
+        if (options.encryption) checkEncryptionOptions(options.encryption);
+        await fsp.mkdir(rootDir, { recursive: true });
+        return backend;
+      });
+    },
+
+    /** Contents are never encrypted here, so there's nothing to lock. */
+    lock(options = {}) {
+      return run("lock", "", options, async () => undefined);
+    },
+
+    list,
+
+    stat(path, options = {}) {
+      return run("stat", path, options, async () => {
+        const { stats } = await getEntry(path);
+        return statEntry(stats, joinPath(path));
+      });
+    },
+
+    create(path, content, options = {}) {
+      return run("create", path, options, async () => {
+        assertCompression(options.compression, path);
+        const { absolute, stats } = await resolveEntry(path, true);
+        if (stats && !options.overwrite) {
+          throw new OPFSError("ALREADY_EXISTS", `"${joinPath(path)}" already exists`, path);
+        }
+        if (stats?.isDirectory()) {
+          throw new OPFSError("TYPE_MISMATCH", `"${joinPath(path)}" is a directory`, path);
+        }
+        if (stats) await recordRevision(path, absolute);
+        await fsp.writeFile(absolute, content);
+        notifyWrite(path, !stats);
+        return joinPath(path);
+      });
+    },
+
+    read(path, options = {}) {
+      return run("read", path, options, async () => {
+        const content = await fsp.readFile(await getFile(path), "utf8");
+        caches.touch(path);
+        return content;
+      });
+    },
+
+    readVersioned(path, options = {}) {
+      return run("readVersioned", path, options, async () => {
+        const absolute = await getFile(path);
+        const content = await fsp.readFile(absolute, "utf8");
+        caches.touch(path);
+        return { content, version: versionOf(await fsp.stat(absolute)) };
+      });
+    },
+
+    update(path, content, options = {}) {
+      return run("update", path, options, async () => {
+        assertCompression(options.compression, path);
+        const absolute = await getFile(path);
+        if (
+          options.expectedVersion !== undefined &&
+          options.expectedVersion !== versionOf(await fsp.stat(absolute))
+        ) {
+          throw new OPFSError(
+            "CONFLICT",
+            `"${joinPath(path)}" changed since it was read`,
+            path,
+          );
+        }
+        await recordRevision(path, absolute);
+        await fsp.writeFile(absolute, content);
+        notifyWrite(path, false);
+        return versionOf(await fsp.stat(absolute));
+      });
+    },
+
+    delete(path, options = {}) {
+      return run("delete", path, options, async () => {
+        const absolute = await getFile(path);
+        await fsp.unlink(absolute);
+        await fsp.rm(historyDirOf(absolute), { recursive: true, force: true });
+        notify({ type: "deleted", kind: "file", path: joinPath(path) });
+      });
+    },
+
+    mkdir(path, options = {}) {
+      return run("mkdir", path, options, async () => {
+        const segments = splitPath(path);
+        const existed = await getDirectory(segments).then(
+          () => true,
+          () => false,
+        );
+        await getDirectory(segments, true);
+        if (!existed) notify({ type: "created", kind: "directory", path: joinPath(path) });
+        return joinPath(path);
+      });
+    },
+
+    rmdir(path, options = {}) {
+      return run("rmdir", path, options, async () => {
+        const { absolute, stats } = await getEntry(path);
+        if (!stats.isDirectory()) {
+          throw new OPFSError("TYPE_MISMATCH", `"${joinPath(path)}" is not a directory`, path);
+        }
+        if (options.recursive) {
+          await fsp.rm(absolute, { recursive: true });
+        } else {
+          await fsp.rmdir(absolute);
+        }
+        notify({ type: "deleted", kind: "directory", path: joinPath(path) });
+      });
+    },
+
+    readBytes(path, options = {}) {
+      return run("readBytes", path, options, async () => {
+        const buffer = await fsp.readFile(await getFile(path));
+        caches.touch(path);
+        return new Uint8Array(buffer).slice().buffer;
+      });
+    },
+
+    writeBytes(path, data, options = {}) {
+      return run("writeBytes", path, options, async () => {
+        assertCompression(options.compression, path);
+        const bytes = await toBytes(data);
+        const [absolute, created] = await openFile(path, true);
+        if (!created) await recordRevision(path, absolute);
+        await fsp.writeFile(absolute, bytes);
+        notifyWrite(path, created);
+      });
+    },
+
+    readRange(path, offset, length, options = {}) {
+      return run("readRange", path, options, async () => {
+        assertRange(offset, length);
+        const handle = await fsp.open(await getFile(path), "r");
+        try {
+          const available = Math.max(0, (await handle.stat()).size - offset);
+          const buffer = new Uint8Array(Math.min(length, available));
+          const { bytesRead } = await handle.read(buffer, 0, buffer.byteLength, offset);
+          caches.touch(path);
+          return buffer.slice(0, bytesRead).buffer;
+        } finally {
+          await handle.close();
+        }
+      });
+    },
+
+    writeAt(path, offset, data, options = {}) {
+      return run("writeAt", path, options, async () => {
+        assertRange(offset, 0);
+        const bytes = await toBytes(data);
+        // "r+" rather than "a": positional writes are ignored in append mode
+        const [absolute, created] = await openFile(path, true);
+        const handle = await fsp.open(absolute, "r+");
+        try {
+          const { bytesWritten } = await handle.write(bytes, 0, bytes.byteLength, offset);
+          notifyWrite(path, created);
+          return bytesWritten;
+        } finally {
+          await handle.close();
+        }
+      });
+    },
+
+    append(path, data, options = {}) {
+      return run("append", path, options, async () => {
+        const bytes = await toBytes(data);
+        const [absolute, created] = await openFile(path, true);
+        await fsp.appendFile(absolute, bytes);
+        notifyWrite(path, created);
+        return (await fsp.stat(absolute)).size;
+      });
+    },
+
+    readStream(path, options) {
+      return createReadStream(fs, path, options);
+    },
+
+    writeStream(path, options) {
+      return createWriteStream(fs, path, options);
+    },
+
+    rename(path, newName, options = {}) {
+      return run("rename", path, options, () =>
+        fs.move(path, siblingPath(path, newName), options),
+      );
+    },
+
+    move(from, to, options = {}) {
+      return run("move", from, options, async () => {
+        const { source, target, kind } = await prepareTransfer(from, to);
+        await fsp.rename(source, target);
+        if (kind === "file" && (await statOrNull(historyDirOf(source)))) {
+          await fsp.rm(historyDirOf(target), { recursive: true, force: true });
+          await fsp.rename(historyDirOf(source), historyDirOf(target));
+        }
+        notify({ type: "renamed", kind, path: joinPath(to), oldPath: joinPath(from) });
+        return joinPath(to);
+      });
+    },
+
+    copy(from, to, options = {}) {
+      return run("copy", from, options, async () => {
+        const { source, target, kind } = await prepareTransfer(from, to);
+        await fsp.cp(source, target, { recursive: true, errorOnExist: true });
+        notify({ type: "created", kind, path: joinPath(to) });
+        return joinPath(to);
+      });
+    },
+
+    /**
+     * Validates every op, stages writes in hidden temp files, then renames
+     * them into place. Each file is replaced atomically, but unlike the OPFS
+     * worker there is no journal to finish the batch after a crash.
+     */
+    transaction(ops, options = {}) {
+      return run("transaction", "", options, async () => {
+        assertDistinctPaths(ops);
+        const planned: PlannedOp[] = [];
+        for (const op of ops) {
+          planned.push(
+            op.type === "write"
+              ? await planWrite(op.path, op.content, op.expectedVersion, op.compression)
+              : { type: "delete", path: joinPath(op.path), absolute: await getFile(op.path) },
+          );
+        }
+
+        const staged: Array<{
+          path: string;
+          temp: string;
+          absolute: string;
+          created: boolean;
+        }> = [];
+        try {
+          for (const op of planned) {
+            if (op.type !== "write") continue;
+            const { absolute } = await resolveEntry(op.path, true);
+            const temp = nodePath.join(
+              nodePath.dirname(absolute),
+              `.${nodePath.basename(absolute)}.${process.pid}-${staged.length}.tmp`,
+            );
+            await fsp.writeFile(temp, await toBytes(op.data));
+            staged.push({ path: op.path, temp, absolute, created: op.created });
+          }
+        } catch (err) {
+          await Promise.all(staged.map(({ temp }) => fsp.rm(temp, { force: true })));
+          throw err;
+        }
+
+        for (const { path, temp, absolute, created } of staged) {
+          if (!created) await recordRevision(path, absolute);
+          await fsp.rename(temp, absolute);
+        }
+        for (const op of planned) {
+          if (op.type === "write") {
+            notifyWrite(op.path, op.created);
+          } else {
+            await fsp.unlink(op.absolute);
+            await fsp.rm(historyDirOf(op.absolute), { recursive: true, force: true });
+            notify({ type: "deleted", kind: "file", path: op.path });
+          }
+        }
+      });
+    },
+
+    history(path, options = {}) {
+      return run("history", path, options, async () =>
+        listRevisions(historyDirOf(await getFile(path))),
+      );
+    },
+
+    readRevision(path, revisionId, options = {}) {
+      return run("readRevision", path, options, async () =>
+        fsp.readFile(await getRevision(path, revisionId), "utf8"),
+      );
+    },
+
+    restore(path, revisionId, options = {}) {
+      return run("restore", path, options, async () => {
+        const contents = await fsp.readFile(await getRevision(path, revisionId));
+        const absolute = await getFile(path);
+        await recordRevision(path, absolute);
+        await fsp.writeFile(absolute, contents);
+        notifyWrite(path, false);
+        return versionOf(await fsp.stat(absolute));
+      });
+    },
+
+    exportArchive(options = {}) {
+      return run("exportArchive", "", options, async () => {
+        const entries: ZipSource[] = [];
+        const walk = async (segments: string[]) => {
+          const dirents = await fsp.readdir(resolve(segments), { withFileTypes: true });
+          dirents.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+          for (const dirent of dirents) {
+            if (isInternalName(dirent.name)) continue;
+            const at = [...segments, dirent.name];
+            const stats = await fsp.stat(resolve(at));
+            const lastModified = Math.floor(stats.mtimeMs);
+            if (stats.isDirectory()) {
+              entries.push({ path: joinPath(...at), kind: "directory", lastModified });
+              await walk(at);
+            } else {
+              const data = new Blob([await fsp.readFile(resolve(at))]);
+              entries.push({ path: joinPath(...at), kind: "file", lastModified, data });
+            }
+          }
+        };
+        await walk([]);
+        return createZip(entries, { compress: options.compress ?? true });
+      });
+    },
+
+    /**
+     * Files are written one at a time once the whole import is planned;
+     * their modification times are carried over from the archive.
+     */
+    importArchive(archive, options = {}) {
+      return run("importArchive", "", options, async () => {
+        const plan = await planImport(
+          await readZip(archive),
+          async (path) => {
+            const { stats } = await resolveEntry(path);
+            return stats ? (stats.isDirectory() ? "directory" : "file") : null;
+          },
+          options.onConflict ?? "fail",
+        );
+        for (const path of plan.directories) {
+          await getDirectory(splitPath(path), true);
+          notify({ type: "created", kind: "directory", path });
+        }
+        for (const { item, path } of plan.files) {
+          const bytes = await toBytes(await item.read());
+          const [absolute, created] = await openFile(path, true);
+          if (!created) await recordRevision(path, absolute);
+          await fsp.writeFile(absolute, bytes);
+          const modified = new Date(item.lastModified);
+          await fsp.utimes(absolute, modified, modified);
+          notifyWrite(path, created);
+        }
+        return importResultOf(plan);
+      });
+    },
+
+    search(query, options = {}) {
+      return run("search", "", options, () =>
+        searchIndex.search(query, options.limit),
+      );
+    },
+
+    /** Files on disk count as persisted; there's no quota to report. */
+    storageInfo(options = {}) {
+      return run("storageInfo", "", options, async () => {
+        const info: StorageInfo = { usage: await sizeOf(rootDir), quota: null, persisted: true };
+        if (options.byDirectory) {
+          info.directories = [];
+          const names = (await fsp.readdir(rootDir, { withFileTypes: true }))
+            .filter((dirent) => dirent.isDirectory() && !dirent.name.startsWith("."))
+            .map((dirent) => dirent.name)
+            .sort();
+          for (const name of names) {
+            info.directories.push({ path: name, size: await sizeOf(nodePath.join(rootDir, name)) });
+          }
+          let size = 0;
+          (await visibleFiles([])).forEach((file) => (size += file.size));
+          info.files = { size, storedSize: size };
+        }
+        return info;
+      });
+    },
+
+    /**
+     * Node keeps no checksums, so this only counts files and looks for
+     * leftovers: temps of commits that died halfway, history with no file.
+     */
+    verify(path = "", options = {}) {
+      return run("verify", path, options, async () => {
+        const report: VerifyReport = { checked: 0, problems: [] };
+        const visit = async (at: string[], stats: Stats, siblings: Set<string>) => {
+          const name = at[at.length - 1];
+          if (name !== undefined && isInternalName(name)) {
+            // Commits here keep no journal, so any temp on disk is abandoned
+            const reason = orphanReason(name, siblings, new Set());
+            if (reason) {
+              report.problems.push({ type: "orphaned", path: joinPath(...at), message: reason });
+            }
+          } else if (stats.isDirectory()) {
+            const names = await fsp.readdir(resolve(at));
+            for (const child of names) {
+              const childAt = [...at, child];
+              await visit(childAt, await fsp.stat(resolve(childAt)), new Set(names));
+            }
+          } else {
+            report.checked++;
+          }
+        };
+        const segments = splitPath(path);
+        if (segments.length === 0) {
+          await visit([], await fsp.stat(rootDir), new Set());
+        } else {
+          const { absolute, stats } = await getEntry(path);
+          const siblings = await fsp.readdir(nodePath.dirname(absolute));
+          await visit(segments, stats, new Set(siblings));
+        }
+        sortProblems(report.problems);
+        return report;
+      });
+    },
+
+    repair(problem, action, options = {}) {
+      return run("repair", problem?.path ?? "", options, async () => {
+        assertRepairable(problem, action);
+        const path = joinPath(problem.path);
+        const found =
+          problem.type === "orphaned" &&
+          (await fs.verify(path).catch(() => null))?.problems.some(
+            (other) => other.type === "orphaned" && other.path === path,
+          );
+        if (!found) throw problemNotFound(problem);
+        const { absolute } = await getEntry(path);
+        if (action === "repair") {
+          await fsp.rm(absolute, { recursive: true, force: true });
+        } else {
+          const target = resolve(splitPath(quarantinePath(path, Date.now())));
+          await fsp.mkdir(nodePath.dirname(target), { recursive: true });
+          await fsp.rename(absolute, target);
+        }
+      });
+    },
+
+    watch(path, listener, options) {
+      return changes.watch(path, listener, options);
+    },
+  };
+
+  return fs;
+}
@@ -0,0 +1,192 @@
+import React, { Suspense } from "react";
+import { act, render, renderHook, screen, waitFor } from "@testing-library/react";
+import type { IFileSystem } from "./file-system";
+import { createMemoryFileSystem } from "./memory-fs";
+import { OPFSError } from "./opfs-protocol";
+import {
+  OPFSProvider,
+  useDirectory,
+  useFile,
+  useFileSystem,
+  useMutation,
+} from "./opfs-hooks";
+
+// The provider defaults to the worker; these tests hand it a memory file system
+jest.mock("./opfs-worker-factory", () => ({ spawnOPFSWorker: jest.fn() }));
+
+describe("OPFS hooks", () => {
+  let fs: IFileSystem;
+  let wrapper: React.FC<{ children?: React.ReactNode }>;
+
+  beforeEach(async () => {
+    fs = createMemoryFileSystem();
+    await fs.init();
+    wrapper = ({ children }) => <OPFSProvider fs={fs}>{children}</OPFSProvider>;
+  });
+
+  it("loads a file and a directory listing", async () => {
+    await fs.create("docs/a.txt", "hello");
+    const { result } = renderHook(
+      () => ({ file: useFile("docs/a.txt"), directory: useDirectory("docs") }),
+      { wrapper },
+    );
+    expect(result.current.file.isLoading).toBe(true);
+    await waitFor(() => expect(result.current.file.data?.content).toBe("hello"));
+    await waitFor(() =>
+      expect(result.current.directory.data?.map((entry) => entry.name)).toEqual(["a.txt"]),
+    );
+    expect(result.current.file.isFetching).toBe(false);
+  });
+
+  it("shares one load between components asking for the same path", async () => {
+    await fs.create("a.txt", "hello");
+    const readVersioned = jest.spyOn(fs, "readVersioned");
+    const { result } = renderHook(() => [useFile("a.txt"), useFile("/a.txt/")], { wrapper });
+    await waitFor(() => expect(result.current[1].data?.content).toBe("hello"));
+    expect(result.current[0].data).toBe(result.current[1].data);
+    expect(readVersioned).toHaveBeenCalledTimes(1);
+  });
+
+  it("refreshes what's shown when the file system changes", async () => {
+    await fs.create("a.txt", "hello");
+    const { result } = renderHook(
+      () => ({ file: useFile("a.txt"), root: useDirectory("") }),
+      { wrapper },
+    );
+    await waitFor(() => expect(result.current.file.data?.content).toBe("hello"));
+    await waitFor(() => expect(result.current.root.data).toHaveLength(1));
+
+    await act(() => fs.update("a.txt", "changed"));
+    await waitFor(() => expect(result.current.file.data?.content).toBe("changed"));
+
+    await act(() => fs.create("b.txt", ""));
+    await waitFor(() => expect(result.current.root.data).toHaveLength(2));
+
+    await act(() => fs.delete("a.txt"));
+    await waitFor(() => expect(result.current.file.error?.code).toBe("NOT_FOUND"));
+    expect(result.current.file.data).toBeUndefined();
+  });
+
+  it("shows optimistic updates and rolls them back on failure", async () => {
+    await fs.create("a.txt", "hello");
+    const { result } = renderHook(
+      () => ({
+        file: useFile("a.txt"),
+        save: useMutation(
+          (fs, { content, version }: { content: string; version: string }) =>
+            fs.update("a.txt", content, { expectedVersion: version }),
+          { optimistic: ({ content }, cache) => cache.setFile("a.txt", content) },
+        ),
+      }),
+      { wrapper },
+    );
+    await waitFor(() => expect(result.current.file.data?.content).toBe("hello"));
+    const { version } = result.current.file.data!;
+
+    let saving!: Promise<unknown>;
+    act(() => {
+      saving = result.current.save.mutate({ content: "draft", version });
+    });
+    expect(result.current.file.data?.content).toBe("draft");
+    expect(result.current.save.isPending).toBe(true);
+    await act(() => saving);
+    expect(result.current.save.isPending).toBe(false);
+    await waitFor(() => expect(result.current.file.data?.content).toBe("draft"));
+
+    // The version is stale now, so the same write conflicts
+    await act(async () => {
+      await expect(
+        result.current.save.mutate({ content: "lost", version }),
+      ).rejects.toMatchObject({ code: "CONFLICT" });
+    });
+    expect(result.current.save.error?.code).toBe("CONFLICT");
+    expect(result.current.file.data?.content).toBe("draft");
+
+    act(() => result.current.save.reset());
+    expect(result.current.save.error).toBeUndefined();
+  });
+
+  it("suspends until the first load finishes", async () => {
+    await fs.create("a.txt", "hello");
+    const Content = () => <p>{useFile("a.txt", { suspense: true }).data!.content}</p>;
+    render(
+      <OPFSProvider fs={fs}>
+        <Suspense fallback={<p>Loading</p>}>
+          <Content />
+        </Suspense>
+      </OPFSProvider>,
+    );
+    expect(screen.getByText("Loading")).toBeTruthy();
+    await screen.findByText("hello");
+  });
+
+  it("forgets contents on lock and loads them again after init", async () => {
+    await fs.create("a.txt", "top secret");
+    let locked = false;
+    const lockable: IFileSystem = {
+      ...fs,
+      lock: async () => void (locked = true),
+      init: async () => {
+        locked = false;
+        return "memory";
+      },
+      readVersioned: (path, options) =>
+        locked
+          ? Promise.reject(new OPFSError("STORE_LOCKED", "Storage is locked"))
+          : fs.readVersioned(path, options),
+    };
+    const { result } = renderHook(
+      () => ({ file: useFile("a.txt"), fs: useFileSystem() }),
+      { wrapper: ({ children }) => <OPFSProvider fs={lockable}>{children}</OPFSProvider> },
+    );
+    await waitFor(() => expect(result.current.file.data?.content).toBe("top secret"));
+
+    await act(() => result.current.fs.lock());
+    expect(result.current.file.data).toBeUndefined();
+    await waitFor(() => expect(result.current.file.error?.code).toBe("STORE_LOCKED"));
+
+    await act(async () => void (await result.current.fs.init()));
+    await waitFor(() => expect(result.current.file.data?.content).toBe("top secret"));
+  });
+
+  it("tries a failed load again for the next component to ask", async () => {
+    await fs.create("a.txt", "hello");
+    const readVersioned = jest
+      .spyOn(fs, "readVersioned")
+      .mockRejectedValueOnce(new OPFSError("LOCKED", "File is in use"));
+    const { result, rerender } = renderHook(
+      ({ second }) => [useFile("a.txt"), useFile(second ? "a.txt" : null)],
+      { wrapper, initialProps: { second: false } },
+    );
+    await waitFor(() => expect(result.current[0].error?.code).toBe("LOCKED"));
+
+    rerender({ second: true });
+    await waitFor(() => expect(result.current[0].data?.content).toBe("hello"));
+    expect(result.current[1].data?.content).toBe("hello");
+    expect(readVersioned).toHaveBeenCalledTimes(2);
+  });
+
+  it("drops entries nothing shows any more", async () => {
+    await fs.create("a.txt", "hello");
+    const readVersioned = jest.spyOn(fs, "readVersioned");
+    const { result, rerender } = renderHook(({ path }) => useFile(path), {
+      wrapper,
+      initialProps: { path: "a.txt" as string | null },
+    });
+    await waitFor(() => expect(result.current.data?.content).toBe("hello"));
+    rerender({ path: null });
+    await new Promise((resolve) => setTimeout(resolve));
+
+    rerender({ path: "a.txt" });
+    await waitFor(() => expect(result.current.data?.content).toBe("hello"));
+    expect(readVersioned).toHaveBeenCalledTimes(2);
+  });
+
+  it("loads nothing for a null path and refuses to run outside a provider", () => {
+    const { result } = renderHook(() => useFile(null), { wrapper });
+    expect(result.current).toMatchObject({ data: undefined, isLoading: false });
+
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    expect(() => renderHook(() => useDirectory(""))).toThrow(/OPFSProvider/);
+  });
+});
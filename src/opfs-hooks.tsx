@@ -0,0 +1,441 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import type { IFileSystem } from "./file-system";
+import { joinPath, splitParent } from "./opfs-paths";
+import {
+  OPFSChangeEvent,
+  OPFSError,
+  OPFSStat,
+  toOPFSError,
+  VersionedContent,
+} from "./opfs-protocol";
+import { OPFSFileSystem } from "./OPFS";
+
+// ── React Bindings ────────────────────────────────────────────────────────────
+//
+// `OPFSProvider` holds one cache of directory listings and file reads for
+// everything below it. Components asking for the same path share an entry,
+// and a load already in flight is shared rather than repeated. Change
+// events (from this tab or another) refetch what's on screen and drop the
+// rest, so nothing needs refreshing by hand after a write. Entries go once
+// nothing shows them, and all of them on `init` or `lock`, so nothing
+// decrypted outlives the key.
+
+export interface ResourceState<T> {
+  data: T | undefined;
+  error: OPFSError | undefined;
+  /** Loading with nothing to show yet. Refetches keep showing the old data. */
+  isLoading: boolean;
+  /** Any load running, refetches included. */
+  isFetching: boolean;
+}
+
+export interface ResourceResult<T> extends ResourceState<T> {
+  /** Loads again, even if nothing changed. */
+  refresh: () => Promise<void>;
+}
+
+export interface ResourceOptions {
+  /**
+   * Suspends the component until the first load finishes, and throws its
+   * error to the nearest error boundary, so `data` is always there.
+   */
+  suspense?: boolean;
+}
+
+type ResourceKind = "directory" | "file";
+
+interface CacheEntry {
+  kind: ResourceKind;
+  path: string;
+  state: ResourceState<unknown>;
+  promise: Promise<unknown> | null;
+  load: () => Promise<unknown>;
+  listeners: Set<() => void>;
+  /** Bumped by every load and local write; older loads don't land. */
+  generation: number;
+}
+
+const IDLE: ResourceState<never> = {
+  data: undefined,
+  error: undefined,
+  isLoading: false,
+  isFetching: false,
+};
+
+function isWithin(path: string, directory: string): boolean {
+  return directory === "" || path === directory || path.startsWith(`${directory}/`);
+}
+
+function parentOf(path: string): string {
+  const [segments] = splitParent(path);
+  return joinPath(...segments);
+}
+
+// ── Resource Cache ────────────────────────────────────────────────────────────
+
+interface ResourceCache {
+  /** The entry for `kind` at `path`, created with `load` the first time. */
+  entry(kind: ResourceKind, path: string, load: () => Promise<unknown>): CacheEntry;
+  subscribe(entry: CacheEntry, listener: () => void): () => void;
+  /** The running load, or a new one; `force` starts over regardless. */
+  fetch(entry: CacheEntry, force?: boolean): Promise<unknown>;
+  /** Replaces what `entry` holds without loading, e.g. optimistically. */
+  set(entry: CacheEntry, state: ResourceState<unknown>): void;
+  find(kind: ResourceKind, path: string): CacheEntry | undefined;
+  handleChange(event: OPFSChangeEvent): void;
+  /** Forgets everything; what's on screen loads again from scratch. */
+  reset(): void;
+}
+
+function keyOf(kind: ResourceKind, path: string): string {
+  return `${kind}:${path}`;
+}
+
+function createResourceCache(): ResourceCache {
+  const entries = new Map<string, CacheEntry>();
+
+  const update = (entry: CacheEntry, state: ResourceState<unknown>) => {
+    entry.state = state;
+    // Copy, so listeners may unsubscribe while being notified
+    Array.from(entry.listeners).forEach((listener) => listener());
+  };
+
+  const cache: ResourceCache = {
+    entry(kind, path, load) {
+      const key = keyOf(kind, path);
+      let entry = entries.get(key);
+      if (!entry) {
+        entry = { kind, path, state: IDLE, promise: null, load, listeners: new Set(), generation: 0 };
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+
+    subscribe(entry, listener) {
+      entry.listeners.add(listener);
+      // A failed load gets another try from whoever asks next
+      const { data, error } = entry.state;
+      if ((data === undefined || error !== undefined) && !entry.promise) {
+        cache.fetch(entry).catch(() => undefined);
+      }
+      return () => {
+        entry.listeners.delete(listener);
+        // Later, so a component that resubscribes right away keeps its entry
+        setTimeout(() => {
+          const key = keyOf(entry.kind, entry.path);
+          if (entry.listeners.size === 0 && entries.get(key) === entry) entries.delete(key);
+        });
+      };
+    },
+
+    fetch(entry, force = false) {
+      if (entry.promise && !force) return entry.promise;
+      const generation = ++entry.generation;
+      const landed = () => entry.generation === generation;
+      update(entry, {
+        ...entry.state,
+        isLoading: entry.state.data === undefined,
+        isFetching: true,
+      });
+      const promise = entry.load().then(
+        (data) => {
+          if (landed()) {
+            entry.promise = null;
+            update(entry, { data, error: undefined, isLoading: false, isFetching: false });
+          }
+          return data;
+        },
+        (err) => {
+          const error = toOPFSError(err);
+          if (landed()) {
+            entry.promise = null;
+            update(entry, { data: undefined, error, isLoading: false, isFetching: false });
+          }
+          throw error;
+        },
+      );
+      entry.promise = promise;
+      return promise;
+    },
+
+    set(entry, state) {
+      entry.generation++;
+      entry.promise = null;
+      update(entry, state);
+    },
+
+    find(kind, path) {
+      return entries.get(keyOf(kind, path));
+    },
+
+    handleChange(event) {
+      const paths = [event.path];
+      if (event.oldPath !== undefined) paths.push(event.oldPath);
+      const removesTree = event.kind === "directory" && event.type !== "created";
+      entries.forEach((entry, key) => {
+        const affected = paths.some(
+          (path) =>
+            entry.path === path ||
+            (entry.kind === "directory" && entry.path === parentOf(path)) ||
+            (removesTree && isWithin(entry.path, path)),
+        );
+        if (!affected) return;
+        if (entry.listeners.size > 0) {
+          cache.fetch(entry, true).catch(() => undefined);
+        } else {
+          entries.delete(key);
+        }
+      });
+    },
+
+    reset() {
+      entries.forEach((entry, key) => {
+        if (entry.listeners.size === 0) {
+          entries.delete(key);
+          return;
+        }
+        cache.set(entry, IDLE);
+        cache.fetch(entry, true).catch(() => undefined);
+      });
+    },
+  };
+  return cache;
+}
+
+// ── Provider ──────────────────────────────────────────────────────────────────
+
+interface OPFSContextValue {
+  fs: IFileSystem;
+  cache: ResourceCache;
+}
+
+const OPFSContext = createContext<OPFSContextValue | null>(null);
+
+/** `fs`, resetting `cache` after every `init` and `lock`, failed ones too. */
+function resettingOnInit(fs: IFileSystem, cache: ResourceCache): IFileSystem {
+  return {
+    ...fs,
+    async init(options) {
+      try {
+        return await fs.init(options);
+      } finally {
+        cache.reset();
+      }
+    },
+    async lock(options) {
+      try {
+        await fs.lock(options);
+      } finally {
+        cache.reset();
+      }
+    },
+  };
+}
+
+export interface OPFSProviderProps {
+  /** Default: the OPFS worker. Any `IFileSystem` will do, e.g. in tests. */
+  fs?: IFileSystem;
+  children?: React.ReactNode;
+}
+
+/**
+ * Makes `fs` and a shared cache of its contents available to the hooks
+ * below. Initializing `fs` is still up to the app, through `useFileSystem`
+ * so the cache starts over; hooks given a path before then fail like any
+ * other call would, and load again once something asks.
+ */
+export const OPFSProvider: React.FC<OPFSProviderProps> = ({
+  fs = OPFSFileSystem,
+  children,
+}) => {
+  const value = useMemo(() => {
+    const cache = createResourceCache();
+    return { fs: resettingOnInit(fs, cache), cache };
+  }, [fs]);
+
+  useEffect(
+    () => fs.watch("", (event) => value.cache.handleChange(event), { recursive: true }),
+    [fs, value],
+  );
+
+  return <OPFSContext.Provider value={value}>{children}</OPFSContext.Provider>;
+};
+
+function useOPFSContext(): OPFSContextValue {
+  const value = useContext(OPFSContext);
+  if (!value) throw new Error("OPFS hooks must be used inside <OPFSProvider>");
+  return value;
+}
+
+/**
+ * The provider's file system, for calls the hooks don't cover. Its `init`
+ * and `lock` also reset the cache.
+ */
+export function useFileSystem(): IFileSystem {
+  return useOPFSContext().fs;
+}
+
+// ── Hooks ─────────────────────────────────────────────────────────────────────
+
+function useResource<T>(
+  kind: ResourceKind,
+  path: string | null,
+  load: (fs: IFileSystem, path: string) => Promise<T>,
+  { suspense = false }: ResourceOptions,
+): ResourceResult<T> {
+  const { fs, cache } = useOPFSContext();
+  const normalized = path === null ? null : joinPath(path);
+  const entry = useMemo(
+    () =>
+      normalized === null
+        ? null
+        : cache.entry(kind, normalized, () => load(fs, normalized)),
+    // `load` is one of the module's own loaders, fixed per kind
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [cache, fs, kind, normalized],
+  );
+  const subscribe = useCallback(
+    (listener: () => void) => (entry ? cache.subscribe(entry, listener) : () => undefined),
+    [cache, entry],
+  );
+  const getSnapshot = () => (entry ? entry.state : IDLE) as ResourceState<T>;
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+  const refresh = useCallback(async () => {
+    if (entry) await cache.fetch(entry, true).catch(() => undefined);
+  }, [cache, entry]);
+
+  if (suspense && entry) {
+    if (state.error) throw state.error;
+    if (state.data === undefined) throw cache.fetch(entry).catch(() => undefined);
+  }
+  return { ...state, refresh };
+}
+
+const listDirectory = (fs: IFileSystem, path: string) => fs.list(path, { withStats: true });
+const readFile = (fs: IFileSystem, path: string) => fs.readVersioned(path);
+
+/** The entries of the directory at `path`, with stats; null loads nothing. */
+export function useDirectory(
+  path: string | null,
+  options: ResourceOptions = {},
+): ResourceResult<OPFSStat[]> {
+  return useResource("directory", path, listDirectory, options);
+}
+
+/** The contents and version of the file at `path`; null loads nothing. */
+export function useFile(
+  path: string | null,
+  options: ResourceOptions = {},
+): ResourceResult<VersionedContent> {
+  return useResource("file", path, readFile, options);
+}
+
+/** What a mutation may change in the cache ahead of its result. */
+export interface OptimisticCache {
+  /** Shows `content` as the file's until the write lands or fails. */
+  setFile(path: string, content: string): void;
+  /** Rewrites a cached listing; does nothing if it isn't cached. */
+  setDirectory(path: string, update: (entries: OPFSStat[]) => OPFSStat[]): void;
+}
+
+export interface MutationOptions<V, R> {
+  /**
+   * Applied before the mutation runs and rolled back if it fails. Once it
+   * succeeds, change events bring in what was actually written.
+   */
+  optimistic?: (variables: V, cache: OptimisticCache) => void;
+  onSuccess?: (result: R, variables: V) => void;
+  onError?: (error: OPFSError, variables: V) => void;
+}
+
+export interface MutationResult<V, R> {
+  /** Runs the mutation; rejects with its error, which `error` also holds. */
+  mutate: (variables: V) => Promise<R>;
+  data: R | undefined;
+  error: OPFSError | undefined;
+  isPending: boolean;
+  reset: () => void;
+}
+
+/**
+ * Wraps a write, e.g. `useMutation((fs, { path, content }) =>
+ * fs.update(path, content))`, with pending and error state.
+ */
+export function useMutation<V, R>(
+  mutation: (fs: IFileSystem, variables: V) => Promise<R>,
+  options: MutationOptions<V, R> = {},
+): MutationResult<V, R> {
+  const { fs, cache } = useOPFSContext();
+  const [state, setState] = useState<{
+    data: R | undefined;
+    error: OPFSError | undefined;
+    pending: number;
+  }>({ data: undefined, error: undefined, pending: 0 });
+  // The latest callbacks, without making `mutate` change identity
+  const latest = useRef({ mutation, options });
+  latest.current = { mutation, options };
+
+  const mutate = useCallback(
+    async (variables: V) => {
+      const { mutation: run, options: current } = latest.current;
+      const touched = new Map<CacheEntry, ResourceState<unknown>>();
+      const write = (entry: CacheEntry, data: unknown) => {
+        if (!touched.has(entry)) touched.set(entry, entry.state);
+        cache.set(entry, { ...entry.state, data, error: undefined, isLoading: false });
+      };
+      current.optimistic?.(variables, {
+        setFile(path, content) {
+          const entry = cache.entry("file", joinPath(path), () =>
+            readFile(fs, joinPath(path)),
+          );
+          const previous = entry.state.data as VersionedContent | undefined;
+          write(entry, { content, version: previous?.version ?? "" });
+        },
+        setDirectory(path, update) {
+          const entry = cache.find("directory", joinPath(path));
+          if (entry?.state.data) write(entry, update(entry.state.data as OPFSStat[]));
+        },
+      });
+
+      setState((previous) => ({ ...previous, error: undefined, pending: previous.pending + 1 }));
+      try {
+        const result = await run(fs, variables);
+        setState((previous) => ({ ...previous, data: result, pending: previous.pending - 1 }));
+        current.onSuccess?.(result, variables);
+        return result;
+      } catch (err) {
+        const error = toOPFSError(err);
+        touched.forEach((state, entry) => {
+          cache.set(entry, state);
+          if (entry.listeners.size > 0) cache.fetch(entry, true).catch(() => undefined);
+        });
+        setState((previous) => ({ ...previous, error, pending: previous.pending - 1 }));
+        current.onError?.(error, variables);
+        throw error;
+      }
+    },
+    [cache, fs],
+  );
+
+  const reset = useCallback(
+    () => setState((previous) => ({ ...previous, data: undefined, error: undefined })),
+    [],
+  );
+
+  return {
+    mutate,
+    data: state.data,
+    error: state.error,
+    isPending: state.pending > 0,
+    reset,
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * @jest-environment ./src/testing/web-environment.js
+ */
+import { createLockManager, LockManager, LockMode, retryOnContention } from "./opfs-locks";
+
+const contention = () =>
+  new DOMException("Access handle is already open", "NoModificationAllowedError");
+
+// Lets every queued grant settle
+const settle = () => new Promise((resolve) => setTimeout(resolve));
+
+describe("path lock manager", () => {
+  let locks: LockManager;
+  let events: string[];
+
+  beforeEach(() => {
+    locks = createLockManager();
+    events = [];
+  });
+
+  /** Acquires, noting when it's granted; resolves with the release. */
+  const take = (name: string, paths: string[], mode: LockMode, signal?: AbortSignal) =>
+    locks.acquire(paths, mode, signal).then((release) => {
+      events.push(name);
+      return release;
+    });
+
+  it("runs shared locks side by side and exclusive ones alone", async () => {
+    const readA = take("read a", ["a.txt"], "shared");
+    const readB = take("read a again", ["a.txt"], "shared");
+    const write = take("write a", ["a.txt"], "exclusive");
+    const other = take("write b", ["b.txt"], "exclusive");
+    await settle();
+    expect(events).toEqual(["read a", "read a again", "write b"]);
+
+    (await readA)();
+    await settle();
+    expect(events).toHaveLength(3);
+    (await readB)();
+    await settle();
+    expect(events).toEqual(["read a", "read a again", "write b", "write a"]);
+    (await write)();
+    (await other)();
+  });
+
+  it("treats a directory as overlapping everything under it", async () => {
+    const write = take("write file", ["docs/a/b.txt"], "exclusive");
+    take("remove dir", ["docs"], "exclusive");
+    take("remove sibling", ["docsx"], "exclusive");
+    take("list root", [""], "shared");
+    await settle();
+    expect(events).toEqual(["write file", "remove sibling"]);
+
+    (await write)();
+    await settle();
+    expect(events).toEqual(["write file", "remove sibling", "remove dir"]);
+  });
+
+  it("grants conflicting requests in arrival order", async () => {
+    const first = take("first write", ["a.txt"], "exclusive");
+    const second = take("read", ["a.txt"], "shared");
+    const third = take("second write", ["a.txt"], "exclusive");
+    // Compatible with the read, but queued behind a writer that isn't
+    const fourth = take("late read", ["a.txt"], "shared");
+    await settle();
+    expect(events).toEqual(["first write"]);
+
+    (await first)();
+    await settle();
+    expect(events).toEqual(["first write", "read"]);
+    (await second)();
+    await settle();
+    expect(events).toEqual(["first write", "read", "second write"]);
+    (await third)();
+    await settle();
+    expect(events).toEqual(["first write", "read", "second write", "late read"]);
+    (await fourth)();
+  });
+
+  it("leaves the queue when aborted while waiting", async () => {
+    const held = take("held", ["a.txt"], "exclusive");
+    const controller = new AbortController();
+    const aborted = take("aborted", ["a.txt"], "exclusive", controller.signal);
+    const behind = take("behind", ["a.txt"], "shared");
+    await settle();
+
+    controller.abort(new Error("gave up"));
+    await expect(aborted).rejects.toThrow("gave up");
+    (await held)();
+    await settle();
+    expect(events).toEqual(["held", "behind"]);
+
+    // Already aborted: never queued at all
+    await expect(locks.acquire(["b.txt"], "shared", controller.signal)).rejects.toThrow(
+      "gave up",
+    );
+    (await behind)();
+  });
+
+  it("releases the lock when the task fails, and only once", async () => {
+    await expect(
+      locks.withLock(["a.txt"], "exclusive", async () => {
+        throw new Error("failed");
+      }),
+    ).rejects.toThrow("failed");
+
+    const release = await locks.acquire(["a.txt"], "exclusive");
+    const next = take("next", ["a.txt"], "exclusive");
+    release();
+    release();
+    (await next)();
+    await expect(locks.withLock(["a.txt"], "shared", async () => "ran")).resolves.toBe("ran");
+  });
+});
+
+describe("retryOnContention", () => {
+  const options = { retries: 4, baseDelayMs: 1, maxDelayMs: 4 };
+
+  // resetMocks would leave the spied timers stubbed out for the next test
+  afterEach(() => jest.restoreAllMocks());
+
+  it("retries contention with capped exponential backoff", async () => {
+    jest.spyOn(Math, "random").mockReturnValue(1);
+    const setTimeoutSpy = jest.spyOn(global, "setTimeout");
+    let attempts = 0;
+    const task = async () => {
+      if (++attempts <= 4) throw contention();
+      return "opened";
+    };
+
+    await expect(retryOnContention(task, options)).resolves.toBe("opened");
+    expect(attempts).toBe(5);
+    expect(setTimeoutSpy.mock.calls.map(([, delay]) => delay)).toEqual([1, 2, 4, 4]);
+  });
+
+  it("gives up after the configured retries", async () => {
+    const task = jest.fn(async () => {
+      throw contention();
+    });
+    await expect(
+      retryOnContention(task, { ...options, retries: 2 }),
+    ).rejects.toMatchObject({ name: "NoModificationAllowedError" });
+    expect(task).toHaveBeenCalledTimes(3);
+
+    task.mockClear();
+    await expect(
+      retryOnContention(task, { ...options, retries: 0 }),
+    ).rejects.toMatchObject({ name: "NoModificationAllowedError" });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't retry other errors", async () => {
+    const task = jest.fn(async () => {
+      throw new DOMException("Gone", "NotFoundError");
+    });
+    await expect(retryOnContention(task, options)).rejects.toMatchObject({
+      name: "NotFoundError",
+    });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,153 @@
+// ── Path Lock Manager ─────────────────────────────────────────────────────────
+//
+// The worker handles messages concurrently, but OPFS only allows one sync
+// access handle per file at a time. Every operation therefore takes a lock
+// on the paths it touches before running: shared locks (reads) run side by
+// side, exclusive locks (writes) wait for everything overlapping them.
+// Paths overlap when one is equal to, or an ancestor of, the other, so an
+// `rmdir("a")` also waits for a write to "a/b.txt" and vice versa.
+
+export type LockMode = "shared" | "exclusive";
+
+type Release = () => void;
+
+interface Waiter {
+  paths: string[];
+  mode: LockMode;
+  grant: () => void;
+}
+
+export interface LockManager {
+  /**
+   * Resolves with a release function once all `paths` are available.
+   * Aborting `signal` while still queued rejects and leaves the queue.
+   */
+  acquire(paths: string[], mode: LockMode, signal?: AbortSignal): Promise<Release>;
+  withLock<T>(
+    paths: string[],
+    mode: LockMode,
+    task: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T>;
+}
+
+function pathsOverlap(a: string, b: string): boolean {
+  return (
+    a === b || a === "" || b === "" || a.startsWith(`${b}/`) || b.startsWith(`${a}/`)
+  );
+}
+
+function conflicts(a: Waiter, b: Waiter): boolean {
+  if (a.mode === "shared" && b.mode === "shared") return false;
+  return a.paths.some((p) => b.paths.some((q) => pathsOverlap(p, q)));
+}
+
+/**
+ * Requests are granted in arrival order among those that conflict, so a
+ * steady stream of readers can't starve a writer queued behind them.
+ */
+export function createLockManager(): LockManager {
+  const held = new Set<Waiter>();
+  const waiting: Waiter[] = [];
+
+  const drain = () => {
+    for (let i = 0; i < waiting.length; i++) {
+      const waiter = waiting[i];
+      const blocked =
+        Array.from(held).some((lock) => conflicts(lock, waiter)) ||
+        waiting.slice(0, i).some((earlier) => conflicts(earlier, waiter));
+      if (!blocked) {
+        waiting.splice(i--, 1);
+        held.add(waiter);
+        waiter.grant();
+      }
+    }
+  };
+
+  const acquire = (paths: string[], mode: LockMode, signal?: AbortSignal) =>
+    new Promise<Release>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      let released = false;
+      const onAbort = () => {
+        const index = waiting.indexOf(waiter);
+        if (index === -1) return; // already granted
+        waiting.splice(index, 1);
+        drain(); // whoever queued behind us may be free now
+        reject(signal?.reason);
+      };
+      const waiter: Waiter = {
+        paths,
+        mode,
+        grant: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(() => {
+            if (released) return;
+            released = true;
+            held.delete(waiter);
+            drain();
+          });
+        },
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      waiting.push(waiter);
+      drain();
+    });
+
+  return {
+    acquire,
+    async withLock(paths, mode, task, signal) {
+      const release = await acquire(paths, mode, signal);
+      try {
+        return await task();
+      } finally {
+        release();
+      }
+    },
+  };
+}
+
+// ── Contention Retry ──────────────────────────────────────────────────────────
+//
+// The lock manager only coordinates this worker. Another tab's worker can
+// still hold a sync access handle on the same file, which surfaces as a
+// NoModificationAllowedError; those are retried with exponential backoff.
+
+export interface RetryOptions {
+  /** Attempts after the first one before giving up. */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 6,
+  baseDelayMs: 10,
+  maxDelayMs: 500,
+};
+
+function isContention(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "NoModificationAllowedError";
+}
+
+export async function retryOnContention<T>(
+  task: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      if (!isContention(err) || attempt >= options.retries) throw err;
+      // Jittered so competing tabs do not retry in lockstep
+      const ceiling = Math.min(
+        options.maxDelayMs,
+        options.baseDelayMs * 2 ** attempt,
+      );
+      const delay = ceiling / 2 + (Math.random() * ceiling) / 2;
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import {
+  OPFSError,
+  OPFSErrorCode,
+  OPFSRequest,
+  pathOf,
+  RequestType,
+  toOPFSError,
+} from "./opfs-protocol";
+
+// ── Middleware ────────────────────────────────────────────────────────────────
+//
+// Every call the page sends the worker runs through the registered
+// middleware: `before` hooks in the order they were added, then the call,
+// then `after` or `error` hooks in reverse order, so each middleware wraps
+// the ones added after it. Every call is traced along the way; the worker
+// reports its share of the time with the reply.
+
+export interface OperationTrace {
+  type: RequestType;
+  /** The path the call is about; the source for moves and copies. */
+  path?: string;
+  /** When the call was made, in ms since the epoch. */
+  startedAt: number;
+  /** File contents sent and received: strings as UTF-8, buffers as is. */
+  bytesSent: number;
+  bytesReceived: number;
+  /**
+   * Time the worker spent waiting for locks held by other calls, then
+   * running this one. Missing when it never answered: cancelled, timed
+   * out, or crashed.
+   */
+  queuedMs?: number;
+  executionMs?: number;
+  /** From the call to its result, as the caller saw it. */
+  durationMs: number;
+  /** Set when the call failed. */
+  errorCode?: OPFSErrorCode;
+}
+
+export interface CallContext {
+  readonly request: OPFSRequest;
+  /** Filled in as the call runs; complete by the time `after` or `error` sees it. */
+  readonly trace: OperationTrace;
+}
+
+export interface OPFSMiddleware {
+  /** Runs before the request is sent. Throwing fails the call with that error. */
+  before?(context: CallContext): void | Promise<void>;
+  after?(context: CallContext, result: unknown): void;
+  /** Runs for failed calls, if this middleware's `before` ran. */
+  error?(context: CallContext, error: OPFSError): void;
+}
+
+export interface MiddlewareChain {
+  /** Adds `middleware` after the others; returns a function that removes it. */
+  add(middleware: OPFSMiddleware): () => void;
+  /** Runs `call` for `request` through every middleware added so far. */
+  run<T>(request: OPFSRequest, call: (context: CallContext) => Promise<T>): Promise<T>;
+}
+
+const now = () =>
+  typeof performance !== "undefined" ? performance.now() : Date.now();
+
+/** Bytes of UTF-8 `text` encodes to, without encoding it. */
+function utf8Length(text: string): number {
+  let length = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 0x80) length += 1;
+    else if (code < 0x800) length += 2;
+    // A surrogate pair is one four-byte code point
+    else if (code >= 0xd800 && code < 0xdc00 && i + 1 < text.length) {
+      length += 4;
+      i++;
+    } else length += 3;
+  }
+  return length;
+}
+
+function sizeOf(data: unknown): number {
+  if (typeof data === "string") return utf8Length(data);
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) return data.byteLength;
+  if (typeof Blob !== "undefined" && data instanceof Blob) return data.size;
+  return 0;
+}
+
+/** File contents a request carries. Taken before sending transfers them away. */
+function bytesSent(request: OPFSRequest): number {
+  switch (request.type) {
+    case "create":
+    case "update":
+      return sizeOf(request.content);
+    case "writeBytes":
+    case "writeAt":
+    case "append":
+      return sizeOf(request.data);
+    case "importArchive":
+      return sizeOf(request.archive);
+    case "transaction":
+      return request.ops.reduce(
+        (total, op) => total + (op.type === "write" ? sizeOf(op.content) : 0),
+        0,
+      );
+    default:
+      return 0;
+  }
+}
+
+/** File contents in the result of a `type` request. */
+function bytesReceived(type: RequestType, result: unknown): number {
+  switch (type) {
+    case "read":
+    case "readRevision":
+    case "readBytes":
+    case "readRange":
+    case "exportArchive":
+      return sizeOf(result);
+    case "readVersioned":
+      return sizeOf((result as { content?: unknown } | undefined)?.content);
+    default:
+      return 0;
+  }
+}
+
+/** Hooks observe; one that throws is reported, not allowed to fail the call. */
+function runHook(hook: () => void): void {
+  try {
+    hook();
+  } catch (err) {
+    console.error("[OPFS] Middleware hook failed:", err);
+  }
+}
+
+export function createMiddlewareChain(): MiddlewareChain {
+  const chain: OPFSMiddleware[] = [];
+
+  return {
+    add(middleware) {
+      chain.push(middleware);
+      return () => {
+        const index = chain.indexOf(middleware);
+        if (index !== -1) chain.splice(index, 1);
+      };
+    },
+
+    async run<T>(request: OPFSRequest, call: (context: CallContext) => Promise<T>) {
+      const trace: OperationTrace = {
+        type: request.type,
+        path: pathOf(request),
+        startedAt: Date.now(),
+        bytesSent: bytesSent(request),
+        bytesReceived: 0,
+        durationMs: 0,
+      };
+      const context: CallContext = { request, trace };
+      const start = now();
+      // Only those whose `before` ran see the outcome, innermost first
+      const entered: OPFSMiddleware[] = [];
+
+      let result: T;
+      try {
+        for (const middleware of chain.slice()) {
+          entered.unshift(middleware);
+          await middleware.before?.(context);
+        }
+        result = await call(context);
+      } catch (err) {
+        const error = toOPFSError(err);
+        trace.errorCode = error.code;
+        trace.durationMs = now() - start;
+        entered.forEach((middleware) => runHook(() => middleware.error?.(context, error)));
+        throw error;
+      }
+      trace.bytesReceived = bytesReceived(request.type, result);
+      trace.durationMs = now() - start;
+      entered.forEach((middleware) => runHook(() => middleware.after?.(context, result)));
+      return result;
+    },
+  };
+}
+
+/**
+ * Built-in middleware handing the trace of every finished call, failed
+ * ones included, to `sink`: a log, a metrics exporter, a test.
+ */
+export function createTracing(sink: (trace: OperationTrace) => void): OPFSMiddleware {
+  return {
+    after: ({ trace }) => sink(trace),
+    error: ({ trace }) => sink(trace),
+  };
+}
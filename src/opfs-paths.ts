@@ -0,0 +1,91 @@
+import { OPFSError } from "./opfs-protocol";
+
+// ── Path Helpers ──────────────────────────────────────────────────────────────
+//
+// Shared by the worker and the alternative IFileSystem backends so every
+// implementation accepts and rejects exactly the same paths.
+
+/**
+ * Splits a slash-separated path into its segments. Leading, trailing and
+ * repeated slashes are ignored, so "/a//b/" and "a/b" are equivalent. The
+ * empty path refers to the root directory.
+ */
+export function splitPath(path: string): string[] {
+  const segments = path.split("/").filter((segment) => segment.length > 0);
+  for (const segment of segments) {
+    if (!isValidName(segment)) {
+      throw new OPFSError(
+        "INVALID_NAME",
+        `Invalid path segment "${segment}" in "${path}"`,
+        path,
+      );
+    }
+  }
+  return segments;
+}
+
+export function joinPath(...parts: string[]): string {
+  return parts.flatMap(splitPath).join("/");
+}
+
+/** Names OPFS refuses: the relative segments and anything with a separator. */
+export function isValidName(name: string): boolean {
+  return (
+    name.length > 0 &&
+    name !== "." &&
+    name !== ".." &&
+    !name.includes("/") &&
+    !name.includes("\\")
+  );
+}
+
+/**
+ * Splits `path` into its parent's segments and its own name. The root has
+ * no name, so it is rejected.
+ */
+export function splitParent(path: string): [string[], string] {
+  const segments = splitPath(path);
+  const name = segments.pop();
+  if (!name) {
+    throw new OPFSError(
+      "INVALID_NAME",
+      "Path must name a file or directory, not the root",
+      path,
+    );
+  }
+  return [segments, name];
+}
+
+/** Path of the entry `newName` would get as a sibling of `path`. */
+export function siblingPath(path: string, newName: string): string {
+  if (!isValidName(newName)) {
+    throw new OPFSError("INVALID_NAME", `Invalid name: "${newName}"`, path);
+  }
+  const [parent] = splitParent(path);
+  return joinPath(...parent, newName);
+}
+
+/**
+ * Checks that `to` is a legal destination for moving or copying `from`;
+ * a directory can't be placed at or inside itself.
+ */
+export function assertTransferable(from: string, to: string): void {
+  const source = joinPath(from);
+  const target = joinPath(to);
+  if (target === source || target.startsWith(`${source}/`)) {
+    throw new OPFSError(
+      "INVALID_ARGUMENT",
+      `Cannot move or copy "${source}" into "${target}"`,
+      source,
+    );
+  }
+}
+
+/** Directories first, then files, each group alphabetical. */
+export function compareEntries(
+  a: { name: string; kind: "file" | "directory" },
+  b: { name: string; kind: "file" | "directory" },
+): number {
+  if (a.kind !== b.kind) return a.kind === "directory" ? -1 : 1;
+  return a.name.localeCompare(b.name);
+}
@@ -0,0 +1,135 @@
+/**
+ * @jest-environment ./src/testing/web-environment.js
+ */
+import {
+  OPFSError,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  toOPFSError,
+  validateRequest,
+  validateResponse,
+} from "./opfs-protocol";
+
+const id = "c1";
+
+describe("validateRequest", () => {
+  it("accepts well-formed requests of every shape", () => {
+    const requests = [
+      { correlationId: id, type: "init", protocolVersion: PROTOCOL_VERSION, options: {} },
+      { correlationId: id, type: "update", path: "a.txt", content: "x" },
+      { correlationId: id, type: "writeAt", path: "a.bin", offset: 0, data: new Uint8Array(2) },
+      {
+        correlationId: id,
+        type: "transaction",
+        ops: [
+          { type: "write", path: "a.txt", content: "x", expectedVersion: "v1" },
+          { type: "delete", path: "b.txt" },
+        ],
+      },
+      { correlationId: id, type: "lock" },
+    ];
+    for (const request of requests) expect(validateRequest(request)).toBe(request);
+  });
+
+  it("rejects anything that isn't a request", () => {
+    expect(() => validateRequest(null)).toThrow(ProtocolError);
+    expect(() => validateRequest("read a.txt")).toThrow("Request must be an object");
+    expect(() => validateRequest({ type: "read", path: "a.txt" })).toThrow(
+      "Request is missing a correlationId",
+    );
+    expect(() => validateRequest({ correlationId: id, type: "format" })).toThrow(
+      "Unknown message type: format",
+    );
+    // Inherited properties aren't request types
+    expect(() => validateRequest({ correlationId: id, type: "toString" })).toThrow(
+      "Unknown message type",
+    );
+  });
+
+  it("rejects fields of the wrong type", () => {
+    expect(() => validateRequest({ correlationId: id, type: "read" })).toThrow(
+      'Invalid "read" request: "path" must be string',
+    );
+    expect(() =>
+      validateRequest({ correlationId: id, type: "readRange", path: "a", offset: NaN, length: 1 }),
+    ).toThrow('"offset" must be number');
+    expect(() =>
+      validateRequest({ correlationId: id, type: "update", path: "a", content: "x", expectedVersion: 1 }),
+    ).toThrow('"expectedVersion" must be optionalString');
+    expect(() =>
+      validateRequest({
+        correlationId: id,
+        type: "transaction",
+        ops: [{ type: "rename", path: "a.txt" }],
+      }),
+    ).toThrow('"ops" must be transactionOps');
+    expect(() =>
+      validateRequest({ correlationId: id, type: "init", protocolVersion: 1, options: [] }),
+    ).toThrow('"options" must be object');
+  });
+
+  it("passes unknown fields through untouched", () => {
+    const request = { correlationId: id, type: "read", path: "a.txt", hint: "from a newer page" };
+    expect(validateRequest(request)).toEqual(request);
+  });
+
+  it("reports failures as INVALID_REQUEST", () => {
+    expect(() => validateRequest({})).toThrow(
+      expect.objectContaining({ name: "ProtocolError" }),
+    );
+    const error = toOPFSError(new ProtocolError("Request must be an object"));
+    expect(error).toBeInstanceOf(OPFSError);
+    expect(error.code).toBe("INVALID_REQUEST");
+  });
+});
+
+describe("validateResponse", () => {
+  it("accepts successes and failures, with or without timing", () => {
+    const responses = [
+      { correlationId: id, ok: true, data: undefined },
+      { correlationId: id, ok: true, data: "x", timing: { queuedMs: 0, executionMs: 1.5 } },
+      { correlationId: id, ok: false, error: "Gone", code: "NOT_FOUND", path: "a.txt" },
+    ];
+    for (const response of responses) expect(validateResponse(response)).toBe(response);
+  });
+
+  it("rejects malformed responses", () => {
+    expect(() => validateResponse(undefined)).toThrow("Response is missing a correlationId");
+    expect(() => validateResponse({ ok: true, data: 1 })).toThrow(
+      "Response is missing a correlationId",
+    );
+    // A success must carry data, even if undefined
+    expect(() => validateResponse({ correlationId: id, ok: true })).toThrow(
+      "Malformed response for request c1",
+    );
+    expect(() =>
+      validateResponse({ correlationId: id, ok: false, error: "Boom", code: "EXPLODED" }),
+    ).toThrow("Malformed response for request c1");
+    expect(() => validateResponse({ correlationId: id, ok: false, code: "UNKNOWN" })).toThrow(
+      "Malformed response",
+    );
+    expect(() => validateResponse({ correlationId: id, ok: "yes", data: 1 })).toThrow(
+      "Malformed response",
+    );
+  });
+
+  it("rejects a bad timing payload", () => {
+    const timings = [
+      null,
+      "1ms",
+      { queuedMs: 1 },
+      { queuedMs: "1", executionMs: 2 },
+      { queuedMs: 1, executionMs: Infinity },
+    ];
+    for (const timing of timings) {
+      expect(() => validateResponse({ correlationId: id, ok: true, data: 1, timing })).toThrow(
+        "Malformed timing in response c1",
+      );
+    }
+  });
+
+  it("passes unknown fields through untouched", () => {
+    const response = { correlationId: id, ok: true, data: 1, servedBy: "worker-2" };
+    expect(validateResponse(response)).toEqual(response);
+  });
+});
@@ -0,0 +1,614 @@
+// ── Message Protocol ──────────────────────────────────────────────────────────
+//
+// Shared by the main thread (OPFS.ts) and the worker (opfs.worker.ts). Bump
+// PROTOCOL_VERSION whenever a message shape changes incompatibly: both sides
+// compare it during `init`, so a page talking to a stale cached worker (or
+// the reverse) fails loudly instead of misbehaving.
+
+export const PROTOCOL_VERSION = 14;
+
+/** Buffers are transferred across the worker boundary; Blobs are cloned by reference. */
+export type BinaryData = ArrayBuffer | Uint8Array | Blob;
+
+export interface OPFSInitOptions {
+  /**
+   * Backoff for sync access handles held by another tab. Operations within
+   * one worker are already serialized per path and never contend.
+   */
+  retry?: { retries?: number; baseDelayMs?: number; maxDelayMs?: number };
+  /**
+   * Prior revisions kept per file (default 10); 0 turns history off. Older
+   * revisions are dropped as new ones are recorded.
+   */
+  history?: { maxRevisions?: number };
+  /** Directories used as bounded caches; see `CachePolicy`. */
+  caches?: CachePolicy[];
+  /**
+   * Unlocks (or, the first time, turns on) encryption of file contents at
+   * rest; see `EncryptionOptions`. Once a store is encrypted, `init`
+   * without it fails with STORE_LOCKED.
+   */
+  encryption?: EncryptionOptions;
+  /** Directories whose files are compressed when written; see `CompressionRule`. */
+  compression?: CompressionRule[];
+  /**
+   * Keep files in this backend instead of the best one available; `init`
+   * fails with UNSUPPORTED if it isn't available here.
+   */
+  backend?: StorageBackend;
+}
+
+/**
+ * Where files are kept. The worker uses the first of these that works:
+ * "opfs" (sync access handles), "opfs-async" (OPFS through writable
+ * streams), "indexeddb", then "memory", which is gone on reload (or when
+ * the worker crashes). "node" is the disk under createNodeFileSystem.
+ */
+export type StorageBackend = "opfs" | "opfs-async" | "indexeddb" | "memory" | "node";
+
+/** How `CompressionStream` packs contents at rest. */
+export type CompressionFormat = "gzip" | "deflate";
+
+/**
+ * Per-write choice: a format, or "none" to store the contents as they are.
+ * Left out, a write under a `CompressionRule` uses the rule's format, and
+ * any other write keeps the format the file already has.
+ */
+export type WriteCompression = CompressionFormat | "none";
+
+/**
+ * Compresses whole-file writes to anything under `path` (a file or a
+ * directory) that don't ask otherwise. Only the OPFS worker compresses;
+ * the in-memory and Node backends accept the option and store contents
+ * as they are. Reads decompress transparently either way.
+ */
+export interface CompressionRule {
+  path: string;
+  /** Default "gzip". */
+  format?: CompressionFormat;
+}
+
+/**
+ * AES-GCM key for file contents, either derived from a passphrase with
+ * PBKDF2 (salted per store) or supplied directly. Only the OPFS worker
+ * encrypts; the in-memory and Node backends accept it and store plain
+ * contents. Files written before encryption was turned on stay readable
+ * and are encrypted the next time they're written.
+ */
+export type EncryptionOptions =
+  | {
+      passphrase: string;
+      /** PBKDF2 rounds, fixed when the store is first encrypted (default 600,000). */
+      iterations?: number;
+    }
+  | { key: CryptoKey };
+
+/**
+ * Bounds a directory by evicting files from it after every write that
+ * leaves it over a limit. Hidden files inside don't count and aren't
+ * evicted. Evictions are reported to watchers as deletions.
+ */
+export interface CachePolicy {
+  path: string;
+  /** Evict until the files in it total at most this many bytes. */
+  maxBytes?: number;
+  /** Evict until it holds at most this many files. */
+  maxFiles?: number;
+  /**
+   * Which files go first: least recently read or written ("lru", the
+   * default) or least recently written ("fifo"). Reads are remembered
+   * until the worker restarts.
+   */
+  evict?: "lru" | "fifo";
+}
+
+export interface StorageInfo {
+  /** Bytes the origin uses across all storage APIs, as the browser estimates it. */
+  usage: number;
+  /** Bytes the origin may use; null where there's no limit to report. */
+  quota: number | null;
+  /** Whether the browser has agreed not to clear this storage under pressure. */
+  persisted: boolean;
+  /**
+   * Bytes under each top-level directory, hidden files (history, temps)
+   * included. Only filled in when asked for with `byDirectory`.
+   */
+  directories?: Array<{ path: string; size: number }>;
+  /**
+   * Total logical and stored sizes of all visible files, which differ by
+   * what compression saves (and encryption adds). Only filled in with
+   * `byDirectory`.
+   */
+  files?: { size: number; storedSize: number };
+}
+
+export interface OPFSEntry {
+  name: string;
+  /** Slash-separated path relative to the OPFS root, e.g. "projects/a.txt" */
+  path: string;
+  kind: "file" | "directory";
+}
+
+export interface OPFSStat extends OPFSEntry {
+  /** Size in bytes; always 0 for directories. */
+  size: number;
+  /** Bytes the contents take at rest, after compression and encryption. */
+  storedSize: number;
+  /** Epoch milliseconds from `File.lastModified`; null for directories. */
+  lastModified: number | null;
+  /** Opaque ETag for conditional updates; null for directories. */
+  version: string | null;
+}
+
+export interface VersionedContent {
+  content: string;
+  version: string;
+}
+
+/** A prior version of a file's contents, kept by `history`. */
+export interface OPFSRevision {
+  /** Opaque; pass to `readRevision` or `restore`. */
+  id: string;
+  size: number;
+  /** When these contents were written, in epoch milliseconds. */
+  lastModified: number;
+}
+
+/**
+ * What `importArchive` does with an entry whose path is taken: fail the
+ * whole import, keep what's there, replace it, or import beside it as
+ * "name (2).ext".
+ */
+export type ImportConflictPolicy = "fail" | "skip" | "overwrite" | "rename";
+
+export interface ImportResult {
+  /** Paths written, after any renaming. */
+  imported: string[];
+  /** Archive paths left out under the "skip" policy. */
+  skipped: string[];
+}
+
+/** One hit from `search`. */
+export interface SearchResult {
+  path: string;
+  /** Relevance; higher is better, comparable only within one search. */
+  score: number;
+  /** An excerpt of the contents around the first match, on one line. */
+  snippet: string;
+  /** [start, end) character ranges of `snippet` to highlight. */
+  highlights: Array<[number, number]>;
+}
+
+/**
+ * Something `verify` found:
+ * - "corrupted": the stored bytes don't match the checksum from the last write;
+ * - "unrecorded": a file with no checksum (written before checksums, or
+ *   behind the file system's back);
+ * - "missing": a checksum for a file that no longer exists;
+ * - "orphaned": a temp file of a write that never finished, or the
+ *   history of a file that's gone.
+ */
+export interface IntegrityProblem {
+  type: "corrupted" | "unrecorded" | "missing" | "orphaned";
+  path: string;
+  /** What's wrong, for display. */
+  message: string;
+}
+
+export interface VerifyReport {
+  /** Files whose contents were checked. */
+  checked: number;
+  problems: IntegrityProblem[];
+}
+
+/**
+ * What `repair` does about a problem. "repair" restores a corrupted file
+ * from its newest revision, records a checksum for an unrecorded one,
+ * forgets a missing one and deletes an orphan. "quarantine" moves the file
+ * or orphan aside instead (see `QUARANTINE_DIR`).
+ */
+export type RepairAction = "repair" | "quarantine";
+
+export interface InitResult {
+  protocolVersion: number;
+  backend: StorageBackend;
+}
+
+/**
+ * One step of a `transaction`. Writes create or replace the whole file;
+ * `expectedVersion` makes a write conditional like `update`.
+ */
+export type TransactionOp =
+  | {
+      type: "write";
+      path: string;
+      content: BinaryData | string;
+      expectedVersion?: string;
+      compression?: WriteCompression;
+    }
+  | { type: "delete"; path: string };
+
+/**
+ * One change made through the file system. Directories created implicitly
+ * as missing parents are not reported separately.
+ */
+export interface OPFSChangeEvent {
+  type: "created" | "updated" | "deleted" | "renamed";
+  kind: "file" | "directory";
+  path: string;
+  /** Where a renamed or moved entry used to be. */
+  oldPath?: string;
+}
+
+export type OPFSRequest =
+  | { correlationId: string; type: "init"; protocolVersion: number; options: OPFSInitOptions }
+  | { correlationId: string; type: "list"; path: string; withStats: boolean }
+  | { correlationId: string; type: "stat"; path: string }
+  | { correlationId: string; type: "create"; path: string; content: string; overwrite: boolean; compression?: WriteCompression }
+  | { correlationId: string; type: "read"; path: string }
+  | { correlationId: string; type: "readVersioned"; path: string }
+  | { correlationId: string; type: "update"; path: string; content: string; expectedVersion?: string; compression?: WriteCompression }
+  | { correlationId: string; type: "delete"; path: string }
+  | { correlationId: string; type: "mkdir"; path: string }
+  | { correlationId: string; type: "rmdir"; path: string; recursive: boolean }
+  | { correlationId: string; type: "readBytes"; path: string }
+  | { correlationId: string; type: "writeBytes"; path: string; data: BinaryData; compression?: WriteCompression }
+  | { correlationId: string; type: "readRange"; path: string; offset: number; length: number }
+  | { correlationId: string; type: "writeAt"; path: string; offset: number; data: BinaryData | string }
+  | { correlationId: string; type: "append"; path: string; data: BinaryData | string }
+  | { correlationId: string; type: "rename"; path: string; newName: string }
+  | { correlationId: string; type: "move"; from: string; to: string }
+  | { correlationId: string; type: "copy"; from: string; to: string }
+  | { correlationId: string; type: "transaction"; ops: TransactionOp[] }
+  | { correlationId: string; type: "history"; path: string }
+  | { correlationId: string; type: "readRevision"; path: string; revisionId: string }
+  | { correlationId: string; type: "restore"; path: string; revisionId: string }
+  | { correlationId: string; type: "exportArchive"; compress: boolean }
+  | { correlationId: string; type: "importArchive"; archive: BinaryData; onConflict: ImportConflictPolicy }
+  | { correlationId: string; type: "search"; query: string; limit: number }
+  | { correlationId: string; type: "storageInfo"; byDirectory: boolean }
+  | { correlationId: string; type: "lock" }
+  | { correlationId: string; type: "verify"; path: string }
+  | { correlationId: string; type: "repair"; problem: IntegrityProblem; action: RepairAction }
+  | { correlationId: string; type: "cancel"; targetId: string };
+
+export type RequestType = OPFSRequest["type"];
+
+export type RequestOf<K extends RequestType> = Extract<OPFSRequest, { type: K }>;
+
+/**
+ * Where a request's time went inside the worker, in milliseconds: waiting
+ * for locks held by other requests, then running it.
+ */
+export interface WorkerTiming {
+  queuedMs: number;
+  executionMs: number;
+}
+
+export interface SuccessResponse<T> {
+  correlationId: string;
+  ok: true;
+  data: T;
+  timing?: WorkerTiming;
+}
+
+export interface ErrorResponse {
+  correlationId: string;
+  ok: false;
+  error: string;
+  code: OPFSErrorCode;
+  path?: string;
+  timing?: WorkerTiming;
+}
+
+export type OPFSResponse<T> = SuccessResponse<T> | ErrorResponse;
+
+/**
+ * Sent by the worker, unprompted, after every successful mutation. The page
+ * relays the same message to other tabs over a BroadcastChannel.
+ */
+export interface ChangeMessage {
+  type: "change";
+  changes: OPFSChangeEvent[];
+}
+
+// ── Errors ────────────────────────────────────────────────────────────────────
+
+export type OPFSErrorCode =
+  | "NOT_FOUND"
+  | "ALREADY_EXISTS"
+  | "CONFLICT"
+  | "TYPE_MISMATCH"
+  | "NOT_EMPTY"
+  | "QUOTA_EXCEEDED"
+  | "LOCKED"
+  | "INVALID_NAME"
+  | "INVALID_ARGUMENT"
+  | "PERMISSION_DENIED"
+  | "UNSUPPORTED"
+  | "INVALID_REQUEST"
+  | "PROTOCOL_MISMATCH"
+  | "ABORTED"
+  | "TIMEOUT"
+  | "WORKER_CRASHED"
+  | "STORE_LOCKED"
+  | "DECRYPTION_FAILED"
+  | "CORRUPTED"
+  | "UNKNOWN";
+
+const ERROR_CODES: ReadonlySet<string> = new Set<OPFSErrorCode>([
+  "NOT_FOUND",
+  "ALREADY_EXISTS",
+  "CONFLICT",
+  "TYPE_MISMATCH",
+  "NOT_EMPTY",
+  "QUOTA_EXCEEDED",
+  "LOCKED",
+  "INVALID_NAME",
+  "INVALID_ARGUMENT",
+  "PERMISSION_DENIED",
+  "UNSUPPORTED",
+  "INVALID_REQUEST",
+  "PROTOCOL_MISMATCH",
+  "ABORTED",
+  "TIMEOUT",
+  "WORKER_CRASHED",
+  "STORE_LOCKED",
+  "DECRYPTION_FAILED",
+  "CORRUPTED",
+  "UNKNOWN",
+]);
+
+/**
+ * Thrown by every `IFileSystem` operation. Worker-side failures are sent
+ * across as `{ code, error, path }` and rebuilt into this class on the page.
+ */
+export class OPFSError extends Error {
+  constructor(
+    readonly code: OPFSErrorCode,
+    message: string,
+    readonly path?: string,
+  ) {
+    super(message);
+    this.name = "OPFSError";
+  }
+}
+
+/** DOMException names raised by the File System API, by error code. */
+const DOM_EXCEPTION_CODES: Record<string, OPFSErrorCode> = {
+  NotFoundError: "NOT_FOUND",
+  TypeMismatchError: "TYPE_MISMATCH",
+  // OPFS raises this for removing a non-empty directory without `recursive`
+  InvalidModificationError: "NOT_EMPTY",
+  QuotaExceededError: "QUOTA_EXCEEDED",
+  NoModificationAllowedError: "LOCKED",
+  NotAllowedError: "PERMISSION_DENIED",
+  SecurityError: "PERMISSION_DENIED",
+  NotSupportedError: "UNSUPPORTED",
+  AbortError: "ABORTED",
+  TimeoutError: "TIMEOUT",
+};
+
+/** Normalizes anything thrown during an operation into an `OPFSError`. */
+export function toOPFSError(err: unknown, path?: string): OPFSError {
+  if (err instanceof OPFSError) return err;
+  if (err instanceof ProtocolError) {
+    return new OPFSError("INVALID_REQUEST", err.message, path);
+  }
+  if (err instanceof DOMException) {
+    return new OPFSError(DOM_EXCEPTION_CODES[err.name] ?? "UNKNOWN", err.message, path);
+  }
+  // getFileHandle() and friends reject names like "a:b" with a TypeError
+  if (err instanceof TypeError) {
+    return new OPFSError("INVALID_NAME", err.message, path);
+  }
+  return new OPFSError(
+    "UNKNOWN",
+    err instanceof Error ? err.message : String(err),
+    path,
+  );
+}
+
+// ── Runtime Validation ────────────────────────────────────────────────────────
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProtocolError";
+  }
+}
+
+type FieldKind =
+  | "string"
+  | "number"
+  | "boolean"
+  | "object"
+  | "binary"
+  | "binaryOrString"
+  | "optionalString"
+  | "transactionOps";
+
+/** Payload fields of every request type, besides `correlationId` and `type`. */
+const REQUEST_FIELDS: { [K in RequestType]: Record<string, FieldKind> } = {
+  init: { protocolVersion: "number", options: "object" },
+  list: { path: "string", withStats: "boolean" },
+  stat: { path: "string" },
+  create: {
+    path: "string",
+    content: "string",
+    overwrite: "boolean",
+    compression: "optionalString",
+  },
+  read: { path: "string" },
+  readVersioned: { path: "string" },
+  update: {
+    path: "string",
+    content: "string",
+    expectedVersion: "optionalString",
+    compression: "optionalString",
+  },
+  delete: { path: "string" },
+  mkdir: { path: "string" },
+  rmdir: { path: "string", recursive: "boolean" },
+  readBytes: { path: "string" },
+  writeBytes: { path: "string", data: "binary", compression: "optionalString" },
+  readRange: { path: "string", offset: "number", length: "number" },
+  writeAt: { path: "string", offset: "number", data: "binaryOrString" },
+  append: { path: "string", data: "binaryOrString" },
+  rename: { path: "string", newName: "string" },
+  move: { from: "string", to: "string" },
+  copy: { from: "string", to: "string" },
+  transaction: { ops: "transactionOps" },
+  history: { path: "string" },
+  readRevision: { path: "string", revisionId: "string" },
+  restore: { path: "string", revisionId: "string" },
+  exportArchive: { compress: "boolean" },
+  importArchive: { archive: "binary", onConflict: "string" },
+  search: { query: "string", limit: "number" },
+  storageInfo: { byDirectory: "boolean" },
+  lock: {},
+  verify: { path: "string" },
+  repair: { problem: "object", action: "string" },
+  cancel: { targetId: "string" },
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isBinary(value: unknown): boolean {
+  return (
+    value instanceof ArrayBuffer ||
+    value instanceof Uint8Array ||
+    value instanceof Blob
+  );
+}
+
+function isTransactionOp(value: unknown): value is TransactionOp {
+  if (!isRecord(value) || typeof value.path !== "string") return false;
+  if (value.type === "delete") return true;
+  return (
+    value.type === "write" &&
+    matches(value.content, "binaryOrString") &&
+    matches(value.expectedVersion, "optionalString") &&
+    matches(value.compression, "optionalString")
+  );
+}
+
+function matches(value: unknown, kind: FieldKind): boolean {
+  switch (kind) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "object":
+      return isRecord(value) && !Array.isArray(value);
+    case "binary":
+      return isBinary(value);
+    case "binaryOrString":
+      return typeof value === "string" || isBinary(value);
+    case "optionalString":
+      return value === undefined || typeof value === "string";
+    case "transactionOps":
+      return Array.isArray(value) && value.every(isTransactionOp);
+  }
+}
+
+function isTiming(value: unknown): value is WorkerTiming {
+  return (
+    value === undefined ||
+    (isRecord(value) && matches(value.queuedMs, "number") && matches(value.executionMs, "number"))
+  );
+}
+
+/** The path a request is about; the source for moves and copies. */
+export function pathOf(request: OPFSRequest): string | undefined {
+  if ("path" in request) return request.path;
+  if ("from" in request) return request.from;
+  if ("problem" in request) return request.problem?.path;
+  return undefined;
+}
+
+/** Best-effort correlation id of a message that may fail validation. */
+export function correlationIdOf(data: unknown): string | undefined {
+  return isRecord(data) && typeof data.correlationId === "string"
+    ? data.correlationId
+    : undefined;
+}
+
+export function validateRequest(data: unknown): OPFSRequest {
+  if (!isRecord(data)) {
+    throw new ProtocolError("Request must be an object");
+  }
+  if (typeof data.correlationId !== "string") {
+    throw new ProtocolError("Request is missing a correlationId");
+  }
+  const type = data.type;
+  if (
+    typeof type !== "string" ||
+    !Object.prototype.hasOwnProperty.call(REQUEST_FIELDS, type)
+  ) {
+    throw new ProtocolError(`Unknown message type: ${String(type)}`);
+  }
+  const fields = REQUEST_FIELDS[type as RequestType];
+  for (const [field, kind] of Object.entries(fields)) {
+    if (!matches(data[field], kind)) {
+      throw new ProtocolError(
+        `Invalid "${type}" request: "${field}" must be ${kind}`,
+      );
+    }
+  }
+  return data as OPFSRequest;
+}
+
+const CHANGE_TYPES: ReadonlySet<unknown> = new Set([
+  "created",
+  "updated",
+  "deleted",
+  "renamed",
+]);
+
+function isChangeEvent(value: unknown): value is OPFSChangeEvent {
+  return (
+    isRecord(value) &&
+    CHANGE_TYPES.has(value.type) &&
+    (value.kind === "file" || value.kind === "directory") &&
+    typeof value.path === "string" &&
+    matches(value.oldPath, "optionalString")
+  );
+}
+
+/** Tells change notifications apart from replies (and from junk on the channel). */
+export function isChangeMessage(data: unknown): data is ChangeMessage {
+  return (
+    isRecord(data) &&
+    data.type === "change" &&
+    Array.isArray(data.changes) &&
+    data.changes.every(isChangeEvent)
+  );
+}
+
+export function validateResponse(data: unknown): OPFSResponse<unknown> {
+  if (!isRecord(data) || typeof data.correlationId !== "string") {
+    throw new ProtocolError("Response is missing a correlationId");
+  }
+  if (!isTiming(data.timing)) {
+    throw new ProtocolError(`Malformed timing in response ${data.correlationId}`);
+  }
+  if (data.ok === true && "data" in data) {
+    return data as unknown as SuccessResponse<unknown>;
+  }
+  if (
+    data.ok === false &&
+    typeof data.error === "string" &&
+    typeof data.code === "string" &&
+    ERROR_CODES.has(data.code)
+  ) {
+    return data as unknown as ErrorResponse;
+  }
+  throw new ProtocolError(
+    `Malformed response for request ${data.correlationId}`,
+  );
+}
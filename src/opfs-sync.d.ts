@@ -16,3 +16,8 @@ interface FileSystemSyncAccessHandle {
 interface FileSystemFileHandle {
   createSyncAccessHandle(): Promise<FileSystemSyncAccessHandle>;
 }
+
+interface FileSystemHandle {
+  /** Chromium-only native move/rename; absent in other engines. */
+  move?(destination: FileSystemDirectoryHandle, newName?: string): Promise<void>;
+}
@@ -0,0 +1,7 @@
+/**
+ * Spawns the OPFS worker. Kept apart from OPFS.ts because jest can't parse
+ * `import.meta`; tests mock this module to run the worker in-process.
+ */
+export function spawnOPFSWorker(): Worker {
+  return new Worker(new URL("./opfs.worker.ts", import.meta.url));
+}
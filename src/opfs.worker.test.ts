@@ -0,0 +1,827 @@
+/**
+ * @jest-environment ./src/testing/web-environment.js
+ */
+import {
+  addMiddleware,
+  createTracing,
+  OperationTrace,
+  OPFSChangeEvent,
+  OPFSError,
+  OPFSFileSystem,
+} from "./OPFS";
+import { PROTOCOL_VERSION } from "./opfs-protocol";
+import { describeFileSystemConformance } from "./testing/conformance";
+import { createMockStorage } from "./testing/mock-opfs";
+import { createZip, readZip } from "./zip";
+
+// Runs the real worker module in-process: the page's `Worker` and the
+// worker's `self` are wired to each other through macrotasks, the way
+// postMessage delivers, and `navigator.storage` is an in-memory OPFS.
+
+const mockStorage = createMockStorage();
+const scope = globalThis as any;
+
+const mockWorker = {
+  onmessage: null as ((event: { data: unknown }) => void) | null,
+  onerror: null,
+  postMessage(data: unknown) {
+    setTimeout(() => scope.onmessage({ data }));
+  },
+  terminate() {},
+};
+
+jest.mock("./opfs-worker-factory", () => ({
+  spawnOPFSWorker: () => mockWorker,
+}));
+
+beforeAll(async () => {
+  scope.self = globalThis;
+  scope.postMessage = (data: unknown) =>
+    setTimeout(() => mockWorker.onmessage?.({ data }));
+  Object.defineProperty(globalThis, "navigator", {
+    value: { storage: mockStorage.storage },
+    configurable: true,
+  });
+  await import("./opfs.worker");
+});
+
+describeFileSystemConformance("OPFS worker", async () => {
+  mockStorage.reset();
+  await OPFSFileSystem.init();
+  return OPFSFileSystem;
+});
+
+const writableStorage = createMockStorage({ syncAccessHandles: false });
+
+describeFileSystemConformance(
+  "OPFS worker without sync access handles",
+  async () => {
+    writableStorage.reset();
+    scope.navigator.storage = writableStorage.storage;
+    await expect(OPFSFileSystem.init()).resolves.toBe("opfs-async");
+    return OPFSFileSystem;
+  },
+  async () => {
+    scope.navigator.storage = mockStorage.storage;
+  },
+);
+
+describe("OPFS worker journal recovery", () => {
+  const fs = OPFSFileSystem;
+  const journal = (entries: object[]) => JSON.stringify({ id: "t1", entries });
+
+  /** Writes to the journal directory as transactions do, without a frame. */
+  const writeJournal = async (name: string, text: string) => {
+    const root = await mockStorage.storage.getDirectory();
+    const directory = await root.getDirectoryHandle(".opfs-journal", { create: true });
+    const handle = await directory.getFileHandle(name, { create: true });
+    const access = await (handle as any).createSyncAccessHandle();
+    const bytes = new TextEncoder().encode(text);
+    access.write(bytes, { at: 0 });
+    access.truncate(bytes.length);
+    access.close();
+  };
+
+  beforeEach(async () => {
+    mockStorage.reset();
+    await fs.init();
+    // The state a tab leaves behind when it closes mid-transaction
+    await fs.create("a.txt", "old");
+    await fs.create("gone.txt", "x");
+    await fs.create(".a.txt.t1.tmp", "new");
+    await fs.create("dir/.b.txt.t1.tmp", "staged");
+    await writeJournal(
+      "t1.json",
+      journal([
+        { type: "write", path: "a.txt", temp: ".a.txt.t1.tmp" },
+        { type: "write", path: "dir/b.txt", temp: ".b.txt.t1.tmp" },
+        { type: "delete", path: "gone.txt" },
+      ]),
+    );
+  });
+
+  it("finishes transactions that reached the commit marker", async () => {
+    await writeJournal("t1.commit", "");
+    await fs.init();
+    await expect(fs.read("a.txt")).resolves.toBe("new");
+    await expect(fs.read("dir/b.txt")).resolves.toBe("staged");
+    await expect(fs.stat("gone.txt")).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(fs.list(".opfs-journal")).resolves.toEqual([]);
+    // Recovered files get their checksums like any other write
+    await expect(fs.verify()).resolves.toEqual({ checked: 2, problems: [] });
+  });
+
+  it("undoes transactions that did not", async () => {
+    await fs.init();
+    await expect(fs.read("a.txt")).resolves.toBe("old");
+    await expect(fs.read("gone.txt")).resolves.toBe("x");
+    await expect(fs.stat(".a.txt.t1.tmp")).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(fs.stat("dir/.b.txt.t1.tmp")).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(fs.list(".opfs-journal")).resolves.toEqual([]);
+  });
+
+  it("drops journals torn before any temp file was written", async () => {
+    await writeJournal("t2.json", '{"id": "t2", "ent');
+    await fs.init();
+    await expect(fs.list(".opfs-journal")).resolves.toEqual([]);
+  });
+});
+
+describe("OPFS worker search index", () => {
+  const fs = OPFSFileSystem;
+  const paths = async (query: string) =>
+    (await fs.search(query)).map((result) => result.path);
+
+  beforeEach(async () => {
+    mockStorage.reset();
+    await fs.init();
+    await fs.create("a.txt", "alpha");
+  });
+
+  it("is saved by searches and left out of exports", async () => {
+    await expect(paths("alpha ")).resolves.toEqual(["a.txt"]);
+    const { size } = await fs.stat(".opfs-search/index.json");
+    expect(size).toBeGreaterThan(0);
+    const items = await readZip(await fs.exportArchive());
+    expect(items.map((item) => item.path)).toEqual(["a.txt"]);
+  });
+
+  it("catches up with files the saved index doesn't match", async () => {
+    const stale = { format: 1, documents: [["ghost.txt", "1-1", [["alpha", 1]]]] };
+    await fs.create(".opfs-search/index.json", JSON.stringify(stale));
+    await fs.init();
+    await expect(paths("alpha ")).resolves.toEqual(["a.txt"]);
+  });
+
+  it("rebuilds from the files when the saved index is torn", async () => {
+    await fs.create(".opfs-search/index.json", '{"format": 1, "docu');
+    await fs.init();
+    await expect(paths("alpha ")).resolves.toEqual(["a.txt"]);
+  });
+});
+
+describe("OPFS worker encryption", () => {
+  const fs = OPFSFileSystem;
+  const encryption = { passphrase: "correct horse", iterations: 1000 };
+  const onDisk = async (name: string) => {
+    const root = await mockStorage.storage.getDirectory();
+    return (await (await root.getFileHandle(name)).getFile()).text();
+  };
+
+  beforeEach(async () => {
+    mockStorage.reset();
+    await fs.init({ encryption });
+    await fs.create("a.txt", "top secret");
+  });
+
+  // resetMocks would leave the spied crypto stubbed out for the next test
+  afterEach(() => jest.restoreAllMocks());
+
+  it("stores ciphertext and reports plain sizes", async () => {
+    expect(await onDisk("a.txt")).not.toContain("top secret");
+    await expect(fs.stat("a.txt")).resolves.toMatchObject({ size: 10 });
+    await expect(fs.read("a.txt")).resolves.toBe("top secret");
+  });
+
+  it("decrypts history, search and exports", async () => {
+    await fs.update("a.txt", "declassified");
+    const [revision] = await fs.history("a.txt");
+    await expect(fs.readRevision("a.txt", revision.id)).resolves.toBe("top secret");
+    expect((await fs.search("declassified ")).map((result) => result.path)).toEqual([
+      "a.txt",
+    ]);
+    const items = await readZip(await fs.exportArchive());
+    expect(items.map((item) => item.path)).toEqual(["a.txt"]);
+    expect(await (await items[0].read()).text()).toBe("declassified");
+  });
+
+  it("stays locked until init gets the passphrase", async () => {
+    await fs.lock();
+    await expect(fs.read("a.txt")).rejects.toMatchObject({ code: "STORE_LOCKED" });
+    await expect(fs.init()).rejects.toMatchObject({ code: "STORE_LOCKED" });
+    await expect(fs.list("")).rejects.toMatchObject({ code: "STORE_LOCKED" });
+    await expect(
+      fs.init({ encryption: { passphrase: "wrong horse" } }),
+    ).rejects.toMatchObject({ code: "DECRYPTION_FAILED" });
+    await fs.init({ encryption: { passphrase: "correct horse" } });
+    await expect(fs.read("a.txt")).resolves.toBe("top secret");
+  });
+
+  it("reads and writes ranges of sealed files a chunk at a time", async () => {
+    const decrypt = jest.spyOn(crypto.subtle, "decrypt");
+    const encrypt = jest.spyOn(crypto.subtle, "encrypt");
+    const chunk = 64 * 1024;
+    await fs.writeBytes("big.bin", new Uint8Array(chunk * 4).fill(1));
+    decrypt.mockClear();
+    encrypt.mockClear();
+
+    await fs.writeAt("big.bin", chunk * 2 + 10, new Uint8Array([7, 7]));
+    expect(decrypt).toHaveBeenCalledTimes(1);
+    expect(encrypt).toHaveBeenCalledTimes(1);
+    const window = new Uint8Array(await fs.readRange("big.bin", chunk * 2 + 9, 4));
+    expect(Array.from(window)).toEqual([1, 7, 7, 1]);
+    expect(decrypt).toHaveBeenCalledTimes(2);
+
+    // Growing the file reseals the old last chunk too
+    await expect(fs.append("big.bin", new Uint8Array([9]))).resolves.toBe(chunk * 4 + 1);
+    expect(encrypt).toHaveBeenCalledTimes(3);
+    const bytes = new Uint8Array(await fs.readBytes("big.bin"));
+    expect(bytes.subarray(chunk * 2 + 9, chunk * 2 + 13)).toEqual(new Uint8Array([1, 7, 7, 1]));
+    expect(bytes[chunk * 4]).toBe(9);
+    await expect(fs.stat("big.bin")).resolves.toMatchObject({ size: chunk * 4 + 1 });
+  });
+
+  it("zero-fills gaps in sealed files and seals files started by a ranged write", async () => {
+    await fs.writeAt("new.bin", 3, "abc");
+    expect(await onDisk("new.bin")).not.toContain("abc");
+    await fs.writeAt("new.bin", 70_000, "z");
+    const bytes = new Uint8Array(await fs.readBytes("new.bin"));
+    expect(bytes.byteLength).toBe(70_001);
+    expect(new TextDecoder().decode(bytes.subarray(0, 6))).toBe("\0\0\0abc");
+    expect(bytes.subarray(6, 70_000).every((byte) => byte === 0)).toBe(true);
+    expect(bytes[70_000]).toBe("z".charCodeAt(0));
+  });
+
+  it("leaves plain files plain on ranged writes", async () => {
+    // From before the store had a key
+    mockStorage.reset();
+    await fs.init();
+    await fs.create("plain.txt", "hello");
+    await fs.init({ encryption });
+    await fs.append("plain.txt", " world");
+    await fs.writeAt("plain.txt", 0, "H");
+    expect(await onDisk("plain.txt")).toMatch(/Hello world$/);
+    await expect(fs.read("plain.txt")).resolves.toBe("Hello world");
+  });
+
+  it("refuses calls that were queued behind a lock", async () => {
+    // Holds "a.txt" while the lock and the calls after it queue up
+    const holding = fs.update("a.txt", "still secret ".repeat(10_000));
+    const locking = fs.lock();
+    const writing = fs.create("draft.txt", "unsaved secret");
+    const reading = fs.read("a.txt");
+
+    await Promise.all([
+      holding,
+      locking,
+      expect(writing).rejects.toMatchObject({ code: "STORE_LOCKED" }),
+      expect(reading).rejects.toMatchObject({ code: "STORE_LOCKED" }),
+    ]);
+    const root = await mockStorage.storage.getDirectory();
+    await expect(root.getFileHandle("draft.txt")).rejects.toMatchObject({
+      name: "NotFoundError",
+    });
+  });
+});
+
+describe("OPFS worker compression", () => {
+  const fs = OPFSFileSystem;
+  const content = "compressible ".repeat(200);
+  const storedSize = async (path: string) => (await fs.stat(path)).storedSize;
+
+  beforeEach(async () => {
+    mockStorage.reset();
+    await fs.init();
+    await fs.create("a.txt", content, { compression: "gzip" });
+  });
+
+  it("stores compressed files smaller and keeps their format on update", async () => {
+    expect(await storedSize("a.txt")).toBeLessThan(content.length / 5);
+    await fs.update("a.txt", content + content);
+    expect(await storedSize("a.txt")).toBeLessThan(content.length / 5);
+    await fs.update("a.txt", content, { compression: "none" });
+    // Behind the 9-byte frame that says how it's stored
+    expect(await storedSize("a.txt")).toBe(content.length + 9);
+  });
+
+  it("compresses beneath encryption", async () => {
+    await fs.init({ encryption: { passphrase: "correct horse", iterations: 1000 } });
+    await fs.create("b.txt", content, { compression: "deflate" });
+    expect(await storedSize("b.txt")).toBeLessThan(content.length / 5);
+    await expect(fs.read("b.txt")).resolves.toBe(content);
+    await expect(fs.read("a.txt")).resolves.toBe(content);
+  });
+
+  it("never takes plain contents for encoded ones", async () => {
+    const lookalikes = ["OPFSZIP1\u0001 plain", "OPFSAES1 plain", "OPFSDAT1\u0001 plain"];
+    for (let index = 0; index < lookalikes.length; index++) {
+      const text = lookalikes[index];
+      await fs.create(`${index}.txt`, text);
+      await expect(fs.read(`${index}.txt`)).resolves.toBe(text);
+      await expect(fs.stat(`${index}.txt`)).resolves.toMatchObject({ size: text.length });
+    }
+    // Made to start like one by a ranged write, after the key was set
+    await fs.init({ encryption: { passphrase: "correct horse", iterations: 1000 } });
+    await fs.create("b.txt", "plain", { compression: "none" });
+    await fs.writeAt("b.txt", 0, "OPFSZIP1");
+    await expect(fs.read("b.txt")).resolves.toBe("OPFSZIP1");
+    await expect(fs.readRange("0.txt", 0, 8)).resolves.toEqual(
+      new TextEncoder().encode("OPFSZIP1").buffer,
+    );
+  });
+
+  it("fails with CORRUPTED when the compressed body is damaged", async () => {
+    const root = await mockStorage.storage.getDirectory();
+    const handle = await root.getFileHandle("a.txt");
+    const stored = new Uint8Array(await (await handle.getFile()).arrayBuffer());
+    const access = await (handle as any).createSyncAccessHandle();
+    access.write(stored.subarray(0, stored.length - 4), { at: 0 });
+    access.truncate(stored.length - 4);
+    access.close();
+    await expect(fs.read("a.txt")).rejects.toMatchObject({ code: "CORRUPTED" });
+  });
+});
+
+describe("OPFS worker integrity", () => {
+  const fs = OPFSFileSystem;
+  const problemsOf = async (path?: string) =>
+    (await fs.verify(path)).problems.map(({ type, path }) => ({ type, path }));
+
+  /** Writes `text` to `path` in the root behind the worker's back. */
+  const writeRaw = async (name: string, text: string) => {
+    const root = await mockStorage.storage.getDirectory();
+    const handle = await root.getFileHandle(name, { create: true });
+    const access = await (handle as any).createSyncAccessHandle();
+    const bytes = new TextEncoder().encode(text);
+    access.write(bytes, { at: 0 });
+    access.truncate(bytes.length);
+    access.close();
+  };
+
+  beforeEach(async () => {
+    mockStorage.reset();
+    await fs.init();
+  });
+
+  it("reports corrupted files and repairs them from history", async () => {
+    await fs.create("a.txt", "first");
+    await fs.update("a.txt", "second");
+    await writeRaw("a.txt", "garbage");
+    const { problems } = await fs.verify();
+    expect(problems).toEqual([
+      { type: "corrupted", path: "a.txt", message: "Expected 15 stored bytes, found 7" },
+    ]);
+    await fs.repair(problems[0], "repair");
+    await expect(fs.read("a.txt")).resolves.toBe("first");
+    await expect(problemsOf()).resolves.toEqual([]);
+  });
+
+  it("quarantines what can't be repaired", async () => {
+    await fs.create("a.txt", "only");
+    const root = await mockStorage.storage.getDirectory();
+    const stored = await (await (await root.getFileHandle("a.txt")).getFile()).text();
+    // Same size, different bytes
+    await writeRaw("a.txt", stored.replace("only", "ONLY"));
+    const [problem] = (await fs.verify("a.txt")).problems;
+    expect(problem).toMatchObject({ type: "corrupted", message: "Contents don't match their checksum" });
+    await expect(fs.repair(problem, "repair")).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await fs.repair(problem, "quarantine");
+    await expect(fs.stat("a.txt")).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(fs.verify()).resolves.toEqual({ checked: 0, problems: [] });
+    const quarantine = await root.getDirectoryHandle(".opfs-quarantine");
+    const names: string[] = [];
+    for await (const entry of (quarantine as any).values()) names.push(entry.name);
+    expect(names).toHaveLength(1);
+  });
+
+  it("records unrecorded files and forgets missing ones", async () => {
+    await fs.create("gone.txt", "x");
+    await writeRaw("raw.txt", "written directly");
+    const root = await mockStorage.storage.getDirectory();
+    await root.removeEntry("gone.txt");
+    const { problems } = await fs.verify();
+    expect(problems.map(({ type, path }) => ({ type, path }))).toEqual([
+      { type: "missing", path: "gone.txt" },
+      { type: "unrecorded", path: "raw.txt" },
+    ]);
+    for (const problem of problems) await fs.repair(problem, "repair");
+    await expect(fs.verify()).resolves.toEqual({ checked: 1, problems: [] });
+  });
+
+  it("finds and removes leftovers of interrupted writes", async () => {
+    await fs.create("a.txt", "a");
+    await writeRaw(".a.txt.zz.tmp", "half");
+    const root = await mockStorage.storage.getDirectory();
+    await root.getDirectoryHandle(".gone.txt.history", { create: true });
+    const { problems } = await fs.verify();
+    expect(problems.map(({ type, path }) => ({ type, path }))).toEqual([
+      { type: "orphaned", path: ".a.txt.zz.tmp" },
+      { type: "orphaned", path: ".gone.txt.history" },
+    ]);
+    for (const problem of problems) await fs.repair(problem, "repair");
+    await expect(problemsOf()).resolves.toEqual([]);
+    await expect(fs.read("a.txt")).resolves.toBe("a");
+  });
+});
+
+describe("OPFS worker storage backends", () => {
+  const fs = OPFSFileSystem;
+
+  beforeEach(() => {
+    mockStorage.reset();
+  });
+
+  afterEach(async () => {
+    scope.navigator.storage = mockStorage.storage;
+    await fs.init();
+  });
+
+  it("prefers OPFS with sync access handles", async () => {
+    await expect(fs.init()).resolves.toBe("opfs");
+    await expect(fs.init({ backend: "opfs-async" })).resolves.toBe("opfs-async");
+    await fs.create("a.txt", "hello");
+    await fs.append("a.txt", " world");
+    await expect(fs.read("a.txt")).resolves.toBe("hello world");
+  });
+
+  it("falls back to memory without OPFS or IndexedDB", async () => {
+    delete scope.navigator.storage;
+    await expect(fs.init()).resolves.toBe("memory");
+    await fs.create("docs/a.txt", "in memory");
+    await fs.writeAt("docs/a.txt", 0, "IN");
+    await fs.rename("docs/a.txt", "b.txt");
+    await expect(fs.read("docs/b.txt")).resolves.toBe("IN memory");
+    await expect(fs.storageInfo()).resolves.toMatchObject({ quota: null, persisted: false });
+    expect((await fs.storageInfo()).usage).toBeGreaterThan(0);
+    // The same tree is found again by the next init
+    await fs.init();
+    await expect(fs.read("docs/b.txt")).resolves.toBe("IN memory");
+    await fs.rmdir("docs", { recursive: true });
+    await expect(fs.list("")).resolves.toEqual([]);
+  });
+
+  it("refuses backends that aren't available", async () => {
+    delete scope.navigator.storage;
+    await expect(fs.init({ backend: "opfs" })).rejects.toMatchObject({ code: "UNSUPPORTED" });
+    await expect(fs.init({ backend: "indexeddb" })).rejects.toMatchObject({
+      code: "UNSUPPORTED",
+    });
+    await expect(fs.init({ backend: "node" })).rejects.toMatchObject({ code: "UNSUPPORTED" });
+  });
+});
+
+describe("OPFS worker archive import", () => {
+  const fs = OPFSFileSystem;
+  const lastModified = Date.now();
+
+  beforeEach(async () => {
+    mockStorage.reset();
+    await fs.init();
+  });
+
+  it("leaves nothing behind when an entry fails partway", async () => {
+    await fs.create("keep.txt", "mine");
+    const archive = await createZip(
+      [
+        { path: "empty", kind: "directory", lastModified },
+        { path: "docs/a.txt", kind: "file", lastModified, data: new Blob(["first"]) },
+        { path: "docs/deep/b.txt", kind: "file", lastModified, data: new Blob(["second"]) },
+      ],
+      { compress: false },
+    );
+    const bytes = new Uint8Array(await archive.arrayBuffer());
+    // Corrupts the last file, after the first has been staged
+    const contents = new TextDecoder("latin1").decode(bytes).lastIndexOf("second");
+    bytes[contents] ^= 0xff;
+
+    const events: OPFSChangeEvent[] = [];
+    const stop = fs.watch("", (event) => events.push(event), { recursive: true });
+    await expect(fs.importArchive(new Blob([bytes]))).rejects.toMatchObject({
+      code: "INVALID_ARGUMENT",
+    });
+    stop();
+
+    expect(events).toEqual([]);
+    const root = await mockStorage.storage.getDirectory();
+    const names: string[] = [];
+    for await (const entry of (root as any).values()) names.push(entry.name);
+    expect(names.filter((name) => !name.startsWith(".opfs-"))).toEqual(["keep.txt"]);
+  });
+});
+
+describe("OPFS worker locking", () => {
+  const fs = OPFSFileSystem;
+
+  beforeEach(async () => {
+    mockStorage.reset();
+    await fs.init();
+    await fs.create("a.txt", "original");
+  });
+
+  afterEach(async () => {
+    await fs.init();
+  });
+
+  it("serializes concurrent writes to one file, the last one winning", async () => {
+    const first = fs.update("a.txt", "first");
+    const second = fs.update("a.txt", "second");
+    await expect(Promise.all([first, second])).resolves.toHaveLength(2);
+    await expect(fs.read("a.txt")).resolves.toBe("second");
+  });
+
+  it("retries a file another tab has open, as often as init allows", async () => {
+    // Another tab's worker holding the file's only sync access handle
+    const root = await mockStorage.storage.getDirectory();
+    const file = await root.getFileHandle("a.txt");
+    const otherTab = await file.createSyncAccessHandle();
+
+    await fs.init({ retry: { retries: 0 } });
+    await expect(fs.append("a.txt", " blocked")).rejects.toMatchObject({ code: "LOCKED" });
+
+    await fs.init({ retry: { retries: 50, baseDelayMs: 1, maxDelayMs: 2 } });
+    const writing = fs.append("a.txt", " retried");
+    setTimeout(() => otherTab.close(), 10);
+    await writing;
+    await expect(fs.read("a.txt")).resolves.toBe("original retried");
+  });
+});
+
+describe("OPFS client handshake", () => {
+  const fs = OPFSFileSystem;
+  let reply: (data: unknown) => void;
+
+  /** Rewrites the worker's replies on their way to the page. */
+  const rewriteReplies = (rewrite: (data: any) => unknown) => {
+    scope.postMessage = (data: unknown) => reply(rewrite(data));
+  };
+  const initReply = (data: any) => data.ok && data.data?.backend !== undefined;
+
+  beforeEach(() => {
+    mockStorage.reset();
+    reply = scope.postMessage;
+  });
+
+  afterEach(async () => {
+    scope.postMessage = reply;
+    await fs.init();
+  });
+
+  it("refuses a worker speaking another protocol version", async () => {
+    rewriteReplies((data) =>
+      initReply(data)
+        ? { ...data, data: { ...data.data, protocolVersion: PROTOCOL_VERSION - 1 } }
+        : data,
+    );
+    await expect(fs.init()).rejects.toMatchObject({
+      code: "PROTOCOL_MISMATCH",
+      message: expect.stringContaining(`worker speaks v${PROTOCOL_VERSION - 1}`),
+    });
+  });
+
+  it("refuses a worker that doesn't report a version", async () => {
+    rewriteReplies((data) =>
+      initReply(data) ? { ...data, data: { backend: data.data.backend } } : data,
+    );
+    await expect(fs.init()).rejects.toMatchObject({
+      code: "PROTOCOL_MISMATCH",
+      message: expect.stringContaining("an unversioned protocol"),
+    });
+  });
+
+  it("refuses a worker that can't parse our init or answers it with junk", async () => {
+    // What an older worker says about request fields it doesn't know
+    rewriteReplies((data) =>
+      initReply(data)
+        ? { correlationId: data.correlationId, ok: false, error: "Bad init", code: "INVALID_REQUEST" }
+        : data,
+    );
+    await expect(fs.init()).rejects.toMatchObject({ code: "PROTOCOL_MISMATCH" });
+
+    rewriteReplies((data) => (initReply(data) ? { ...data, timing: "fast" } : data));
+    await expect(fs.init()).rejects.toMatchObject({
+      code: "PROTOCOL_MISMATCH",
+      message: expect.stringContaining("Malformed timing"),
+    });
+  });
+
+  it("fails a call whose reply is malformed and drops replies to nobody", async () => {
+    await fs.init();
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    rewriteReplies((data) => (data.ok ? { correlationId: data.correlationId, ok: true } : data));
+    await expect(fs.list("")).rejects.toMatchObject({ code: "INVALID_REQUEST" });
+
+    rewriteReplies((data) => (data.ok ? { ...data, correlationId: undefined } : data));
+    const controller = new AbortController();
+    const listing = fs.list("", { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(consoleError).toHaveBeenCalledWith(
+      "[OPFS Worker] Dropped invalid response:",
+      expect.any(Error),
+    );
+    // Still waiting; only a timeout or abort ends it
+    controller.abort();
+    await expect(listing).rejects.toMatchObject({ code: "ABORTED" });
+  });
+});
+
+describe("OPFS client middleware", () => {
+  const fs = OPFSFileSystem;
+  let removals: Array<() => void>;
+
+  beforeEach(async () => {
+    mockStorage.reset();
+    await fs.init();
+    removals = [];
+  });
+
+  afterEach(() => {
+    removals.forEach((remove) => remove());
+  });
+
+  it("traces every call with its bytes and the worker's timing", async () => {
+    const traces: OperationTrace[] = [];
+    removals.push(addMiddleware(createTracing((trace) => traces.push(trace))));
+
+    await fs.create("a.txt", "héllo");
+    await fs.read("a.txt");
+    await fs.writeBytes("b.bin", new Uint8Array(4));
+    await expect(fs.read("missing.txt")).rejects.toMatchObject({ code: "NOT_FOUND" });
+    const controller = new AbortController();
+    controller.abort();
+    await expect(fs.stat("a.txt", { signal: controller.signal })).rejects.toMatchObject({
+      code: "ABORTED",
+    });
+
+    expect(traces).toMatchObject([
+      { type: "create", path: "a.txt", bytesSent: 6, bytesReceived: 0 },
+      { type: "read", path: "a.txt", bytesSent: 0, bytesReceived: 6 },
+      // Counted before the buffer is transferred to the worker
+      { type: "writeBytes", path: "b.bin", bytesSent: 4 },
+      { type: "read", path: "missing.txt", errorCode: "NOT_FOUND" },
+      { type: "stat", errorCode: "ABORTED" },
+    ]);
+    // Never sent, so the worker has no time to report
+    expect(traces[4]).not.toHaveProperty("executionMs");
+    for (const trace of traces.slice(0, 4)) {
+      expect(trace.queuedMs).toBeGreaterThanOrEqual(0);
+      expect(trace.executionMs).toBeGreaterThanOrEqual(0);
+      expect(trace.durationMs).toBeGreaterThanOrEqual(trace.executionMs!);
+    }
+  });
+
+  it("runs hooks around each call, outermost first", async () => {
+    const calls: string[] = [];
+    removals.push(
+      addMiddleware({
+        before: () => void calls.push("outer before"),
+        after: () => void calls.push("outer after"),
+        error: (_, error) => void calls.push(`outer ${error.code}`),
+      }),
+      addMiddleware({
+        before: ({ request }) => {
+          calls.push("inner before");
+          if (request.type === "delete") throw new OPFSError("PERMISSION_DENIED", "Read-only");
+        },
+        after: () => {
+          calls.push("inner after");
+          throw new Error("a broken observer");
+        },
+        error: (_, error) => void calls.push(`inner ${error.code}`),
+      }),
+    );
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    await fs.create("a.txt", "");
+    expect(calls).toEqual(["outer before", "inner before", "inner after", "outer after"]);
+    expect(consoleError).toHaveBeenCalled();
+
+    calls.length = 0;
+    await expect(fs.delete("a.txt")).rejects.toMatchObject({ code: "PERMISSION_DENIED" });
+    expect(calls).toEqual([
+      "outer before",
+      "inner before",
+      "inner PERMISSION_DENIED",
+      "outer PERMISSION_DENIED",
+    ]);
+    // The request never reached the worker
+    await expect(fs.read("a.txt")).resolves.toBe("");
+  });
+});
+
+describe("OPFS client transfers", () => {
+  const fs = OPFSFileSystem;
+  const { postMessage } = mockWorker;
+
+  beforeEach(async () => {
+    mockStorage.reset();
+    await fs.init();
+    // Moves buffers the way a real worker boundary does, and refuses what it would
+    mockWorker.postMessage = (data: unknown, transfer: Transferable[] = []) => {
+      const moved = structuredClone(data, { transfer });
+      setTimeout(() => scope.onmessage({ data: moved }));
+    };
+  });
+
+  afterEach(() => {
+    mockWorker.postMessage = postMessage;
+  });
+
+  it("moves whole buffers and copies views of part of one", async () => {
+    const whole = new Uint8Array([1, 2]);
+    await fs.writeBytes("whole.bin", whole);
+    expect(whole.byteLength).toBe(0);
+
+    const bytes = new Uint8Array([1, 2, 3, 4, 5, 6]);
+    await fs.writeBytes("part.bin", bytes.subarray(2, 4));
+    await fs.append("part.bin", bytes.subarray(4));
+    expect(bytes).toEqual(new Uint8Array([1, 2, 3, 4, 5, 6]));
+    expect(new Uint8Array(await fs.readBytes("part.bin"))).toEqual(
+      new Uint8Array([3, 4, 5, 6]),
+    );
+  });
+
+  it("moves a buffer shared by several writes once", async () => {
+    const shared = new Uint8Array([7, 8]);
+    await fs.transaction([
+      { type: "write", path: "a.bin", content: shared },
+      { type: "write", path: "b.bin", content: new Uint8Array(shared.buffer) },
+      { type: "write", path: "c.bin", content: shared.buffer },
+    ]);
+    for (const path of ["a.bin", "b.bin", "c.bin"]) {
+      expect(new Uint8Array(await fs.readBytes(path))).toEqual(new Uint8Array([7, 8]));
+    }
+  });
+});
+
+describe("OPFS client worker lifecycle", () => {
+  const fs = OPFSFileSystem;
+  const { postMessage } = mockWorker;
+  let delivered: Array<{ type: string; [key: string]: unknown }>;
+
+  // Lets calls reach `postMessage` without giving the worker a turn to answer
+  const flushMicrotasks = async () => {
+    for (let i = 0; i < 10; i++) await Promise.resolve();
+  };
+  const nextMacrotask = () => new Promise((resolve) => setTimeout(resolve));
+  const crash = () => (mockWorker.onerror as any)({ message: "boom" });
+
+  beforeEach(async () => {
+    mockStorage.reset();
+    await fs.init({ history: { maxRevisions: 2 } });
+    await fs.create("a.txt", "hello");
+    delivered = [];
+    mockWorker.postMessage = (data: any) => {
+      setTimeout(() => {
+        delivered.push(data);
+        scope.onmessage({ data });
+      });
+    };
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    mockWorker.postMessage = postMessage;
+    await fs.init();
+  });
+
+  it("fails calls in flight when the worker crashes, then respawns and replays init", async () => {
+    const reading = fs.read("a.txt");
+    const listing = fs.list("");
+    await flushMicrotasks();
+    crash();
+    await expect(reading).rejects.toMatchObject({ code: "WORKER_CRASHED" });
+    await expect(listing).rejects.toMatchObject({ code: "WORKER_CRASHED" });
+    await nextMacrotask();
+
+    delivered = [];
+    await expect(fs.read("a.txt")).resolves.toBe("hello");
+    expect(delivered.map(({ type }) => type)).toEqual(["init", "read"]);
+    expect(delivered[0]).toMatchObject({ options: { history: { maxRevisions: 2 } } });
+  });
+
+  it("sends a single handshake when init respawns the worker", async () => {
+    const reading = fs.read("a.txt");
+    await flushMicrotasks();
+    crash();
+    await expect(reading).rejects.toMatchObject({ code: "WORKER_CRASHED" });
+    await nextMacrotask();
+
+    delivered = [];
+    const [backend, content] = await Promise.all([fs.init(), fs.read("a.txt")]);
+    expect(backend).toBe("opfs");
+    expect(content).toBe("hello");
+    expect(delivered.map(({ type }) => type)).toEqual(["init", "read"]);
+    expect(delivered[0]).toMatchObject({ options: {} });
+  });
+
+  it("times out and cancels a call the worker hasn't answered", async () => {
+    const reading = fs.read("a.txt", { timeoutMs: 0 });
+    await expect(reading).rejects.toMatchObject({ code: "TIMEOUT" });
+    await nextMacrotask();
+    const read = delivered.find(({ type }) => type === "read");
+    expect(delivered).toContainEqual(
+      expect.objectContaining({ type: "cancel", targetId: read!.correlationId }),
+    );
+  });
+
+  it("tells the worker to cancel a call aborted after it was sent", async () => {
+    const controller = new AbortController();
+    const reading = fs.read("a.txt", { signal: controller.signal });
+    await flushMicrotasks();
+    controller.abort();
+    await expect(reading).rejects.toMatchObject({ code: "ABORTED" });
+    await nextMacrotask();
+    expect(delivered.map(({ type }) => type)).toEqual(["read", "cancel"]);
+    expect(delivered[1].targetId).toBe(delivered[0].correlationId);
+  });
+});
@@ -1,150 +1,2381 @@
 /// <reference lib="webworker" />
 /// <reference path="./opfs-sync.d.ts" />
-export {};
+import {
+  createLockManager,
+  DEFAULT_RETRY_OPTIONS,
+  LockMode,
+  retryOnContention,
+  RetryOptions,
+} from "./opfs-locks";
+import {
+  BinaryData,
+  CachePolicy,
+  ChangeMessage,
+  CompressionFormat,
+  CompressionRule,
+  correlationIdOf,
+  EncryptionOptions,
+  ErrorResponse,
+  ImportConflictPolicy,
+  ImportResult,
+  InitResult,
+  IntegrityProblem,
+  OPFSChangeEvent,
+  OPFSEntry,
+  OPFSError,
+  OPFSInitOptions,
+  OPFSRequest,
+  OPFSRevision,
+  OPFSStat,
+  pathOf,
+  PROTOCOL_VERSION,
+  RepairAction,
+  RequestOf,
+  SearchResult,
+  StorageBackend,
+  StorageInfo,
+  SuccessResponse,
+  toOPFSError,
+  TransactionOp,
+  validateRequest,
+  VerifyReport,
+  VersionedContent,
+  WorkerTiming,
+  WriteCompression,
+} from "./opfs-protocol";
+import {
+  assertBackend,
+  assertCompression,
+  assertDistinctPaths,
+  assertRange,
+  assertRepairable,
+  backendUnavailable,
+  CachedFile,
+  compareRevisions,
+  compressionFor,
+  compressionRulesOf,
+  createCacheTracker,
+  DEFAULT_MAX_REVISIONS,
+  historyName,
+  importResultOf,
+  isInternalName,
+  keepsHistory,
+  maxRevisionsOf,
+  nextRevisionId,
+  orphanReason,
+  parseRevisionId,
+  planImport,
+  problemNotFound,
+  QUARANTINE_DIR,
+  quarantinePath,
+  revisionNotFound,
+  sortProblems,
+  toBytes,
+} from "./file-system";
+import {
+  assertTransferable,
+  compareEntries,
+  joinPath,
+  siblingPath,
+  splitParent,
+  splitPath,
+} from "./opfs-paths";
+import {
+  createSearchIndexer,
+  MAX_INDEXED_BYTES,
+  SearchIndexData,
+  SearchSource,
+  SearchStore,
+} from "./search";
+import { createZip, readZip, ZipSource } from "./zip";
+import {
+  chunkCount,
+  KeyCheck,
+  parseKeyCheck,
+  requireKey,
+  seal,
+  SEALED_CHUNK_SIZE,
+  sealChunks,
+  sealedChunkOffset,
+  unlockKey,
+  unseal,
+  unsealChunks,
+  unsealedLength,
+} from "./encryption";
+import {
+  canCompress,
+  COMPRESSED_HEADER_LENGTH,
+  CompressedHeader,
+  compressedHeader,
+  compressedHeaderOf,
+  compressBody,
+  decompressBody,
+} from "./compression";
+import {
+  createHandleTree,
+  createMemoryStore,
+  openIndexedDBStore,
+} from "./fallback-storage";
 
 /* eslint-disable no-restricted-globals */
 
-// ── Message Protocol ──────────────────────────────────────────────────────────
+// ── Storage Backends ──────────────────────────────────────────────────────────
+//
+// Everything below works on directory and file handles; `init` decides
+// where they come from. OPFS comes first, with sync access handles where
+// the browser has them and writable streams where it doesn't. Without
+// OPFS (or where it refuses, as in some private modes) the handles are
+// trees from fallback-storage.ts, kept in IndexedDB or, last, in memory.
 
-type OPFSRequest =
-  | { correlationId: string; type: "init" }
-  | { correlationId: string; type: "list" }
-  | { correlationId: string; type: "create"; fileName: string; content: string }
-  | { correlationId: string; type: "read"; fileName: string }
-  | { correlationId: string; type: "update"; fileName: string; content: string }
-  | { correlationId: string; type: "delete"; fileName: string };
+interface Backend {
+  name: StorageBackend;
+  root: FileSystemDirectoryHandle;
+  /** Whether files open with sync access handles rather than writable streams. */
+  syncAccess: boolean;
+}
+
+/** What the worker can use, best first. */
+const WORKER_BACKENDS: StorageBackend[] = ["opfs", "opfs-async", "indexeddb", "memory"];
+const PROBE_FILE = ".opfs-probe";
+const FALLBACK_DATABASE = "opfs-fallback";
+
+let backend: Backend | null = null;
+/** Fallback trees, opened once so a repeated `init` finds the same files. */
+const fallbackRoots = new Map<StorageBackend, FileSystemDirectoryHandle>();
+
+/** What the browser's OPFS can do, or null if there's none to use. */
+async function probeOPFS(): Promise<{
+  root: FileSystemDirectoryHandle;
+  syncAccess: boolean;
+  writable: boolean;
+} | null> {
+  try {
+    const root = await navigator.storage.getDirectory();
+    const probe = await root.getFileHandle(PROBE_FILE, { create: true });
+    const capabilities = {
+      root,
+      syncAccess: typeof probe.createSyncAccessHandle === "function",
+      writable: typeof probe.createWritable === "function",
+    };
+    await root.removeEntry(PROBE_FILE);
+    return capabilities;
+  } catch {
+    return null;
+  }
+}
+
+async function fallbackRoot(name: StorageBackend): Promise<FileSystemDirectoryHandle> {
+  const opened = fallbackRoots.get(name);
+  if (opened) return opened;
+  const root = createHandleTree(
+    name === "indexeddb" ? await openIndexedDBStore(FALLBACK_DATABASE) : createMemoryStore(),
+  );
+  fallbackRoots.set(name, root);
+  return root;
+}
+
+/** `name`, if this browser can keep files there. */
+async function openBackend(name: StorageBackend): Promise<Backend | null> {
+  if (name === "opfs" || name === "opfs-async") {
+    const opfs = await probeOPFS();
+    const usable = name === "opfs" ? opfs?.syncAccess : opfs?.writable;
+    return opfs && usable ? { name, root: opfs.root, syncAccess: name === "opfs" } : null;
+  }
+  if (name === "indexeddb") {
+    if (typeof indexedDB === "undefined") return null;
+    try {
+      return { name, root: await fallbackRoot(name), syncAccess: false };
+    } catch {
+      return null; // Blocked, or refused like OPFS in private modes
+    }
+  }
+  if (name === "memory") return { name, root: await fallbackRoot(name), syncAccess: false };
+  return null;
+}
+
+/** `requested` if given (UNSUPPORTED if it won't work), else the best that does. */
+async function selectBackend(requested?: StorageBackend): Promise<Backend> {
+  if (requested !== undefined) {
+    assertBackend(requested);
+    const chosen = await openBackend(requested);
+    if (!chosen) throw backendUnavailable(requested);
+    return chosen;
+  }
+  for (const name of WORKER_BACKENDS) {
+    const chosen = await openBackend(name);
+    if (chosen) return chosen;
+  }
+  // Memory always opens; this is for the type checker
+  throw backendUnavailable("memory");
+}
+
+async function storageRoot(): Promise<FileSystemDirectoryHandle> {
+  return (backend ?? (backend = await selectBackend())).root;
+}
+
+// ── Path Resolution ───────────────────────────────────────────────────────────
+
+async function getDirectory(
+  segments: string[],
+  create = false,
+): Promise<FileSystemDirectoryHandle> {
+  let directory = await storageRoot();
+  for (const segment of segments) {
+    directory = await directory.getDirectoryHandle(segment, { create });
+  }
+  return directory;
+}
+
+/**
+ * Resolves the directory that contains `path` and the entry name within it.
+ * With `create`, missing intermediate directories are created along the way.
+ */
+async function resolveParent(
+  path: string,
+  create = false,
+): Promise<[FileSystemDirectoryHandle, string]> {
+  const [segments, name] = splitParent(path);
+  return [await getDirectory(segments, create), name];
+}
+
+async function getFileHandle(
+  path: string,
+  create = false,
+): Promise<FileSystemFileHandle> {
+  const [parent, name] = await resolveParent(path, create);
+  return parent.getFileHandle(name, { create });
+}
+
+/** Looks up an entry of either kind, or null when nothing exists there. */
+async function findEntry(
+  parent: FileSystemDirectoryHandle,
+  name: string,
+): Promise<FileSystemFileHandle | FileSystemDirectoryHandle | null> {
+  for await (const entry of parent.values()) {
+    if (entry.name === name) return entry;
+  }
+  return null;
+}
+
+/** Like `getFileHandle(path, true)`, but also tells whether the file is new. */
+async function openOrCreateFile(
+  path: string,
+): Promise<[FileSystemFileHandle, boolean]> {
+  const [parent, name] = await resolveParent(path, true);
+  try {
+    return [await parent.getFileHandle(name), false];
+  } catch (err) {
+    if (!(err instanceof DOMException && err.name === "NotFoundError")) throw err;
+    return [await parent.getFileHandle(name, { create: true }), true];
+  }
+}
+
+/** What's at `path` right now, or null; never creates anything. */
+async function peekEntry(
+  path: string,
+): Promise<FileSystemFileHandle | FileSystemDirectoryHandle | null> {
+  try {
+    const [parent, name] = await resolveParent(path);
+    return await findEntry(parent, name);
+  } catch (err) {
+    if (err instanceof DOMException && err.name === "NotFoundError") return null;
+    throw err;
+  }
+}
+
+async function getEntry(
+  path: string,
+): Promise<[FileSystemDirectoryHandle, FileSystemFileHandle | FileSystemDirectoryHandle]> {
+  const [parent, name] = await resolveParent(path);
+  const entry = await findEntry(parent, name);
+  if (!entry) {
+    throw new OPFSError("NOT_FOUND", `"${joinPath(path)}" does not exist`, path);
+  }
+  return [parent, entry];
+}
+
+// ── Change Notifications ──────────────────────────────────────────────────────
+
+/**
+ * Posted before the reply of the request that caused it, so the page sees
+ * the change by the time the call resolves.
+ */
+function notify(change: OPFSChangeEvent): void {
+  self.postMessage({ type: "change", changes: [change] } as ChangeMessage);
+  searchIndex.apply(change);
+  if (isChecked(change.path)) pendingChecksums.push(change);
+  if (change.type !== "deleted" && change.kind === "file") caches.touch(change.path);
+}
+
+function notifyWrite(path: string, created: boolean): void {
+  notify({ type: created ? "created" : "updated", kind: "file", path: joinPath(path) });
+}
+
+// ── Concurrency ───────────────────────────────────────────────────────────────
+
+const locks = createLockManager();
+
+/** Abort controllers for requests still running, keyed by correlation id. */
+const inFlight = new Map<string, AbortController>();
+let retryOptions: RetryOptions = DEFAULT_RETRY_OPTIONS;
+
+/**
+ * Positioned writes to an open file, through a sync access handle or, on
+ * backends without them, a writable stream that replaces the contents
+ * when closed.
+ */
+interface FileAccess {
+  size(): number;
+  write(bytes: Uint8Array, at: number): Promise<number>;
+  truncate(size: number): Promise<void>;
+  /** Flushes and lets go of the file. */
+  close(): Promise<void>;
+  /** Lets go without committing, where the backend can. */
+  abort(): Promise<void>;
+}
+
+async function openAccess(fileHandle: FileSystemFileHandle): Promise<FileAccess> {
+  if (backend?.syncAccess !== false) {
+    const syncHandle = await retryOnContention(
+      () => fileHandle.createSyncAccessHandle(),
+      retryOptions,
+    );
+    const close = async () => syncHandle.close();
+    return {
+      size: () => syncHandle.getSize(),
+      write: async (bytes, at) => syncHandle.write(bytes, { at }),
+      truncate: async (size) => syncHandle.truncate(size),
+      close: async () => {
+        try {
+          syncHandle.flush();
+        } finally {
+          syncHandle.close();
+        }
+      },
+      abort: close,
+    };
+  }
+  let size = (await fileHandle.getFile()).size;
+  const writable = await retryOnContention(
+    () => fileHandle.createWritable({ keepExistingData: true }),
+    retryOptions,
+  );
+  return {
+    size: () => size,
+    write: async (bytes, at) => {
+      await writable.write({ type: "write", position: at, data: bytes });
+      size = Math.max(size, at + bytes.byteLength);
+      return bytes.byteLength;
+    },
+    truncate: async (next) => {
+      await writable.truncate(next);
+      size = next;
+    },
+    close: () => writable.close(),
+    abort: () => writable.abort(),
+  };
+}
+
+/** Runs `task` with the file open, committing only if it succeeds. */
+async function withAccess<T>(
+  fileHandle: FileSystemFileHandle,
+  task: (access: FileAccess) => Promise<T>,
+): Promise<T> {
+  const access = await openAccess(fileHandle);
+  let result: T;
+  try {
+    result = await task(access);
+  } catch (err) {
+    await access.abort();
+    throw err;
+  }
+  await access.close();
+  return result;
+}
+
+/**
+ * Paths each request touches and how. Reads through `File` snapshots share;
+ * anything opening a sync access handle or changing the tree is exclusive.
+ */
+function lockFor(
+  request: OPFSRequest,
+): { paths: string[]; mode: LockMode } | null {
+  switch (request.type) {
+    // Search waits for queued index updates, which take locks of their own
+    case "init":
+    case "cancel":
+    case "search":
+      return null;
+    case "list":
+    case "stat":
+    case "read":
+    case "readVersioned":
+    case "readBytes":
+    case "history":
+    case "readRevision":
+      return { paths: [joinPath(request.path)], mode: "shared" };
+    case "move":
+    case "copy":
+      return {
+        paths: [joinPath(request.from), joinPath(request.to)],
+        mode: "exclusive",
+      };
+    case "rename":
+      return {
+        paths: [
+          joinPath(request.path),
+          siblingPath(request.path, request.newName),
+        ],
+        mode: "exclusive",
+      };
+    case "transaction":
+      return {
+        paths: request.ops.map((op) => joinPath(op.path)),
+        mode: "exclusive",
+      };
+    case "verify":
+      return { paths: [joinPath(request.path)], mode: "shared" };
+    // Malformed problems are rejected once the lock is held
+    case "repair":
+      return typeof request.problem?.path === "string"
+        ? { paths: [joinPath(request.problem.path), QUARANTINE_DIR], mode: "exclusive" }
+        : { paths: [QUARANTINE_DIR], mode: "exclusive" };
+    case "exportArchive":
+      return { paths: [""], mode: "shared" };
+    case "storageInfo":
+      return request.byDirectory ? { paths: [""], mode: "shared" } : null;
+    // Waits for everything in flight, which may still need the key
+    case "lock":
+      return { paths: [""], mode: "exclusive" };
+    case "importArchive":
+      return { paths: [""], mode: "exclusive" };
+    default:
+      // Unknown types carry no path; the dispatcher rejects them below
+      return typeof request.path === "string"
+        ? { paths: [joinPath(request.path)], mode: "exclusive" }
+        : null;
+  }
+}
+
+// ── Encryption ────────────────────────────────────────────────────────────────
+//
+// With a key set, whole-file writes are sealed on their way to disk (see
+// encryption.ts) and reads unseal; ranged reads and writes of a sealed
+// file unseal and reseal just the chunks they cover. Files written before
+// the key was set stay plain until they're next written whole, ranged
+// writes included. The store's key check sits at the root
+// in KEY_CHECK_FILE. While a store that has one is locked, the dispatcher
+// refuses everything but `init`.
+
+const KEY_CHECK_FILE = ".opfs-keycheck";
+
+let contentKey: CryptoKey | null = null;
+let storeLocked = false;
+
+async function loadKeyCheck(): Promise<KeyCheck | null> {
+  const root = await storageRoot();
+  const file = await findEntry(root, KEY_CHECK_FILE);
+  return file?.kind === "file" ? parseKeyCheck(await (await file.getFile()).text()) : null;
+}
+
+/**
+ * Sets the key from the init options. Without one, a store that has a key
+ * check stays locked; the first key given to a store without one encrypts
+ * it from then on.
+ */
+async function opfsUnlock(encryption?: EncryptionOptions): Promise<void> {
+  contentKey = null;
+  const existing = await loadKeyCheck();
+  storeLocked = existing !== null;
+  if (!encryption) {
+    if (storeLocked) {
+      throw new OPFSError("STORE_LOCKED", "Storage is encrypted; init with its passphrase or key");
+    }
+    return;
+  }
+  const { key, check } = await unlockKey(encryption, existing);
+  if (!existing) {
+    const root = await storageRoot();
+    const file = await root.getFileHandle(KEY_CHECK_FILE, { create: true });
+    await writeContents(file, new TextEncoder().encode(JSON.stringify(check)));
+  }
+  contentKey = key;
+  storeLocked = false;
+}
+
+function opfsLock(): void {
+  if (!contentKey) return;
+  contentKey = null;
+  storeLocked = true;
+  // The in-memory index holds words of the plain contents
+  searchIndex = createSearchIndexer(searchSource, searchStore);
+}
 
-interface SuccessResponse<T> {
-  correlationId: string;
-  ok: true;
-  data: T;
+/** `bytes` sealed with the content key, or as they are without one. */
+async function sealContents(bytes: Uint8Array): Promise<Uint8Array> {
+  return contentKey ? seal(contentKey, bytes) : bytes;
 }
 
-interface ErrorResponse {
-  correlationId: string;
-  ok: false;
-  error: string;
+// ── Stored Contents ───────────────────────────────────────────────────────────
+//
+// What a file holds on disk: FRAME_MAGIC and a byte of flags, then its
+// contents, compressed behind a header (see compression.ts) when a write
+// asked for it and sealed when a key is set. The flags say which, so how a
+// file is read never depends on what its contents happen to start with.
+// Files without a frame were put there by something else and hold their
+// contents as they are. Plain files are read and written in place and
+// sealed ones a chunk at a time; compressed ones go through these helpers
+// whole.
+
+const FRAME_MAGIC = new TextEncoder().encode("OPFSDAT1");
+const FRAME_LENGTH = FRAME_MAGIC.length + 1;
+const COMPRESSED_FLAG = 1;
+const SEALED_FLAG = 2;
+
+let compressionRules: CompressionRule[] = [];
+
+interface StoredLayout {
+  compressed: CompressedHeader | null;
+  sealed: boolean;
+  /** Where the contents start, past the frame and any compressed header. */
+  body: number;
+}
+
+/** How `file` is stored, from its frame. */
+async function layoutOf(file: Blob, path?: string): Promise<StoredLayout> {
+  const head = new Uint8Array(
+    await file.slice(0, FRAME_LENGTH + COMPRESSED_HEADER_LENGTH).arrayBuffer(),
+  );
+  if (head.length < FRAME_LENGTH || !FRAME_MAGIC.every((byte, i) => head[i] === byte)) {
+    return { compressed: null, sealed: false, body: 0 };
+  }
+  const flags = head[FRAME_MAGIC.length];
+  const compressed =
+    flags & COMPRESSED_FLAG ? compressedHeaderOf(head.subarray(FRAME_LENGTH)) : null;
+  if (flags & ~(COMPRESSED_FLAG | SEALED_FLAG) || (flags & COMPRESSED_FLAG && !compressed)) {
+    throw new OPFSError("CORRUPTED", "The stored file's header is damaged", path);
+  }
+  return {
+    compressed,
+    sealed: (flags & SEALED_FLAG) !== 0,
+    body: FRAME_LENGTH + (compressed ? COMPRESSED_HEADER_LENGTH : 0),
+  };
+}
+
+/** Contents as they go to disk, compressed in `format` if it's set. */
+async function encodeContents(
+  bytes: Uint8Array,
+  format: CompressionFormat | null,
+): Promise<Uint8Array> {
+  // Without CompressionStream, contents are stored as they are
+  const compression = canCompress() ? format : null;
+  const header = compression
+    ? compressedHeader(compression, bytes.byteLength)
+    : new Uint8Array(0);
+  const body = await sealContents(compression ? await compressBody(compression, bytes) : bytes);
+  const encoded = new Uint8Array(FRAME_LENGTH + header.byteLength + body.byteLength);
+  encoded.set(FRAME_MAGIC);
+  encoded[FRAME_MAGIC.length] =
+    (compression ? COMPRESSED_FLAG : 0) | (contentKey ? SEALED_FLAG : 0);
+  encoded.set(header, FRAME_LENGTH);
+  encoded.set(body, FRAME_LENGTH + header.byteLength);
+  return encoded;
+}
+
+/** Plain contents of a stored file. */
+async function readContents(file: Blob, path?: string): Promise<Uint8Array> {
+  const { compressed, sealed, body } = await layoutOf(file, path);
+  const bytes = new Uint8Array(await file.slice(body).arrayBuffer());
+  const contents = sealed ? await unseal(contentKey, bytes, path) : bytes;
+  return compressed ? decompressBody(compressed, contents, path) : contents;
+}
+
+/** Size of the plain contents, as stat and history report it. */
+async function plainSize(file: Blob): Promise<number> {
+  const { compressed, sealed, body } = await layoutOf(file);
+  if (compressed) return compressed.size;
+  return sealed ? unsealedLength(file.size - body) : file.size - body;
+}
+
+/** Format of the file at `path` as it's stored now; null if it isn't compressed. */
+async function storedFormat(path: string): Promise<CompressionFormat | null> {
+  const entry = await peekEntry(path);
+  if (entry?.kind !== "file") return null;
+  return (await layoutOf(await entry.getFile())).compressed?.format ?? null;
+}
+
+/**
+ * Ranged write into a compressed file (or an empty one, once the store is
+ * encrypted): decodes it whole, patches, and encodes it again the same
+ * way. Returns the new size.
+ */
+async function patchEncoded(
+  fileHandle: FileSystemFileHandle,
+  offset: number | "end",
+  bytes: Uint8Array,
+): Promise<number> {
+  const file = await fileHandle.getFile();
+  const { compressed } = await layoutOf(file);
+  const current = await readContents(file);
+  const at = offset === "end" ? current.byteLength : offset;
+  const patched = new Uint8Array(Math.max(current.byteLength, at + bytes.byteLength));
+  patched.set(current);
+  patched.set(bytes, at);
+  await writeContents(fileHandle, await encodeContents(patched, compressed?.format ?? null));
+  return patched.byteLength;
+}
+
+/** `length` plain bytes from `offset` of sealed `file`, opening only their chunks. */
+async function readSealedRange(
+  file: Blob,
+  { body }: StoredLayout,
+  offset: number,
+  length: number,
+  path: string,
+): Promise<Uint8Array> {
+  const size = unsealedLength(file.size - body);
+  const end = Math.min(size, offset + length);
+  if (end <= offset) return new Uint8Array(0);
+  const first = Math.floor(offset / SEALED_CHUNK_SIZE);
+  const last = Math.floor((end - 1) / SEALED_CHUNK_SIZE);
+  const stored = await file
+    .slice(body + sealedChunkOffset(first), body + sealedChunkOffset(last + 1))
+    .arrayBuffer();
+  const plain = await unsealChunks(
+    contentKey,
+    new Uint8Array(stored),
+    first,
+    chunkCount(size),
+    path,
+  );
+  const from = offset - first * SEALED_CHUNK_SIZE;
+  return plain.slice(from, from + end - offset);
+}
+
+/**
+ * Ranged write into sealed `file`, resealing only the chunks it changes:
+ * those under `bytes`, any gap it zero-fills, and the old last chunk when
+ * the file grows past it. Returns the new size.
+ */
+async function patchSealed(
+  fileHandle: FileSystemFileHandle,
+  file: Blob,
+  { body }: StoredLayout,
+  offset: number | "end",
+  bytes: Uint8Array,
+  path: string,
+): Promise<number> {
+  const key = requireKey(contentKey, path);
+  const size = unsealedLength(file.size - body);
+  const at = offset === "end" ? size : offset;
+  const end = at + bytes.byteLength;
+  const nextSize = Math.max(size, end);
+  if (bytes.byteLength === 0 && nextSize === size) return size;
+
+  const total = chunkCount(nextSize);
+  let first = Math.floor(Math.min(at, size) / SEALED_CHUNK_SIZE);
+  // The old last chunk was sealed as the last one
+  if (nextSize > size) first = Math.min(first, chunkCount(size) - 1);
+  const last = nextSize > size ? total - 1 : Math.floor((end - 1) / SEALED_CHUNK_SIZE);
+  const from = first * SEALED_CHUNK_SIZE;
+  const window = new Uint8Array(Math.min(nextSize, (last + 1) * SEALED_CHUNK_SIZE) - from);
+  const lastStored = Math.min(last, chunkCount(size) - 1);
+  const stored = await file
+    .slice(body + sealedChunkOffset(first), body + sealedChunkOffset(lastStored + 1))
+    .arrayBuffer();
+  window.set(await unsealChunks(key, new Uint8Array(stored), first, chunkCount(size), path));
+  window.set(bytes, at - from);
+  const sealed = await sealChunks(key, window, first, total);
+  await withAccess(fileHandle, (access) => access.write(sealed, body + sealedChunkOffset(first)));
+  return nextSize;
+}
+
+/**
+ * How a ranged write reaches `file`: in place, a chunk at a time, or
+ * through the whole file. A file with nothing in it yet is written whole,
+ * which frames it and seals it if a key is set; other plain files stay
+ * plain.
+ */
+function rangedWriteMode(file: Blob, layout: StoredLayout): "plain" | "sealed" | "whole" {
+  if (layout.compressed) return "whole";
+  if (layout.sealed) return "sealed";
+  const empty = file.size === layout.body;
+  return empty && (contentKey !== null || layout.body === 0) ? "whole" : "plain";
 }
 
 // ── OPFS Operations ───────────────────────────────────────────────────────────
 
-async function opfsInit(): Promise<void> {
-  if (!navigator.storage?.getDirectory) {
-    throw new Error("OPFS is not supported in this browser.");
+async function opfsInit(
+  protocolVersion: number,
+  options: OPFSInitOptions,
+): Promise<InitResult> {
+  if (protocolVersion !== PROTOCOL_VERSION) {
+    throw new OPFSError(
+      "PROTOCOL_MISMATCH",
+      `Protocol mismatch: page speaks v${protocolVersion}, worker speaks v${PROTOCOL_VERSION}. Reload to load matching bundles.`,
+    );
   }
-  if (navigator.storage.persist) {
-    await navigator.storage.persist();
+  // Chosen first, so an init that asked for the impossible changes nothing
+  backend = await selectBackend(options.backend);
+  retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+  maxRevisions = maxRevisionsOf(options);
+  caches.configure(options);
+  compressionRules = compressionRulesOf(options);
+  searchIndex = createSearchIndexer(searchSource, searchStore);
+  persisted =
+    backend.name !== "memory" && navigator.storage?.persist
+      ? await navigator.storage.persist()
+      : false;
+  // Nothing else may run while half-finished transactions are settled
+  await locks.withLock([""], "exclusive", async () => {
+    await recoverJournals();
+    await recordChecksums([""]);
+  });
+  await locks.withLock([""], "exclusive", () => opfsUnlock(options.encryption));
+  return { protocolVersion: PROTOCOL_VERSION, backend: backend.name };
+}
+
+async function statHandle(
+  handle: FileSystemFileHandle | FileSystemDirectoryHandle,
+  path: string,
+): Promise<OPFSStat> {
+  const entry = { name: handle.name, path, kind: handle.kind };
+  if (handle.kind === "directory") {
+    // OPFS keeps no timestamps for directories
+    return { ...entry, size: 0, storedSize: 0, lastModified: null, version: null };
   }
-  await navigator.storage.getDirectory();
+  const file = await handle.getFile();
+  return {
+    ...entry,
+    size: await plainSize(file),
+    storedSize: file.size,
+    lastModified: file.lastModified,
+    version: versionOf(file),
+  };
 }
 
-async function opfsList(): Promise<string[]> {
-  const root = await navigator.storage.getDirectory();
-  const names: string[] = [];
-  // @ts-ignore - values() is async iterable in modern browsers
-  for await (const entry of root.values()) {
-    if (entry.kind === "file" && !entry.name.startsWith(".")) {
-      names.push(entry.name);
+async function opfsStat(path: string): Promise<OPFSStat> {
+  const [, handle] = await getEntry(path);
+  return statHandle(handle, joinPath(path));
+}
+
+async function opfsList(
+  path: string,
+  withStats: boolean,
+): Promise<OPFSEntry[] | OPFSStat[]> {
+  const directory = await getDirectory(splitPath(path));
+  const entries: OPFSEntry[] = [];
+  for await (const entry of directory.values()) {
+    if (!entry.name.startsWith(".")) {
+      const entryPath = joinPath(path, entry.name);
+      entries.push(
+        withStats
+          ? await statHandle(entry, entryPath)
+          : { name: entry.name, path: entryPath, kind: entry.kind },
+      );
     }
   }
-  return names.sort((a, b) => a.localeCompare(b));
+  return entries.sort(compareEntries);
+}
+
+/**
+ * Cheap ETag for conditional updates: any write changes the size or bumps
+ * `lastModified`, so there's no need to hash the contents.
+ */
+function versionOf(file: File): string {
+  return `${file.size}-${file.lastModified}`;
+}
+
+async function writeContents(
+  fileHandle: FileSystemFileHandle,
+  bytes: Uint8Array,
+): Promise<void> {
+  await withAccess(fileHandle, async (access) => {
+    await access.truncate(0);
+    await access.write(bytes, 0);
+  });
+}
+
+/** Refuses to replace an existing entry unless `overwrite` is set. */
+async function opfsCreate(
+  path: string,
+  content: string,
+  overwrite: boolean,
+  compression?: WriteCompression,
+): Promise<string> {
+  const existing = await peekEntry(path);
+  if (existing && !overwrite) {
+    throw new OPFSError("ALREADY_EXISTS", `"${joinPath(path)}" already exists`, path);
+  }
+  await commitJournaled([await planWrite(path, content, undefined, compression)]);
+  return joinPath(path);
+}
+
+async function opfsRead(path: string): Promise<string> {
+  const fileHandle = await getFileHandle(path);
+  const file = await fileHandle.getFile();
+  caches.touch(path);
+  return new TextDecoder().decode(await readContents(file, path));
+}
+
+async function opfsReadVersioned(path: string): Promise<VersionedContent> {
+  const fileHandle = await getFileHandle(path);
+  const file = await fileHandle.getFile();
+  caches.touch(path);
+  const content = new TextDecoder().decode(await readContents(file, path));
+  return { content, version: versionOf(file) };
+}
+
+/**
+ * Overwrites the file, returning its new version. With `expectedVersion`,
+ * fails with CONFLICT if someone else wrote the file since that version was
+ * read. The check and the write happen under this worker's path lock.
+ */
+async function opfsUpdate(
+  path: string,
+  content: string,
+  expectedVersion?: string,
+  compression?: WriteCompression,
+): Promise<string> {
+  // Unlike create, update never brings a file into existence
+  await getFileHandle(path);
+  await commitJournaled([await planWrite(path, content, expectedVersion, compression)]);
+  return versionOf(await (await getFileHandle(path)).getFile());
+}
+
+async function opfsDelete(path: string): Promise<void> {
+  const [parent, name] = await resolveParent(path);
+  // Make sure we never remove a directory through the file API
+  await parent.getFileHandle(name);
+  await parent.removeEntry(name);
+  await removeHistory(parent, name);
+  notify({ type: "deleted", kind: "file", path: joinPath(path) });
 }
 
-async function opfsCreate(fileName: string, content: string): Promise<string> {
-  const root = await navigator.storage.getDirectory();
-  const fileHandle = await root.getFileHandle(fileName, { create: true });
-  const syncHandle = await fileHandle.createSyncAccessHandle();
+async function opfsReadBytes(path: string): Promise<ArrayBuffer> {
+  const fileHandle = await getFileHandle(path);
+  const file = await fileHandle.getFile();
+  caches.touch(path);
+  return (await readContents(file, path)).slice().buffer;
+}
+
+async function opfsWriteBytes(
+  path: string,
+  data: BinaryData,
+  compression?: WriteCompression,
+): Promise<void> {
+  await commitJournaled([await planWrite(path, data, undefined, compression)]);
+}
+
+/**
+ * Reads at most `length` bytes starting at `offset`, straight from the sync
+ * access handle (or a slice of the file without one) so only the requested
+ * window is ever materialized. Reading past the end of the file yields a
+ * shorter (possibly empty) buffer.
+ */
+async function opfsReadRange(
+  path: string,
+  offset: number,
+  length: number,
+): Promise<ArrayBuffer> {
+  assertRange(offset, length);
+  const fileHandle = await getFileHandle(path);
+  const file = await fileHandle.getFile();
+  const layout = await layoutOf(file, path);
+  if (layout.compressed) {
+    const contents = await readContents(file, path);
+    caches.touch(path);
+    return contents.slice(offset, offset + length).buffer;
+  }
+  if (layout.sealed) {
+    const window = await readSealedRange(file, layout, offset, length, path);
+    caches.touch(path);
+    return window.buffer;
+  }
+  const at = layout.body + offset;
+  if (backend?.syncAccess === false) {
+    const window = await file.slice(at, at + length).arrayBuffer();
+    caches.touch(path);
+    return window;
+  }
+  const syncHandle = await retryOnContention(
+    () => fileHandle.createSyncAccessHandle(),
+    retryOptions,
+  );
   try {
-    const encoded = new TextEncoder().encode(content);
-    syncHandle.truncate(0);
-    syncHandle.write(encoded, { at: 0 });
-    syncHandle.flush();
+    const available = Math.max(0, syncHandle.getSize() - at);
+    const buffer = new Uint8Array(Math.min(length, available));
+    const bytesRead = syncHandle.read(buffer, { at });
+    caches.touch(path);
+    return buffer.buffer.slice(0, bytesRead);
   } finally {
     syncHandle.close();
   }
-  return fileName;
 }
 
-async function opfsRead(fileName: string): Promise<string> {
-  const root = await navigator.storage.getDirectory();
-  const fileHandle = await root.getFileHandle(fileName, { create: false });
+/**
+ * Writes `data` at `offset` without touching the rest of the file, creating
+ * it if needed. Writing beyond the current end zero-fills the gap.
+ */
+async function opfsWriteAt(
+  path: string,
+  offset: number,
+  data: BinaryData | string,
+): Promise<number> {
+  assertRange(offset, 0);
+  const bytes = await toBytes(data);
+  const [fileHandle, created] = await openOrCreateFile(path);
+  const file = await fileHandle.getFile();
+  const layout = await layoutOf(file, path);
+  const mode = rangedWriteMode(file, layout);
+  if (mode !== "plain") {
+    if (mode === "sealed") await patchSealed(fileHandle, file, layout, offset, bytes, path);
+    else await patchEncoded(fileHandle, offset, bytes);
+    notifyWrite(path, created);
+    return bytes.byteLength;
+  }
+  const bytesWritten = await withAccess(fileHandle, (access) =>
+    access.write(bytes, layout.body + offset),
+  );
+  notifyWrite(path, created);
+  return bytesWritten;
+}
+
+/** Appends `data` to the end of the file, returning the new file size. */
+async function opfsAppend(
+  path: string,
+  data: BinaryData | string,
+): Promise<number> {
+  const bytes = await toBytes(data);
+  const [fileHandle, created] = await openOrCreateFile(path);
   const file = await fileHandle.getFile();
-  return await file.text();
+  const layout = await layoutOf(file, path);
+  const mode = rangedWriteMode(file, layout);
+  if (mode !== "plain") {
+    const size =
+      mode === "sealed"
+        ? await patchSealed(fileHandle, file, layout, "end", bytes, path)
+        : await patchEncoded(fileHandle, "end", bytes);
+    notifyWrite(path, created);
+    return size;
+  }
+  const size = await withAccess(fileHandle, async (access) => {
+    await access.write(bytes, access.size());
+    return access.size() - layout.body;
+  });
+  notifyWrite(path, created);
+  return size;
 }
 
-async function opfsUpdate(fileName: string, content: string): Promise<void> {
-  const root = await navigator.storage.getDirectory();
-  const fileHandle = await root.getFileHandle(fileName, { create: false });
-  const syncHandle = await fileHandle.createSyncAccessHandle();
+/**
+ * Validates a move/copy pair and resolves both ends. The destination must
+ * not exist yet, and a directory can't be placed inside itself.
+ */
+async function prepareTransfer(from: string, to: string) {
+  assertTransferable(from, to);
+  const source = joinPath(from);
+  const target = joinPath(to);
+  const [sourceParent, entry] = await getEntry(source);
+  const [targetParent, targetName] = await resolveParent(target, true);
+  if (await findEntry(targetParent, targetName)) {
+    throw new OPFSError("ALREADY_EXISTS", `"${target}" already exists`, target);
+  }
+  return { source, target, sourceParent, entry, targetParent, targetName };
+}
+
+async function copyFile(
+  source: FileSystemFileHandle,
+  targetParent: FileSystemDirectoryHandle,
+  targetName: string,
+  signal?: AbortSignal,
+): Promise<void> {
+  const file = await source.getFile();
+  const target = await targetParent.getFileHandle(targetName, { create: true });
+  await withAccess(target, async (access) => {
+    // Stream chunk by chunk so large files never sit in memory whole
+    const reader = file.stream().getReader();
+    let position = 0;
+    for (;;) {
+      signal?.throwIfAborted();
+      const { done, value } = await reader.read();
+      if (done) break;
+      position += await access.write(value, position);
+    }
+    await access.truncate(position);
+  });
+}
+
+async function copyEntry(
+  source: FileSystemFileHandle | FileSystemDirectoryHandle,
+  targetParent: FileSystemDirectoryHandle,
+  targetName: string,
+  signal?: AbortSignal,
+): Promise<void> {
+  if (source.kind === "file") {
+    await copyFile(source, targetParent, targetName, signal);
+    return;
+  }
+  const directory = await targetParent.getDirectoryHandle(targetName, {
+    create: true,
+  });
+  for await (const child of source.values()) {
+    await copyEntry(child, directory, child.name, signal);
+  }
+}
+
+/** Copies a file or directory tree; on failure the partial copy is removed. */
+async function opfsCopy(
+  from: string,
+  to: string,
+  signal?: AbortSignal,
+): Promise<string> {
+  const { target, entry, targetParent, targetName } = await prepareTransfer(
+    from,
+    to,
+  );
   try {
-    const encoded = new TextEncoder().encode(content);
-    syncHandle.truncate(0);
-    syncHandle.write(encoded, { at: 0 });
-    syncHandle.flush();
-  } finally {
-    syncHandle.close();
+    await copyEntry(entry, targetParent, targetName, signal);
+  } catch (err) {
+    await targetParent
+      .removeEntry(targetName, { recursive: true })
+      .catch(() => undefined);
+    throw err;
+  }
+  notify({ type: "created", kind: entry.kind, path: target });
+  return target;
+}
+
+/**
+ * Moves a file or directory. Uses the native `FileSystemHandle.move()` where
+ * the engine has it; otherwise copies and only deletes the source once the
+ * copy has fully succeeded, so a failure never loses data.
+ */
+async function opfsMove(
+  from: string,
+  to: string,
+  signal?: AbortSignal,
+): Promise<string> {
+  const { source, target, sourceParent, entry, targetParent, targetName } =
+    await prepareTransfer(from, to);
+  const finish = async () => {
+    if (entry.kind === "file") {
+      await moveHistory(sourceParent, entry.name, targetParent, targetName);
+    }
+    notify({ type: "renamed", kind: entry.kind, path: target, oldPath: source });
+    return target;
+  };
+
+  if (typeof entry.move === "function") {
+    try {
+      await entry.move(targetParent, targetName);
+      return await finish();
+    } catch (err) {
+      // Older Chromium only moves files; fall through for anything else
+      const name = err instanceof DOMException ? err.name : "";
+      if (name !== "NotSupportedError" && !(err instanceof TypeError)) {
+        throw err;
+      }
+    }
+  }
+
+  try {
+    await copyEntry(entry, targetParent, targetName, signal);
+  } catch (err) {
+    await targetParent
+      .removeEntry(targetName, { recursive: true })
+      .catch(() => undefined);
+    throw err;
+  }
+  await sourceParent.removeEntry(entry.name, { recursive: true });
+  return finish();
+}
+
+async function opfsRename(
+  path: string,
+  newName: string,
+  signal?: AbortSignal,
+): Promise<string> {
+  return opfsMove(path, siblingPath(path, newName), signal);
+}
+
+async function opfsMkdir(path: string): Promise<string> {
+  const segments = splitPath(path);
+  const existed = await getDirectory(segments).then(
+    () => true,
+    () => false,
+  );
+  await getDirectory(segments, true);
+  if (!existed) notify({ type: "created", kind: "directory", path: joinPath(path) });
+  return joinPath(path);
+}
+
+async function opfsRmdir(path: string, recursive: boolean): Promise<void> {
+  const [parent, name] = await resolveParent(path);
+  await parent.getDirectoryHandle(name);
+  await parent.removeEntry(name, { recursive });
+  notify({ type: "deleted", kind: "directory", path: joinPath(path) });
+}
+
+// ── Revision History ──────────────────────────────────────────────────────────
+//
+// Before a journaled write replaces an existing file, its old contents are
+// copied into a hidden sidecar directory beside it, `.<name>.history/`, one
+// file per revision named by its id. Sidecars move with their file and are
+// removed along with it.
+
+let maxRevisions = DEFAULT_MAX_REVISIONS;
+
+/** The sidecar directory of the file at `path`, or null if it has none. */
+async function findHistory(
+  path: string,
+): Promise<FileSystemDirectoryHandle | null> {
+  const [parent, name] = await resolveParent(path);
+  const entry = await findEntry(parent, historyName(name));
+  return entry?.kind === "directory" ? entry : null;
+}
+
+async function listRevisions(
+  history: FileSystemDirectoryHandle,
+): Promise<OPFSRevision[]> {
+  const revisions: OPFSRevision[] = [];
+  for await (const entry of history.values()) {
+    const parsed = parseRevisionId(entry.name);
+    if (entry.kind !== "file" || !parsed) continue;
+    const size = await plainSize(await entry.getFile());
+    revisions.push({ id: entry.name, size, lastModified: parsed.lastModified });
+  }
+  return revisions.sort(compareRevisions);
+}
+
+/**
+ * Copies the current contents of `path` into its history. Returns where
+ * the copy went, so a write that fails before committing can drop it.
+ */
+async function recordRevision(
+  path: string,
+): Promise<[FileSystemDirectoryHandle, string] | null> {
+  if (maxRevisions <= 0 || !keepsHistory(path)) return null;
+  const [parent, name] = await resolveParent(path);
+  const current = await parent.getFileHandle(name);
+  const history = await parent.getDirectoryHandle(historyName(name), {
+    create: true,
+  });
+  const { lastModified } = await current.getFile();
+  const id = nextRevisionId(await listRevisions(history), lastModified);
+  await copyFile(current, history, id);
+  return [history, id];
+}
+
+/** Drops the oldest revisions beyond `maxRevisions`. */
+async function pruneHistory(history: FileSystemDirectoryHandle): Promise<void> {
+  for (const stale of (await listRevisions(history)).slice(maxRevisions)) {
+    await ignoreNotFound(history.removeEntry(stale.id));
   }
 }
 
-async function opfsDelete(fileName: string): Promise<void> {
-  const root = await navigator.storage.getDirectory();
-  await root.removeEntry(fileName);
+async function removeHistory(
+  parent: FileSystemDirectoryHandle,
+  name: string,
+): Promise<void> {
+  await ignoreNotFound(parent.removeEntry(historyName(name), { recursive: true }));
+}
+
+/** Carries a file's history along when the file moves. */
+async function moveHistory(
+  sourceParent: FileSystemDirectoryHandle,
+  name: string,
+  targetParent: FileSystemDirectoryHandle,
+  targetName: string,
+): Promise<void> {
+  const history = await findEntry(sourceParent, historyName(name));
+  if (history?.kind !== "directory") return;
+  await removeHistory(targetParent, targetName);
+  await copyEntry(history, targetParent, historyName(targetName));
+  await removeHistory(sourceParent, name);
+}
+
+async function getRevisionFile(
+  path: string,
+  revisionId: string,
+): Promise<FileSystemFileHandle> {
+  await getFileHandle(path);
+  const history = await findHistory(path);
+  const revision =
+    history && parseRevisionId(revisionId)
+      ? await findEntry(history, revisionId)
+      : null;
+  if (revision?.kind !== "file") throw revisionNotFound(path, revisionId);
+  return revision;
+}
+
+async function opfsHistory(path: string): Promise<OPFSRevision[]> {
+  await getFileHandle(path);
+  const history = await findHistory(path);
+  return history ? listRevisions(history) : [];
+}
+
+async function opfsReadRevision(
+  path: string,
+  revisionId: string,
+): Promise<string> {
+  const revision = await getRevisionFile(path, revisionId);
+  return new TextDecoder().decode(await readContents(await revision.getFile(), path));
+}
+
+/**
+ * Writes a revision back through the journal, which keeps the contents it
+ * replaces as a new revision.
+ */
+async function opfsRestore(path: string, revisionId: string): Promise<string> {
+  const revision = await getRevisionFile(path, revisionId);
+  // Read it up front: recording the current contents may prune this revision
+  const contents = await readContents(await revision.getFile(), path);
+  await commitJournaled([await planWrite(path, contents)]);
+  return versionOf(await (await getFileHandle(path)).getFile());
+}
+
+// ── Transactions ──────────────────────────────────────────────────────────────
+//
+// Whole-file writes never touch their target in place. Every `create`,
+// `update`, `writeBytes` and `transaction` commits through a journal:
+//   1. the journal, listing each op and its temp file, goes to JOURNAL_DIR;
+//   2. new contents are staged in hidden temp files beside their targets;
+//   3. an empty commit marker is created: the point of no return;
+//   4. temps replace their targets, deletes apply, the journal is removed.
+// `init` settles journals left behind by a closed tab: forward when the
+// marker exists, otherwise back by dropping the temps. Both directions are
+// idempotent, so dying during recovery is itself recoverable.
+
+const JOURNAL_DIR = ".opfs-journal";
+
+interface JournalEntry {
+  type: "write" | "delete";
+  path: string;
+  /** Name of the staged file, in the same directory as `path`. */
+  temp?: string;
+}
+
+interface Journal {
+  id: string;
+  entries: JournalEntry[];
+}
+
+type PlannedOp =
+  | {
+      type: "write";
+      path: string;
+      /** Or how to read it, once it's staged: one file in memory at a time. */
+      data: BinaryData | string | (() => Promise<BinaryData>);
+      created: boolean;
+      compression?: WriteCompression;
+    }
+  | { type: "delete"; path: string };
+
+/**
+ * Validates a whole-file write against what's there now. Missing parents
+ * are fine; they're created during staging.
+ */
+async function planWrite(
+  path: string,
+  data: BinaryData | string,
+  expectedVersion?: string,
+  compression?: WriteCompression,
+): Promise<PlannedOp> {
+  assertCompression(compression, path);
+  const existing = await peekEntry(path);
+  if (existing?.kind === "directory") {
+    throw new OPFSError("TYPE_MISMATCH", `"${joinPath(path)}" is a directory`, path);
+  }
+  if (expectedVersion !== undefined) {
+    if (!existing) {
+      throw new OPFSError("NOT_FOUND", `"${joinPath(path)}" does not exist`, path);
+    }
+    if (versionOf(await existing.getFile()) !== expectedVersion) {
+      throw new OPFSError(
+        "CONFLICT",
+        `"${joinPath(path)}" changed since it was read`,
+        path,
+      );
+    }
+  }
+  return { type: "write", path: joinPath(path), data, created: !existing, compression };
+}
+
+async function planDelete(path: string): Promise<PlannedOp> {
+  const [, entry] = await getEntry(path);
+  if (entry.kind !== "file") {
+    throw new OPFSError("TYPE_MISMATCH", `"${joinPath(path)}" is a directory`, path);
+  }
+  return { type: "delete", path: joinPath(path) };
+}
+
+/** Swallows NotFoundError, for steps that may already have happened. */
+async function ignoreNotFound(task: Promise<unknown>): Promise<void> {
+  try {
+    await task;
+  } catch (err) {
+    if (!(err instanceof DOMException && err.name === "NotFoundError")) throw err;
+  }
+}
+
+/**
+ * Holds a Web Lock named after the journal while `task` runs, so recovery
+ * in another tab can tell a live transaction from an abandoned one. With
+ * `ifAvailable`, `task` is skipped when someone else holds it.
+ */
+async function withJournalLock(
+  id: string,
+  task: () => Promise<void>,
+  ifAvailable = false,
+): Promise<void> {
+  if (!navigator.locks) {
+    await task();
+    return;
+  }
+  await navigator.locks.request(
+    `opfs-journal:${id}`,
+    { ifAvailable },
+    async (lock) => {
+      if (lock) await task();
+    },
+  );
+}
+
+/** Moves a staged temp over its target; a no-op once it has been moved. */
+async function commitTemp(
+  parent: FileSystemDirectoryHandle,
+  name: string,
+  tempName: string,
+): Promise<void> {
+  const temp = await findEntry(parent, tempName);
+  if (!temp || temp.kind !== "file") return;
+  if (typeof temp.move === "function") {
+    try {
+      await ignoreNotFound(parent.removeEntry(name));
+      await temp.move(parent, name);
+      return;
+    } catch (err) {
+      const errName = err instanceof DOMException ? err.name : "";
+      if (errName !== "NotSupportedError" && !(err instanceof TypeError)) {
+        throw err;
+      }
+    }
+  }
+  // Not atomic, but the temp survives until the copy is complete
+  await copyFile(temp, parent, name);
+  await parent.removeEntry(tempName);
+}
+
+async function applyJournal(journal: Journal): Promise<void> {
+  for (const entry of journal.entries) {
+    const [segments, name] = splitParent(entry.path);
+    let parent: FileSystemDirectoryHandle;
+    try {
+      parent = await getDirectory(segments);
+    } catch (err) {
+      if (err instanceof DOMException && err.name === "NotFoundError") continue;
+      throw err;
+    }
+    if (entry.type === "write" && entry.temp) {
+      await commitTemp(parent, name, entry.temp);
+    } else if (entry.type === "delete") {
+      await ignoreNotFound(parent.removeEntry(name));
+    }
+  }
+}
+
+async function discardJournal(journal: Journal): Promise<void> {
+  for (const entry of journal.entries) {
+    if (!entry.temp) continue;
+    const [segments] = splitParent(entry.path);
+    try {
+      const parent = await getDirectory(segments);
+      await ignoreNotFound(parent.removeEntry(entry.temp));
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === "NotFoundError")) throw err;
+    }
+  }
+}
+
+/**
+ * `resolveParent(path, true)`, noting each directory it had to create in
+ * `created` so a rolled-back commit can take them away again.
+ */
+async function createParent(
+  path: string,
+  created: string[],
+): Promise<FileSystemDirectoryHandle> {
+  const [segments] = splitParent(path);
+  let directory = await storageRoot();
+  for (let depth = 0; depth < segments.length; depth++) {
+    try {
+      directory = await directory.getDirectoryHandle(segments[depth]);
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === "NotFoundError")) throw err;
+      directory = await directory.getDirectoryHandle(segments[depth], { create: true });
+      created.push(joinPath(...segments.slice(0, depth + 1)));
+    }
+  }
+  return directory;
+}
+
+/**
+ * Removes directories a rolled-back commit created, deepest first. One a
+ * concurrent write has put something in since isn't empty, and stays.
+ */
+async function removeCreatedDirectories(created: string[]): Promise<void> {
+  for (const path of created.slice().reverse()) {
+    try {
+      const [parent, name] = await resolveParent(path);
+      await parent.removeEntry(name);
+    } catch {
+      // Not empty, or already gone
+    }
+  }
+}
+
+/** Drops the marker before the journal, so a crash in between rolls back (a no-op). */
+async function removeJournal(
+  journalDir: FileSystemDirectoryHandle,
+  id: string,
+): Promise<void> {
+  await ignoreNotFound(journalDir.removeEntry(`${id}.commit`));
+  await ignoreNotFound(journalDir.removeEntry(`${id}.json`));
+}
+
+/**
+ * Runs already-validated ops through the journal (see above) and reports
+ * the resulting changes. A failure before the marker leaves nothing behind.
+ */
+async function commitJournaled(
+  ops: PlannedOp[],
+  signal?: AbortSignal,
+): Promise<void> {
+  const id = crypto.randomUUID();
+  const journal: Journal = {
+    id,
+    entries: ops.map((op) => {
+      if (op.type === "delete") return { type: "delete", path: op.path };
+      const [, name] = splitParent(op.path);
+      return { type: "write", path: op.path, temp: `.${name}.${id}.tmp` };
+    }),
+  };
+
+  await withJournalLock(id, async () => {
+    const journalDir = await getDirectory([JOURNAL_DIR], true);
+    const journalFile = await journalDir.getFileHandle(`${id}.json`, {
+      create: true,
+    });
+    await writeContents(
+      journalFile,
+      new TextEncoder().encode(JSON.stringify(journal)),
+    );
+
+    const revisions: Array<[FileSystemDirectoryHandle, string]> = [];
+    const createdDirectories: string[] = [];
+    try {
+      for (const op of ops) {
+        if (op.type !== "write" || op.created) continue;
+        const revision = await recordRevision(op.path);
+        if (revision) revisions.push(revision);
+      }
+      for (let index = 0; index < ops.length; index++) {
+        signal?.throwIfAborted();
+        const op = ops[index];
+        const temp = journal.entries[index].temp;
+        if (op.type !== "write" || !temp) continue;
+        const format = compressionFor(
+          compressionRules,
+          op.path,
+          op.compression,
+          await storedFormat(op.path),
+        );
+        const parent = await createParent(op.path, createdDirectories);
+        const tempFile = await parent.getFileHandle(temp, { create: true });
+        const data = typeof op.data === "function" ? await op.data() : op.data;
+        await writeContents(tempFile, await encodeContents(await toBytes(data), format));
+      }
+      signal?.throwIfAborted();
+      await journalDir.getFileHandle(`${id}.commit`, { create: true });
+    } catch (err) {
+      for (const [history, id] of revisions) {
+        await ignoreNotFound(history.removeEntry(id)).catch(() => undefined);
+      }
+      await discardJournal(journal).catch(() => undefined);
+      await removeCreatedDirectories(createdDirectories);
+      await removeJournal(journalDir, id).catch(() => undefined);
+      throw err;
+    }
+
+    // Past the marker the transaction happens, even if this tab dies now
+    await applyJournal(journal);
+    await removeJournal(journalDir, id);
+
+    for (const [history] of revisions) await pruneHistory(history);
+    for (const op of ops) {
+      if (op.type !== "delete") continue;
+      const [parent, name] = await resolveParent(op.path);
+      await removeHistory(parent, name);
+    }
+  });
+
+  for (const op of ops) {
+    if (op.type === "write") notifyWrite(op.path, op.created);
+    else notify({ type: "deleted", kind: "file", path: op.path });
+  }
+}
+
+function parseJournal(text: string): Journal | null {
+  try {
+    const journal = JSON.parse(text);
+    return typeof journal?.id === "string" && Array.isArray(journal.entries)
+      ? (journal as Journal)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Finishes or undoes every journal that no live transaction holds. */
+async function recoverJournals(): Promise<void> {
+  const root = await storageRoot();
+  const journalDir = await findEntry(root, JOURNAL_DIR);
+  if (!journalDir || journalDir.kind !== "directory") return;
+
+  const ids: string[] = [];
+  for await (const entry of journalDir.values()) {
+    if (entry.name.endsWith(".json")) ids.push(entry.name.slice(0, -5));
+  }
+
+  for (const id of ids) {
+    await withJournalLock(
+      id,
+      async () => {
+        const file = await findEntry(journalDir, `${id}.json`);
+        if (!file || file.kind !== "file") return;
+        // A torn journal means the crash came before any temp was written
+        const journal = parseJournal(await (await file.getFile()).text());
+        const committed = Boolean(await findEntry(journalDir, `${id}.commit`));
+        if (journal && committed) {
+          await applyJournal(journal);
+          journal.entries.forEach(({ type, path }) =>
+            pendingChecksums.push({
+              type: type === "delete" ? "deleted" : "updated",
+              kind: "file",
+              path,
+            }),
+          );
+        }
+        else if (journal) await discardJournal(journal);
+        await removeJournal(journalDir, id);
+      },
+      true,
+    );
+  }
+}
+
+async function opfsTransaction(
+  ops: TransactionOp[],
+  signal?: AbortSignal,
+): Promise<void> {
+  assertDistinctPaths(ops);
+  const planned: PlannedOp[] = [];
+  for (const op of ops) {
+    planned.push(
+      op.type === "write"
+        ? await planWrite(op.path, op.content, op.expectedVersion, op.compression)
+        : await planDelete(op.path),
+    );
+  }
+  await commitJournaled(planned, signal);
+}
+
+// ── Archives ──────────────────────────────────────────────────────────────────
+//
+// Export holds a shared lock on the root for the whole walk, so the archive
+// is a consistent snapshot. Import plans every entry first, then writes all
+// files through one journaled commit: either the whole archive lands or
+// none of its files do. OPFS can't set modification times, so imported
+// files are stamped with the time of the import.
+
+async function opfsExportArchive(
+  compress: boolean,
+  signal?: AbortSignal,
+): Promise<Blob> {
+  // Directories carry no timestamp in OPFS; they get the export time
+  const exportedAt = Date.now();
+  const entries: ZipSource[] = [];
+  const walk = async (directory: FileSystemDirectoryHandle, path: string) => {
+    const children: Array<FileSystemFileHandle | FileSystemDirectoryHandle> = [];
+    for await (const entry of directory.values()) {
+      if (!isInternalName(entry.name)) children.push(entry);
+    }
+    children.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    for (const entry of children) {
+      signal?.throwIfAborted();
+      const entryPath = joinPath(path, entry.name);
+      if (entry.kind === "file") {
+        const file = await entry.getFile();
+        const layout = await layoutOf(file, entryPath);
+        const data =
+          layout.compressed || layout.sealed
+            ? new Blob([await readContents(file, entryPath)])
+            : file.slice(layout.body);
+        entries.push({ path: entryPath, kind: "file", lastModified: file.lastModified, data });
+      } else {
+        entries.push({ path: entryPath, kind: "directory", lastModified: exportedAt });
+        await walk(entry, entryPath);
+      }
+    }
+  };
+  await walk(await storageRoot(), "");
+  return createZip(entries, { compress });
+}
+
+async function opfsImportArchive(
+  archive: BinaryData,
+  onConflict: ImportConflictPolicy,
+  signal?: AbortSignal,
+): Promise<ImportResult> {
+  const plan = await planImport(
+    await readZip(archive instanceof Blob ? archive : new Blob([archive])),
+    async (path) => (await peekEntry(path))?.kind ?? null,
+    onConflict,
+  );
+  const ops: PlannedOp[] = plan.files.map(({ item, path, exists }) => ({
+    type: "write",
+    path,
+    data: () => item.read(),
+    created: !exists,
+  }));
+  await commitJournaled(ops, signal);
+  // Only once the files are in, so a failed import leaves no empty folders
+  for (const path of plan.directories) {
+    await getDirectory(splitPath(path), true);
+    notify({ type: "created", kind: "directory", path });
+  }
+  return importResultOf(plan);
+}
+
+// ── Search ────────────────────────────────────────────────────────────────────
+//
+// The index is kept in memory, updated from `notify`, and saved under
+// SEARCH_DIR by searches that find it changed. Reads for indexing take a
+// shared lock on the file so they never see a write half done.
+
+const SEARCH_DIR = ".opfs-search";
+const SEARCH_INDEX_FILE = "index.json";
+
+const searchSource: SearchSource = {
+  read: (path) =>
+    locks.withLock([joinPath(path)], "shared", async () => {
+      const entry = await peekEntry(path);
+      if (entry?.kind !== "file") return null;
+      const file = await entry.getFile();
+      // A File goes unreadable once written to, so small ones are copied now
+      const data =
+        file.size > MAX_INDEXED_BYTES ? file : new Blob([await readContents(file, path)]);
+      return { version: versionOf(file), data };
+    }),
+
+  files: (path) =>
+    locks.withLock([joinPath(path)], "shared", async () => {
+      const files: Array<{ path: string; version: string }> = [];
+      const walk = async (
+        handle: FileSystemFileHandle | FileSystemDirectoryHandle,
+        at: string,
+      ) => {
+        if (handle.kind === "file") {
+          files.push({ path: at, version: versionOf(await handle.getFile()) });
+          return;
+        }
+        for await (const entry of handle.values()) {
+          if (!entry.name.startsWith(".")) await walk(entry, joinPath(at, entry.name));
+        }
+      };
+      const start =
+        splitPath(path).length > 0
+          ? await peekEntry(path)
+          : await storageRoot();
+      if (start) await walk(start, joinPath(path));
+      return files;
+    }),
+};
+
+const searchStore: SearchStore = {
+  async load() {
+    const root = await storageRoot();
+    const directory = await findEntry(root, SEARCH_DIR);
+    const file =
+      directory?.kind === "directory"
+        ? await findEntry(directory, SEARCH_INDEX_FILE)
+        : null;
+    if (file?.kind !== "file") return null;
+    try {
+      const bytes = await readContents(await file.getFile());
+      return JSON.parse(new TextDecoder().decode(bytes)) as SearchIndexData;
+    } catch {
+      // Torn by a closed tab; rebuilt from the files
+      return null;
+    }
+  },
+
+  async save(data) {
+    const directory = await getDirectory([SEARCH_DIR], true);
+    const file = await directory.getFileHandle(SEARCH_INDEX_FILE, { create: true });
+    // Sealed too: the index is made of words from the contents
+    const bytes = new TextEncoder().encode(JSON.stringify(data));
+    await writeContents(file, await encodeContents(bytes, null));
+  },
+};
+
+let searchIndex = createSearchIndexer(searchSource, searchStore);
+
+// ── Integrity ─────────────────────────────────────────────────────────────────
+//
+// MANIFEST_FILE maps every file outside internal names to the SHA-256 of
+// its stored bytes as of its last write. `notify` queues each change; the
+// dispatcher records the checksums for the paths an exclusive request held
+// before it lets go of them, so nothing else sees the file in between.
+// `verify` compares against the manifest and looks for orphans.
+
+const MANIFEST_FILE = ".opfs-manifest";
+
+interface Checksum {
+  sha256: string;
+  /** Stored bytes, to tell truncation from other damage. */
+  size: number;
+}
+
+interface Manifest {
+  format: 1;
+  files: Record<string, Checksum>;
+}
+
+/** Changes whose checksums haven't been recorded yet. */
+const pendingChecksums: OPFSChangeEvent[] = [];
+/** Manifest updates rewrite the whole file, so they run one at a time. */
+let manifestQueue: Promise<unknown> = Promise.resolve();
+
+function isChecked(path: string): boolean {
+  return !splitPath(path).some(isInternalName);
+}
+
+function isUnder(path: string, root: string): boolean {
+  return root === "" || path === root || path.startsWith(`${root}/`);
+}
+
+async function checksumOf(file: Blob): Promise<Checksum> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  const sha256 = Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+  return { sha256, size: file.size };
+}
+
+async function loadManifest(): Promise<Manifest> {
+  const root = await storageRoot();
+  const file = await findEntry(root, MANIFEST_FILE);
+  if (file?.kind === "file") {
+    try {
+      const manifest = JSON.parse(await (await file.getFile()).text());
+      if (manifest?.format === 1 && typeof manifest.files === "object") return manifest;
+    } catch {
+      // Torn: every file reads as unrecorded until repaired
+    }
+  }
+  return { format: 1, files: {} };
+}
+
+/** Runs `task` on the manifest's entries and saves what it leaves. */
+function updateManifest(
+  task: (files: Record<string, Checksum>) => Promise<void>,
+): Promise<void> {
+  const update = manifestQueue.then(async () => {
+    const manifest = await loadManifest();
+    await task(manifest.files);
+    const root = await storageRoot();
+    const file = await root.getFileHandle(MANIFEST_FILE, { create: true });
+    await writeContents(file, new TextEncoder().encode(JSON.stringify(manifest)));
+  });
+  manifestQueue = update.catch(() => undefined);
+  return update;
+}
+
+function forget(files: Record<string, Checksum>, path: string): void {
+  Object.keys(files).forEach((known) => {
+    if (isUnder(known, path)) delete files[known];
+  });
+}
+
+/** Records the checksum of every file at or under `path`, as they are now. */
+async function record(files: Record<string, Checksum>, path: string): Promise<void> {
+  forget(files, path);
+  const entry = isChecked(path) ? await peekEntry(path) : null;
+  if (entry?.kind === "file") {
+    files[path] = await checksumOf(await entry.getFile());
+  } else if (entry?.kind === "directory") {
+    for await (const child of entry.values()) {
+      if (!isInternalName(child.name)) await record(files, joinPath(path, child.name));
+    }
+  }
+}
+
+async function applyChange(
+  files: Record<string, Checksum>,
+  change: OPFSChangeEvent,
+): Promise<void> {
+  const { oldPath } = change;
+  if (change.type === "deleted") {
+    forget(files, change.path);
+  } else if (change.type === "renamed" && oldPath !== undefined) {
+    Object.keys(files).forEach((known) => {
+      if (!isUnder(known, oldPath)) return;
+      files[change.path + known.slice(oldPath.length)] = files[known];
+      delete files[known];
+    });
+  } else {
+    await record(files, change.path);
+  }
+}
+
+/** Records checksums for the queued changes at or under `paths`. */
+async function recordChecksums(paths: string[]): Promise<void> {
+  const changes = pendingChecksums.filter((change) =>
+    paths.some((path) => isUnder(change.path, path)),
+  );
+  if (changes.length === 0) return;
+  const rest = pendingChecksums.filter((change) => !changes.includes(change));
+  pendingChecksums.splice(0, pendingChecksums.length, ...rest);
+  try {
+    await updateManifest(async (files) => {
+      for (const change of changes) await applyChange(files, change);
+    });
+  } catch (err) {
+    // The write itself succeeded; verify reports the file until it's repaired
+    console.warn("[OPFS Worker] Recording checksums failed:", toOPFSError(err).message);
+  }
+}
+
+async function journalIds(): Promise<Set<string>> {
+  const ids = new Set<string>();
+  const journalDir = await findEntry(await storageRoot(), JOURNAL_DIR);
+  if (journalDir?.kind === "directory") {
+    for await (const entry of journalDir.values()) {
+      if (entry.name.endsWith(".json")) ids.add(entry.name.slice(0, -5));
+    }
+  }
+  return ids;
+}
+
+async function namesIn(directory: FileSystemDirectoryHandle): Promise<Set<string>> {
+  const names = new Set<string>();
+  for await (const entry of directory.values()) names.add(entry.name);
+  return names;
+}
+
+async function opfsVerify(path: string, signal?: AbortSignal): Promise<VerifyReport> {
+  const root = joinPath(path);
+  const { files } = await loadManifest();
+  const journals = await journalIds();
+  const report: VerifyReport = { checked: 0, problems: [] };
+  const seen = new Set<string>();
+
+  const visit = async (
+    entry: FileSystemFileHandle | FileSystemDirectoryHandle,
+    entryPath: string,
+    siblings: Set<string>,
+  ): Promise<void> => {
+    signal?.throwIfAborted();
+    if (isInternalName(entry.name)) {
+      const reason = orphanReason(entry.name, siblings, journals);
+      if (reason) report.problems.push({ type: "orphaned", path: entryPath, message: reason });
+      return;
+    }
+    if (entry.kind === "directory") {
+      const names = await namesIn(entry);
+      for await (const child of entry.values()) {
+        await visit(child, joinPath(entryPath, child.name), names);
+      }
+      return;
+    }
+    report.checked++;
+    seen.add(entryPath);
+    const expected = files[entryPath];
+    if (!expected) {
+      report.problems.push({
+        type: "unrecorded",
+        path: entryPath,
+        message: "No checksum was recorded for this file",
+      });
+      return;
+    }
+    const actual = await checksumOf(await entry.getFile());
+    if (actual.sha256 !== expected.sha256) {
+      report.problems.push({
+        type: "corrupted",
+        path: entryPath,
+        message:
+          actual.size === expected.size
+            ? "Contents don't match their checksum"
+            : `Expected ${expected.size} stored bytes, found ${actual.size}`,
+      });
+    }
+  };
+
+  if (root === "") {
+    const directory = await storageRoot();
+    const names = await namesIn(directory);
+    for await (const child of directory.values()) await visit(child, child.name, names);
+  } else {
+    const [parent, entry] = await getEntry(root);
+    await visit(entry, root, await namesIn(parent));
+  }
+  Object.keys(files).forEach((known) => {
+    if (isUnder(known, root) && !seen.has(known)) {
+      report.problems.push({ type: "missing", path: known, message: "Recorded, but no longer there" });
+    }
+  });
+  sortProblems(report.problems);
+  return report;
+}
+
+async function isStillThere(problem: IntegrityProblem): Promise<boolean> {
+  const path = joinPath(problem.path);
+  if (problem.type === "missing") {
+    return Boolean((await loadManifest()).files[path]) && !(await peekEntry(path));
+  }
+  try {
+    const { problems } = await opfsVerify(path);
+    return problems.some((found) => found.type === problem.type && found.path === path);
+  } catch (err) {
+    if (err instanceof OPFSError && err.code === "NOT_FOUND") return false;
+    throw err;
+  }
+}
+
+async function opfsRepair(problem: IntegrityProblem, action: RepairAction): Promise<void> {
+  assertRepairable(problem, action);
+  if (!(await isStillThere(problem))) throw problemNotFound(problem);
+  const path = joinPath(problem.path);
+  if (problem.type === "missing") {
+    await updateManifest(async (files) => forget(files, path));
+  } else if (action === "quarantine") {
+    const [parent, entry] = await getEntry(path);
+    const [segments, name] = splitParent(quarantinePath(path, Date.now()));
+    const target = await getDirectory(segments, true);
+    await copyEntry(entry, target, name);
+    await moveHistory(parent, entry.name, target, name);
+    await parent.removeEntry(entry.name, { recursive: true });
+    if (problem.type !== "orphaned") notify({ type: "deleted", kind: "file", path });
+  } else if (problem.type === "corrupted") {
+    const [newest] = await opfsHistory(path);
+    if (!newest) {
+      throw new OPFSError("NOT_FOUND", `"${path}" has no revision to repair it from`, path);
+    }
+    await opfsRestore(path, newest.id);
+  } else if (problem.type === "unrecorded") {
+    await updateManifest((files) => record(files, path));
+  } else {
+    const [parent, name] = await resolveParent(path);
+    await parent.removeEntry(name, { recursive: true });
+  }
+}
+
+// ── Storage ───────────────────────────────────────────────────────────────────
+//
+// Writes into a cache directory lock the whole directory (see `cacheLock`),
+// and the dispatcher trims it before answering, so eviction can delete any
+// file there and callers never see the cache over its limits.
+
+/** What `navigator.storage.persist()` answered at init. */
+let persisted = false;
+const caches = createCacheTracker();
+
+/** Widens exclusive locks on paths inside a cache to the cache directory. */
+function cacheLock(
+  lock: { paths: string[]; mode: LockMode } | null,
+): { paths: string[]; mode: LockMode } | null {
+  if (lock?.mode !== "exclusive") return lock;
+  return {
+    paths: lock.paths.map((path) => caches.policyFor(path)?.path ?? path),
+    mode: "exclusive",
+  };
+}
+
+async function trimCache(policy: CachePolicy): Promise<void> {
+  const directory = await peekEntry(policy.path);
+  if (directory?.kind !== "directory") return;
+  const files: CachedFile[] = [];
+  const walk = async (handle: FileSystemDirectoryHandle, at: string) => {
+    for await (const entry of handle.values()) {
+      if (entry.name.startsWith(".")) continue;
+      const path = joinPath(at, entry.name);
+      if (entry.kind === "directory") await walk(entry, path);
+      else {
+        const file = await entry.getFile();
+        files.push({ path, size: await plainSize(file), lastModified: file.lastModified });
+      }
+    }
+  };
+  await walk(directory, policy.path);
+  for (const path of caches.evictions(policy, files)) {
+    const [parent, name] = await resolveParent(path);
+    await ignoreNotFound(parent.removeEntry(name));
+    await removeHistory(parent, name);
+    notify({ type: "deleted", kind: "file", path });
+  }
+}
+
+/** Trims every cache directory at or under one of the exclusively locked `paths`. */
+async function trimCaches(paths: string[]): Promise<void> {
+  for (const policy of caches.policies()) {
+    const locked = paths.some(
+      (path) => path === "" || policy.path === path || policy.path.startsWith(`${path}/`),
+    );
+    if (locked) await trimCache(policy);
+  }
+}
+
+async function directorySize(directory: FileSystemDirectoryHandle): Promise<number> {
+  let size = 0;
+  for await (const entry of directory.values()) {
+    size += entry.kind === "file" ? (await entry.getFile()).size : await directorySize(entry);
+  }
+  return size;
+}
+
+/** Logical and stored sizes of the visible files below `directory`. */
+async function visibleSizes(
+  directory: FileSystemDirectoryHandle,
+  totals = { size: 0, storedSize: 0 },
+): Promise<{ size: number; storedSize: number }> {
+  for await (const entry of directory.values()) {
+    if (entry.name.startsWith(".")) continue;
+    if (entry.kind === "directory") {
+      await visibleSizes(entry, totals);
+      continue;
+    }
+    const file = await entry.getFile();
+    totals.size += await plainSize(file);
+    totals.storedSize += file.size;
+  }
+  return totals;
+}
+
+async function opfsStorageInfo(byDirectory: boolean): Promise<StorageInfo> {
+  const inMemory = backend?.name === "memory";
+  // Memory isn't the origin's storage, so the browser can't say what it holds
+  const estimate: StorageEstimate =
+    !inMemory && navigator.storage?.estimate
+      ? await navigator.storage.estimate()
+      : { usage: await directorySize(await storageRoot()) };
+  const info: StorageInfo = {
+    usage: estimate.usage ?? 0,
+    quota: estimate.quota ?? null,
+    // Asked again, since the browser may grant or revoke it after init
+    persisted:
+      !inMemory && navigator.storage?.persisted ? await navigator.storage.persisted() : persisted,
+  };
+  if (byDirectory) {
+    const directories: FileSystemDirectoryHandle[] = [];
+    for await (const entry of (await storageRoot()).values()) {
+      if (entry.kind === "directory" && !entry.name.startsWith(".")) directories.push(entry);
+    }
+    directories.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    info.directories = [];
+    for (const directory of directories) {
+      info.directories.push({ path: directory.name, size: await directorySize(directory) });
+    }
+    info.files = await visibleSizes(await storageRoot());
+  }
+  return info;
 }
 
 // ── Message Dispatcher ────────────────────────────────────────────────────────
 
-self.onmessage = async (event: MessageEvent<OPFSRequest>) => {
-  const { correlationId, type } = event.data;
+self.onmessage = async (event: MessageEvent<unknown>) => {
+  let request: OPFSRequest;
+  try {
+    request = validateRequest(event.data);
+  } catch (err) {
+    // Without a correlation id there is nobody to answer
+    const correlationId = correlationIdOf(event.data);
+    const error = toOPFSError(err);
+    if (correlationId === undefined) {
+      console.error("[OPFS Worker] Dropped invalid message:", error.message);
+      return;
+    }
+    self.postMessage({
+      correlationId,
+      ok: false,
+      error: error.message,
+      code: error.code,
+    } as ErrorResponse);
+    return;
+  }
+  const { correlationId, type } = request;
+
+  // Cancellation is fire-and-forget; the client already settled the call
+  if (type === "cancel") {
+    const { targetId } = request as RequestOf<"cancel">;
+    inFlight.get(targetId)?.abort(new DOMException("Cancelled", "AbortError"));
+    return;
+  }
+
+  const controller = new AbortController();
+  const { signal } = controller;
+  inFlight.set(correlationId, controller);
 
-  const reply = <T>(data: T) =>
-    self.postMessage({ correlationId, ok: true, data } as SuccessResponse<T>);
+  // Reported with the reply, so the page can tell lock waits from work
+  const received = performance.now();
+  let started = received;
+  const timing = (): WorkerTiming => ({
+    queuedMs: started - received,
+    executionMs: performance.now() - started,
+  });
+
+  // Held back until caches the request wrote to are trimmed
+  let response: [SuccessResponse<unknown>, Transferable[]] | undefined;
+  const reply = <T>(data: T, transfer: Transferable[] = []) => {
+    response = [{ correlationId, ok: true, data } as SuccessResponse<T>, transfer];
+  };
 
   const replyError = (err: unknown) => {
-    const message = err instanceof Error ? err.message : String(err);
-    self.postMessage({ correlationId, ok: false, error: message } as ErrorResponse);
+    const error = toOPFSError(err, pathOf(request));
+    self.postMessage({
+      correlationId,
+      ok: false,
+      error: error.message,
+      code: error.code,
+      path: error.path,
+      timing: timing(),
+    } as ErrorResponse);
+  };
+
+  const assertUnlocked = () => {
+    if (storeLocked && type !== "init" && type !== "lock") {
+      throw new OPFSError("STORE_LOCKED", "Storage is locked; init with its passphrase or key");
+    }
   };
 
+  let release: (() => void) | undefined;
+  let lock: ReturnType<typeof lockFor> = null;
   try {
+    assertUnlocked();
+    lock = cacheLock(lockFor(request));
+    if (lock) release = await locks.acquire(lock.paths, lock.mode, signal);
+    // A `lock` queued ahead of this request may have run while it waited
+    assertUnlocked();
+    started = performance.now();
+
     switch (type) {
-      case "init":
-        await opfsInit();
-        reply<void>(undefined);
+      case "init": {
+        const { protocolVersion, options } = request as RequestOf<"init">;
+        reply<InitResult>(await opfsInit(protocolVersion, options));
         break;
+      }
 
-      case "list":
-        reply<string[]>(await opfsList());
+      case "list": {
+        const { path, withStats } = request as RequestOf<"list">;
+        reply<OPFSEntry[] | OPFSStat[]>(await opfsList(path, withStats));
         break;
+      }
+
+      case "stat": {
+        const { path } = request as RequestOf<"stat">;
+        reply<OPFSStat>(await opfsStat(path));
+        break;
+      }
 
       case "create": {
-        const { fileName, content } = event.data as Extract<OPFSRequest, { type: "create" }>;
-        reply<string>(await opfsCreate(fileName, content));
+        const { path, content, overwrite, compression } = request as RequestOf<"create">;
+        reply<string>(await opfsCreate(path, content, overwrite, compression));
         break;
       }
 
       case "read": {
-        const { fileName } = event.data as Extract<OPFSRequest, { type: "read" }>;
-        reply<string>(await opfsRead(fileName));
+        const { path } = request as RequestOf<"read">;
+        reply<string>(await opfsRead(path));
+        break;
+      }
+
+      case "readVersioned": {
+        const { path } = request as RequestOf<"readVersioned">;
+        reply<VersionedContent>(await opfsReadVersioned(path));
         break;
       }
 
       case "update": {
-        const { fileName, content } = event.data as Extract<OPFSRequest, { type: "update" }>;
-        await opfsUpdate(fileName, content);
-        reply<void>(undefined);
+        const { path, content, expectedVersion, compression } = request as RequestOf<"update">;
+        reply<string>(await opfsUpdate(path, content, expectedVersion, compression));
         break;
       }
 
       case "delete": {
-        const { fileName } = event.data as Extract<OPFSRequest, { type: "delete" }>;
-        await opfsDelete(fileName);
+        const { path } = request as RequestOf<"delete">;
+        await opfsDelete(path);
+        reply<void>(undefined);
+        break;
+      }
+
+      case "mkdir": {
+        const { path } = request as RequestOf<"mkdir">;
+        reply<string>(await opfsMkdir(path));
+        break;
+      }
+
+      case "rmdir": {
+        const { path, recursive } = request as RequestOf<"rmdir">;
+        await opfsRmdir(path, recursive);
+        reply<void>(undefined);
+        break;
+      }
+
+      case "readBytes": {
+        const { path } = request as RequestOf<"readBytes">;
+        const buffer = await opfsReadBytes(path);
+        reply<ArrayBuffer>(buffer, [buffer]);
+        break;
+      }
+
+      case "writeBytes": {
+        const { path, data, compression } = request as RequestOf<"writeBytes">;
+        await opfsWriteBytes(path, data, compression);
+        reply<void>(undefined);
+        break;
+      }
+
+      case "readRange": {
+        const { path, offset, length } = request as RequestOf<"readRange">;
+        const buffer = await opfsReadRange(path, offset, length);
+        reply<ArrayBuffer>(buffer, [buffer]);
+        break;
+      }
+
+      case "writeAt": {
+        const { path, offset, data } = request as RequestOf<"writeAt">;
+        reply<number>(await opfsWriteAt(path, offset, data));
+        break;
+      }
+
+      case "append": {
+        const { path, data } = request as RequestOf<"append">;
+        reply<number>(await opfsAppend(path, data));
+        break;
+      }
+
+      case "rename": {
+        const { path, newName } = request as RequestOf<"rename">;
+        reply<string>(await opfsRename(path, newName, signal));
+        break;
+      }
+
+      case "move": {
+        const { from, to } = request as RequestOf<"move">;
+        reply<string>(await opfsMove(from, to, signal));
+        break;
+      }
+
+      case "copy": {
+        const { from, to } = request as RequestOf<"copy">;
+        reply<string>(await opfsCopy(from, to, signal));
+        break;
+      }
+
+      case "transaction": {
+        const { ops } = request as RequestOf<"transaction">;
+        await opfsTransaction(ops, signal);
+        reply<void>(undefined);
+        break;
+      }
+
+      case "history": {
+        const { path } = request as RequestOf<"history">;
+        reply<OPFSRevision[]>(await opfsHistory(path));
+        break;
+      }
+
+      case "readRevision": {
+        const { path, revisionId } = request as RequestOf<"readRevision">;
+        reply<string>(await opfsReadRevision(path, revisionId));
+        break;
+      }
+
+      case "restore": {
+        const { path, revisionId } = request as RequestOf<"restore">;
+        reply<string>(await opfsRestore(path, revisionId));
+        break;
+      }
+
+      case "exportArchive": {
+        const { compress } = request as RequestOf<"exportArchive">;
+        reply<Blob>(await opfsExportArchive(compress, signal));
+        break;
+      }
+
+      case "importArchive": {
+        const { archive, onConflict } = request as RequestOf<"importArchive">;
+        reply<ImportResult>(await opfsImportArchive(archive, onConflict, signal));
+        break;
+      }
+
+      case "search": {
+        const { query, limit } = request as RequestOf<"search">;
+        reply<SearchResult[]>(await searchIndex.search(query, limit));
+        break;
+      }
+
+      case "storageInfo": {
+        const { byDirectory } = request as RequestOf<"storageInfo">;
+        reply<StorageInfo>(await opfsStorageInfo(byDirectory));
+        break;
+      }
+
+      case "lock": {
+        opfsLock();
+        reply<void>(undefined);
+        break;
+      }
+
+      case "verify": {
+        const { path } = request as RequestOf<"verify">;
+        reply<VerifyReport>(await opfsVerify(path, signal));
+        break;
+      }
+
+      case "repair": {
+        const { problem, action } = request as RequestOf<"repair">;
+        await opfsRepair(problem, action);
         reply<void>(undefined);
         break;
       }
 
       default:
-        replyError(`Unknown message type: ${(event.data as any).type}`);
+        replyError(
+          new OPFSError(
+            "INVALID_REQUEST",
+            `Unknown message type: ${(request as any).type}`,
+          ),
+        );
+    }
+    if (response && lock?.mode === "exclusive") {
+      // The write itself succeeded; a failed eviction is retried by the next one
+      await trimCaches(lock.paths).catch((err) =>
+        console.warn("[OPFS Worker] Cache eviction failed:", toOPFSError(err).message),
+      );
+    }
+    if (lock?.mode === "exclusive") await recordChecksums(lock.paths);
+    if (response) {
+      const [message, transfer] = response;
+      self.postMessage({ ...message, timing: timing() }, transfer);
     }
   } catch (err) {
+    // Whatever a failed request did write still gets its checksums
+    if (lock?.mode === "exclusive") await recordChecksums(lock.paths);
     replyError(err);
+  } finally {
+    release?.();
+    inFlight.delete(correlationId);
   }
 };
@@ -0,0 +1,367 @@
+import { joinPath, splitParent, splitPath } from "./opfs-paths";
+import { OPFSChangeEvent, OPFSError, SearchResult } from "./opfs-protocol";
+
+// ── Full-Text Search ──────────────────────────────────────────────────────────
+//
+// An inverted index over file names and contents, shared by every backend.
+// Each backend feeds it the changes it reports to watchers and lets it read
+// files through a `SearchSource`; the OPFS worker also persists it. Every
+// indexed file remembers the version it was built from, so an index that
+// fell behind (another tab wrote, or this one closed before saving) is
+// caught up by re-reading only the files whose version moved.
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+/** Larger files are found by name only. */
+export const MAX_INDEXED_BYTES = 1024 * 1024;
+/** A word in the file name counts as much as this many in the contents. */
+const NAME_WEIGHT = 3;
+/** BM25 term-frequency saturation and length normalization. */
+const K1 = 1.2;
+const B = 0.75;
+const SNIPPET_LEAD = 40;
+const SNIPPET_LENGTH = 160;
+/** Rounds of re-ranking when hits turn out to have changed on disk. */
+const MAX_RANK_ATTEMPTS = 3;
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/** Lower-cased, accent-folded words of `text`, with their offsets in it. */
+function tokenize(text: string): Token[] {
+  const word = /[\p{L}\p{N}]+/gu;
+  const tokens: Token[] = [];
+  for (let match = word.exec(text); match; match = word.exec(text)) {
+    tokens.push({
+      term: match[0].normalize("NFD").replace(/\p{M}/gu, "").toLowerCase(),
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+/** Hidden files, and anything inside a hidden directory, are not indexed. */
+function isSearchable(path: string): boolean {
+  return splitPath(path).every((segment) => !segment.startsWith("."));
+}
+
+interface ParsedQuery {
+  terms: string[];
+  /** While typing, the last word matches any term it begins. */
+  prefix: string | null;
+}
+
+function parseQuery(query: string): ParsedQuery {
+  const terms = tokenize(query).map((token) => token.term);
+  const prefix = terms.length > 0 && !/\s$/.test(query) ? terms.pop()! : null;
+  return { terms: Array.from(new Set(terms)), prefix };
+}
+
+function matchesQuery(term: string, query: ParsedQuery): boolean {
+  return query.terms.includes(term) || (query.prefix !== null && term.startsWith(query.prefix));
+}
+
+/**
+ * A one-line excerpt of `text` starting a little before the first match,
+ * with every match inside it highlighted. Whitespace is flattened in place
+ * so offsets stay valid.
+ */
+function snippetOf(
+  text: string,
+  query: ParsedQuery,
+): Pick<SearchResult, "snippet" | "highlights"> {
+  const matches = tokenize(text).filter((token) => matchesQuery(token.term, query));
+  let start = 0;
+  if (matches.length > 0 && matches[0].start > SNIPPET_LEAD) {
+    // Begin at a word boundary rather than mid-word
+    const space = text.slice(matches[0].start - SNIPPET_LEAD, matches[0].start).search(/\s/);
+    start = matches[0].start - SNIPPET_LEAD + (space < 0 ? SNIPPET_LEAD : space + 1);
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.slice(start, end).search(/\s\S*$/);
+    if (space > 0) end = start + space;
+  }
+  const lead = start > 0 ? "…" : "";
+  const body = text.slice(start, end).replace(/\s/g, " ");
+  return {
+    snippet: lead + body + (end < text.length ? "…" : ""),
+    highlights: matches
+      .filter((token) => token.start >= start && token.end <= end)
+      .map((token): [number, number] => [
+        token.start - start + lead.length,
+        token.end - start + lead.length,
+      ]),
+  };
+}
+
+// ── Index ──
+
+/** Persisted form of the index; postings are rebuilt when it's loaded. */
+export interface SearchIndexData {
+  format: 1;
+  /** [path, version, [term, weighted frequency][]] */
+  documents: Array<[string, string, Array<[string, number]>]>;
+}
+
+/** What the index reads files through. */
+export interface SearchSource {
+  /**
+   * The file at `path` with its version, or null if there is none. The
+   * contents must stay readable after the call returns.
+   */
+  read(path: string): Promise<{ version: string; data: Blob } | null>;
+  /** Every visible file at or under `path`, with versions. */
+  files(path: string): Promise<Array<{ path: string; version: string }>>;
+}
+
+export interface SearchStore {
+  load(): Promise<SearchIndexData | null>;
+  save(data: SearchIndexData): Promise<void>;
+}
+
+export interface SearchIndexer {
+  /** Brings the index in step with a change; failures only mark it stale. */
+  apply(change: OPFSChangeEvent): void;
+  search(query: string, limit?: number): Promise<SearchResult[]>;
+}
+
+interface IndexedDocument {
+  version: string;
+  /** Sum of weighted frequencies, for length normalization. */
+  length: number;
+  terms: Map<string, number>;
+}
+
+/** UTF-8 contents of small text files; null for anything else. */
+async function textOf(data: Blob): Promise<string | null> {
+  if (data.size > MAX_INDEXED_BYTES) return null;
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(await data.arrayBuffer());
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Nothing is read until the first search: that loads the stored index and
+ * catches it up with the files. From then on every change is applied as it
+ * happens, and searches save the index when it has moved on.
+ */
+export function createSearchIndexer(
+  source: SearchSource,
+  store?: SearchStore,
+): SearchIndexer {
+  const documents = new Map<string, IndexedDocument>();
+  const postings = new Map<string, Set<string>>();
+  let totalLength = 0;
+  let loaded = false;
+  // Might be missing changes; caught up before the next search
+  let stale = true;
+  // Differs from what the store holds
+  let dirty = false;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  /** Runs tasks one at a time, in order. */
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const removeDocument = (path: string) => {
+    const document = documents.get(path);
+    if (!document) return;
+    document.terms.forEach((_, term) => {
+      const paths = postings.get(term)!;
+      paths.delete(path);
+      if (paths.size === 0) postings.delete(term);
+    });
+    totalLength -= document.length;
+    documents.delete(path);
+    dirty = true;
+  };
+
+  const addDocument = (path: string, version: string, terms: Map<string, number>) => {
+    removeDocument(path);
+    let length = 0;
+    terms.forEach((frequency, term) => {
+      length += frequency;
+      if (!postings.has(term)) postings.set(term, new Set());
+      postings.get(term)!.add(path);
+    });
+    documents.set(path, { version, length, terms });
+    totalLength += length;
+    dirty = true;
+  };
+
+  /** (Re)indexes one file as it is now, or drops it once it's gone. */
+  const indexFile = async (path: string): Promise<void> => {
+    const file = isSearchable(path) ? await source.read(path) : null;
+    if (!file) {
+      removeDocument(path);
+      return;
+    }
+    const text = await textOf(file.data);
+    const terms = new Map<string, number>();
+    const count = (tokens: Token[], weight: number) =>
+      tokens.forEach(({ term }) => terms.set(term, (terms.get(term) ?? 0) + weight));
+    count(tokenize(splitParent(path)[1]), NAME_WEIGHT);
+    if (text !== null) count(tokenize(text), 1);
+    addDocument(path, file.version, terms);
+  };
+
+  const documentsUnder = (path: string) =>
+    Array.from(documents.keys()).filter(
+      (candidate) => candidate === path || candidate.startsWith(`${path}/`),
+    );
+
+  const applyChange = async (change: OPFSChangeEvent) => {
+    const path = joinPath(change.path);
+    switch (change.type) {
+      case "created":
+      case "updated":
+        if (change.kind === "file") await indexFile(path);
+        else for (const file of await source.files(path)) await indexFile(file.path);
+        break;
+      case "deleted":
+        documentsUnder(path).forEach(removeDocument);
+        break;
+      case "renamed":
+        // File names are indexed too, so moved files are read again
+        documentsUnder(joinPath(change.oldPath ?? "")).forEach(removeDocument);
+        if (change.kind === "file") await indexFile(path);
+        else for (const file of await source.files(path)) await indexFile(file.path);
+        break;
+    }
+  };
+
+  const load = async () => {
+    const data = await store?.load().catch(() => null);
+    if (data?.format === 1) {
+      for (const [path, version, terms] of data.documents) {
+        addDocument(path, version, new Map(terms));
+      }
+    }
+    loaded = true;
+    dirty = false;
+  };
+
+  /** Re-reads what changed since the index was built, drops what's gone. */
+  const catchUp = async () => {
+    const current = new Map<string, string>();
+    for (const file of await source.files("")) current.set(file.path, file.version);
+    Array.from(documents.keys())
+      .filter((path) => !current.has(path))
+      .forEach(removeDocument);
+    for (const [path, version] of Array.from(current.entries())) {
+      if (documents.get(path)?.version !== version) await indexFile(path);
+    }
+    stale = false;
+  };
+
+  /** Paths matching every query word, best first, with BM25 scores. */
+  const rank = (query: ParsedQuery): Array<{ path: string; score: number }> => {
+    const count = documents.size;
+    const averageLength = count > 0 ? totalLength / count : 0;
+    const groups = query.terms.map((term) => (postings.has(term) ? [term] : []));
+    if (query.prefix !== null) {
+      const expanded: string[] = [];
+      postings.forEach((_, term) => {
+        if (term.startsWith(query.prefix!)) expanded.push(term);
+      });
+      groups.push(expanded);
+    }
+    if (groups.length === 0 || groups.some((group) => group.length === 0)) return [];
+
+    const scores = new Map<string, number>();
+    groups.forEach((group, index) => {
+      // A word scores through its best-matching term, so short prefixes don't pile up
+      const best = new Map<string, number>();
+      group.forEach((term) => {
+        const paths = postings.get(term)!;
+        const idf = Math.log(1 + (count - paths.size + 0.5) / (paths.size + 0.5));
+        paths.forEach((path) => {
+          const document = documents.get(path)!;
+          const frequency = document.terms.get(term)!;
+          const score =
+            (idf * frequency * (K1 + 1)) /
+            (frequency + K1 * (1 - B + (B * document.length) / (averageLength || 1)));
+          best.set(path, Math.max(best.get(path) ?? 0, score));
+        });
+      });
+      if (index === 0) {
+        best.forEach((score, path) => scores.set(path, score));
+        return;
+      }
+      Array.from(scores.keys()).forEach((path) => {
+        const score = best.get(path);
+        if (score === undefined) scores.delete(path);
+        else scores.set(path, scores.get(path)! + score);
+      });
+    });
+
+    return Array.from(scores.entries())
+      .map(([path, score]) => ({ path, score }))
+      .sort((a, b) => b.score - a.score || (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  };
+
+  const search = async (query: string, limit: number): Promise<SearchResult[]> => {
+    if (!loaded) await load();
+    if (stale) await catchUp();
+    const parsed = parseQuery(query);
+
+    let results: SearchResult[] = [];
+    for (let attempt = 0; attempt < MAX_RANK_ATTEMPTS; attempt++) {
+      results = [];
+      let changed = false;
+      for (const { path, score } of rank(parsed).slice(0, limit)) {
+        const file = await source.read(path);
+        if (!file || file.version !== documents.get(path)?.version) {
+          // Written behind the index's back (another tab); fix it and rank again
+          await indexFile(path);
+          changed = true;
+          continue;
+        }
+        results.push({ path, score, ...snippetOf((await textOf(file.data)) ?? "", parsed) });
+      }
+      if (!changed) break;
+    }
+
+    if (dirty && store) {
+      const data: SearchIndexData = { format: 1, documents: [] };
+      documents.forEach(({ version, terms }, path) => {
+        data.documents.push([path, version, Array.from(terms.entries())]);
+      });
+      // Not fatal: the next load catches up from whatever was saved before
+      await store.save(data).then(
+        () => {
+          dirty = false;
+        },
+        () => undefined,
+      );
+    }
+    return results;
+  };
+
+  return {
+    apply(change) {
+      if (!loaded) return;
+      enqueue(() => applyChange(change)).catch(() => {
+        stale = true;
+      });
+    },
+
+    search(query, limit = DEFAULT_SEARCH_LIMIT) {
+      if (!Number.isSafeInteger(limit) || limit < 1) {
+        return Promise.reject(
+          new OPFSError("INVALID_ARGUMENT", `Invalid limit: ${limit}`),
+        );
+      }
+      return enqueue(() => search(query, limit));
+    },
+  };
+}
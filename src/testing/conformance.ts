@@ -0,0 +1,1010 @@
+import type { IFileSystem, WatchOptions } from "../file-system";
+import {
+  CompressionFormat,
+  IntegrityProblem,
+  OPFSChangeEvent,
+  OPFSError,
+  OPFSErrorCode,
+  RepairAction,
+  StorageBackend,
+} from "../opfs-protocol";
+import { createZip, readZip } from "../zip";
+
+// ── IFileSystem Conformance Suite ─────────────────────────────────────────────
+//
+// One behavioural spec for every backend. Each implementation's test file
+// calls `describeFileSystemConformance` with a factory for a fresh, empty
+// file system; anything that passes here can stand in for the OPFS worker.
+
+async function expectCode(
+  promise: Promise<unknown>,
+  code: OPFSErrorCode,
+): Promise<void> {
+  await expect(promise).rejects.toBeInstanceOf(OPFSError);
+  await expect(promise).rejects.toMatchObject({ code });
+}
+
+function text(buffer: ArrayBuffer): string {
+  return new TextDecoder().decode(buffer);
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const reader = stream.getReader();
+  let result = "";
+  const decoder = new TextDecoder();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return result + decoder.decode();
+    result += decoder.decode(value, { stream: true });
+  }
+}
+
+/** Records every event `fs.watch` reports until `stop` is called. */
+function record(fs: IFileSystem, path: string, options?: WatchOptions) {
+  const events: OPFSChangeEvent[] = [];
+  const stop = fs.watch(path, (event) => events.push(event), options);
+  return { events, stop };
+}
+
+export function describeFileSystemConformance(
+  name: string,
+  setup: () => Promise<IFileSystem>,
+  teardown?: () => Promise<void>,
+): void {
+  describe(`${name} conformance`, () => {
+    let fs: IFileSystem;
+
+    beforeEach(async () => {
+      fs = await setup();
+    });
+
+    afterEach(async () => {
+      await teardown?.();
+    });
+
+    describe("create and read", () => {
+      it("round-trips text content", async () => {
+        await expect(fs.create("a.txt", "héllo")).resolves.toBe("a.txt");
+        await expect(fs.read("a.txt")).resolves.toBe("héllo");
+      });
+
+      it("creates missing parent directories", async () => {
+        await fs.create("/docs/notes/a.txt", "x");
+        await expect(fs.read("docs/notes/a.txt")).resolves.toBe("x");
+        await expect(fs.stat("docs/notes")).resolves.toMatchObject({
+          kind: "directory",
+        });
+      });
+
+      it("is exclusive unless overwrite is set", async () => {
+        await fs.create("a.txt", "one");
+        await expectCode(fs.create("a.txt", "two"), "ALREADY_EXISTS");
+        await fs.create("a.txt", "three", { overwrite: true });
+        await expect(fs.read("a.txt")).resolves.toBe("three");
+      });
+
+      it("refuses to overwrite a directory with a file", async () => {
+        await fs.mkdir("dir");
+        await expectCode(fs.create("dir", "x", { overwrite: true }), "TYPE_MISMATCH");
+      });
+
+      it("reports NOT_FOUND for missing files and parents", async () => {
+        await expectCode(fs.read("missing.txt"), "NOT_FOUND");
+        await expectCode(fs.read("missing/a.txt"), "NOT_FOUND");
+      });
+
+      it("reports TYPE_MISMATCH when reading a directory", async () => {
+        await fs.mkdir("dir");
+        await expectCode(fs.read("dir"), "TYPE_MISMATCH");
+      });
+    });
+
+    describe("list and stat", () => {
+      it("lists directories first, then files, alphabetically", async () => {
+        await fs.create("b.txt", "");
+        await fs.create("a.txt", "");
+        await fs.mkdir("z");
+        await fs.create("sub/c.txt", "");
+        const entries = await fs.list();
+        expect(entries).toEqual([
+          { name: "sub", path: "sub", kind: "directory" },
+          { name: "z", path: "z", kind: "directory" },
+          { name: "a.txt", path: "a.txt", kind: "file" },
+          { name: "b.txt", path: "b.txt", kind: "file" },
+        ]);
+        await expect(fs.list("sub")).resolves.toEqual([
+          { name: "c.txt", path: "sub/c.txt", kind: "file" },
+        ]);
+      });
+
+      it("hides dot-files", async () => {
+        await fs.create(".hidden", "");
+        await fs.create("visible.txt", "");
+        const names = (await fs.list()).map((entry) => entry.name);
+        expect(names).toEqual(["visible.txt"]);
+      });
+
+      it("includes sizes and versions with withStats", async () => {
+        await fs.create("a.txt", "12345");
+        await fs.mkdir("dir");
+        const [dir, file] = await fs.list("", { withStats: true });
+        expect(dir).toMatchObject({ kind: "directory", size: 0, version: null });
+        expect(file).toMatchObject({ name: "a.txt", kind: "file", size: 5 });
+        expect(typeof file.version).toBe("string");
+        expect(typeof file.lastModified).toBe("number");
+      });
+
+      it("stats files and directories", async () => {
+        await fs.create("dir/a.txt", "abc");
+        await expect(fs.stat("dir/a.txt")).resolves.toMatchObject({
+          name: "a.txt",
+          path: "dir/a.txt",
+          kind: "file",
+          size: 3,
+        });
+        await expect(fs.stat("dir")).resolves.toMatchObject({
+          name: "dir",
+          kind: "directory",
+          lastModified: null,
+        });
+        await expectCode(fs.stat("nope"), "NOT_FOUND");
+      });
+
+      it("rejects listing a missing directory or a file", async () => {
+        await fs.create("a.txt", "");
+        await expectCode(fs.list("missing"), "NOT_FOUND");
+        await expectCode(fs.list("a.txt"), "TYPE_MISMATCH");
+      });
+    });
+
+    describe("update", () => {
+      it("returns the version readVersioned reports next", async () => {
+        await fs.create("a.txt", "one");
+        const version = await fs.update("a.txt", "two!");
+        await expect(fs.readVersioned("a.txt")).resolves.toEqual({
+          content: "two!",
+          version,
+        });
+      });
+
+      it("fails with CONFLICT when the expected version is stale", async () => {
+        await fs.create("a.txt", "one");
+        const { version } = await fs.readVersioned("a.txt");
+        await fs.update("a.txt", "changed elsewhere");
+        await expectCode(
+          fs.update("a.txt", "mine", { expectedVersion: version }),
+          "CONFLICT",
+        );
+        await expect(fs.read("a.txt")).resolves.toBe("changed elsewhere");
+      });
+
+      it("succeeds when the expected version matches", async () => {
+        await fs.create("a.txt", "one");
+        const { version } = await fs.readVersioned("a.txt");
+        const next = await fs.update("a.txt", "second", { expectedVersion: version });
+        expect(next).not.toBe(version);
+        await expect(fs.read("a.txt")).resolves.toBe("second");
+      });
+
+      it("does not create missing files", async () => {
+        await expectCode(fs.update("missing.txt", "x"), "NOT_FOUND");
+      });
+    });
+
+    describe("delete, mkdir and rmdir", () => {
+      it("deletes files but not directories", async () => {
+        await fs.create("a.txt", "");
+        await fs.mkdir("dir");
+        await fs.delete("a.txt");
+        await expectCode(fs.stat("a.txt"), "NOT_FOUND");
+        await expectCode(fs.delete("dir"), "TYPE_MISMATCH");
+        await expectCode(fs.delete("a.txt"), "NOT_FOUND");
+      });
+
+      it("creates nested directories idempotently", async () => {
+        await expect(fs.mkdir("a/b/c")).resolves.toBe("a/b/c");
+        await expect(fs.mkdir("a/b")).resolves.toBe("a/b");
+        await expect(fs.list("a/b")).resolves.toEqual([
+          { name: "c", path: "a/b/c", kind: "directory" },
+        ]);
+      });
+
+      it("requires recursive for non-empty directories", async () => {
+        await fs.create("dir/a.txt", "");
+        await expectCode(fs.rmdir("dir"), "NOT_EMPTY");
+        await fs.rmdir("dir", { recursive: true });
+        await expectCode(fs.stat("dir"), "NOT_FOUND");
+      });
+
+      it("removes empty directories and refuses files", async () => {
+        await fs.mkdir("empty");
+        await fs.create("a.txt", "");
+        await fs.rmdir("empty");
+        await expectCode(fs.stat("empty"), "NOT_FOUND");
+        await expectCode(fs.rmdir("a.txt"), "TYPE_MISMATCH");
+      });
+    });
+
+    describe("binary access", () => {
+      it("round-trips bytes from every BinaryData type", async () => {
+        await fs.writeBytes("u8.bin", new Uint8Array([1, 2, 3]));
+        await fs.writeBytes("buf.bin", new Uint8Array([4, 5]).buffer);
+        await fs.writeBytes("blob.bin", new Blob([new Uint8Array([6])]));
+        expect(Array.from(new Uint8Array(await fs.readBytes("u8.bin")))).toEqual([1, 2, 3]);
+        expect(Array.from(new Uint8Array(await fs.readBytes("buf.bin")))).toEqual([4, 5]);
+        expect(Array.from(new Uint8Array(await fs.readBytes("blob.bin")))).toEqual([6]);
+      });
+
+      it("overwrites rather than merges", async () => {
+        await fs.writeBytes("a.bin", new Uint8Array([1, 2, 3, 4]));
+        await fs.writeBytes("a.bin", new Uint8Array([9]));
+        expect(Array.from(new Uint8Array(await fs.readBytes("a.bin")))).toEqual([9]);
+      });
+
+      it("reads ranges, short at the end of the file", async () => {
+        await fs.create("a.txt", "0123456789");
+        expect(text(await fs.readRange("a.txt", 2, 3))).toBe("234");
+        expect(text(await fs.readRange("a.txt", 8, 10))).toBe("89");
+        expect((await fs.readRange("a.txt", 20, 5)).byteLength).toBe(0);
+      });
+
+      it("rejects negative or fractional ranges", async () => {
+        await fs.create("a.txt", "abc");
+        await expectCode(fs.readRange("a.txt", -1, 2), "INVALID_ARGUMENT");
+        await expectCode(fs.readRange("a.txt", 0, 1.5), "INVALID_ARGUMENT");
+        await expectCode(fs.writeAt("a.txt", -1, "x"), "INVALID_ARGUMENT");
+      });
+
+      it("writes in place and zero-fills gaps", async () => {
+        await fs.create("a.txt", "abcdef");
+        await expect(fs.writeAt("a.txt", 2, "XY")).resolves.toBe(2);
+        await expect(fs.read("a.txt")).resolves.toBe("abXYef");
+        await fs.writeAt("gap.bin", 2, new Uint8Array([7]));
+        expect(Array.from(new Uint8Array(await fs.readBytes("gap.bin")))).toEqual([0, 0, 7]);
+      });
+
+      it("appends and returns the new size", async () => {
+        await expect(fs.append("log/a.txt", "ab")).resolves.toBe(2);
+        await expect(fs.append("log/a.txt", "cde")).resolves.toBe(5);
+        await expect(fs.read("log/a.txt")).resolves.toBe("abcde");
+      });
+    });
+
+    describe("streams", () => {
+      it("reads a file in chunks", async () => {
+        await fs.create("a.txt", "the quick brown fox");
+        const stream = fs.readStream("a.txt", { chunkSize: 4 });
+        await expect(readAll(stream)).resolves.toBe("the quick brown fox");
+      });
+
+      it("reads from an offset", async () => {
+        await fs.create("a.txt", "0123456789");
+        await expect(readAll(fs.readStream("a.txt", { offset: 6 }))).resolves.toBe("6789");
+      });
+
+      it("truncates, then writes chunks in order", async () => {
+        await fs.create("a.txt", "old content that is long");
+        const writer = fs.writeStream("a.txt").getWriter();
+        await writer.write("new ");
+        await writer.write(new Uint8Array([111, 107])); // "ok"
+        await writer.close();
+        await expect(fs.read("a.txt")).resolves.toBe("new ok");
+      });
+
+      it("appends when asked to", async () => {
+        await fs.create("a.txt", "start-");
+        const writer = fs.writeStream("a.txt", { append: true }).getWriter();
+        await writer.write("end");
+        await writer.close();
+        await expect(fs.read("a.txt")).resolves.toBe("start-end");
+      });
+    });
+
+    describe("rename, move and copy", () => {
+      it("renames in place", async () => {
+        await fs.create("dir/a.txt", "x");
+        await expect(fs.rename("dir/a.txt", "b.txt")).resolves.toBe("dir/b.txt");
+        await expect(fs.read("dir/b.txt")).resolves.toBe("x");
+        await expectCode(fs.stat("dir/a.txt"), "NOT_FOUND");
+      });
+
+      it("rejects names with separators", async () => {
+        await fs.create("a.txt", "");
+        await expectCode(fs.rename("a.txt", "x/y"), "INVALID_NAME");
+        await expectCode(fs.rename("a.txt", ".."), "INVALID_NAME");
+      });
+
+      it("moves directory trees, creating target parents", async () => {
+        await fs.create("src/a.txt", "a");
+        await fs.create("src/nested/b.txt", "b");
+        await expect(fs.move("src", "dest/moved")).resolves.toBe("dest/moved");
+        await expect(fs.read("dest/moved/nested/b.txt")).resolves.toBe("b");
+        await expectCode(fs.stat("src"), "NOT_FOUND");
+      });
+
+      it("never replaces an existing target", async () => {
+        await fs.create("a.txt", "a");
+        await fs.create("b.txt", "b");
+        await expectCode(fs.move("a.txt", "b.txt"), "ALREADY_EXISTS");
+        await expectCode(fs.copy("a.txt", "b.txt"), "ALREADY_EXISTS");
+        await expect(fs.read("a.txt")).resolves.toBe("a");
+        await expect(fs.read("b.txt")).resolves.toBe("b");
+      });
+
+      it("refuses to move a directory into itself", async () => {
+        await fs.mkdir("dir");
+        await expectCode(fs.move("dir", "dir/inner"), "INVALID_ARGUMENT");
+        await expectCode(fs.copy("dir", "dir"), "INVALID_ARGUMENT");
+      });
+
+      it("copies trees without touching the source", async () => {
+        await fs.create("src/a.txt", "a");
+        await fs.create("src/nested/b.txt", "b");
+        await expect(fs.copy("src", "copy")).resolves.toBe("copy");
+        await fs.update("copy/a.txt", "changed");
+        await expect(fs.read("src/a.txt")).resolves.toBe("a");
+        await expect(fs.read("copy/nested/b.txt")).resolves.toBe("b");
+      });
+
+      it("reports NOT_FOUND for a missing source", async () => {
+        await expectCode(fs.move("missing", "b"), "NOT_FOUND");
+        await expectCode(fs.copy("missing", "b"), "NOT_FOUND");
+      });
+    });
+
+    describe("transaction", () => {
+      it("applies writes and deletes together", async () => {
+        await fs.create("a.txt", "old");
+        await fs.create("b.txt", "doomed");
+        await fs.transaction([
+          { type: "write", path: "a.txt", content: "new" },
+          { type: "write", path: "nested/c.bin", content: new Uint8Array([1, 2]) },
+          { type: "delete", path: "b.txt" },
+        ]);
+        await expect(fs.read("a.txt")).resolves.toBe("new");
+        expect(Array.from(new Uint8Array(await fs.readBytes("nested/c.bin")))).toEqual([1, 2]);
+        await expectCode(fs.stat("b.txt"), "NOT_FOUND");
+        const names = (await fs.list()).map((entry) => entry.name);
+        expect(names).toEqual(["nested", "a.txt"]);
+      });
+
+      it("changes nothing when any op fails validation", async () => {
+        await fs.create("a.txt", "old");
+        const { version } = await fs.readVersioned("a.txt");
+        await fs.update("a.txt", "changed elsewhere");
+        const { events } = record(fs, "", { recursive: true });
+        await expectCode(
+          fs.transaction([
+            { type: "write", path: "new.txt", content: "x" },
+            { type: "write", path: "a.txt", content: "mine", expectedVersion: version },
+          ]),
+          "CONFLICT",
+        );
+        await expectCode(
+          fs.transaction([
+            { type: "write", path: "new.txt", content: "x" },
+            { type: "delete", path: "missing.txt" },
+          ]),
+          "NOT_FOUND",
+        );
+        await expect(fs.read("a.txt")).resolves.toBe("changed elsewhere");
+        await expectCode(fs.stat("new.txt"), "NOT_FOUND");
+        expect(events).toEqual([]);
+      });
+
+      it("honours matching expected versions", async () => {
+        await fs.create("a.txt", "one");
+        const { version } = await fs.readVersioned("a.txt");
+        await fs.transaction([
+          { type: "write", path: "a.txt", content: "two", expectedVersion: version },
+        ]);
+        await expect(fs.read("a.txt")).resolves.toBe("two");
+      });
+
+      it("rejects directories and repeated paths", async () => {
+        await fs.mkdir("dir");
+        await expectCode(
+          fs.transaction([{ type: "write", path: "dir", content: "x" }]),
+          "TYPE_MISMATCH",
+        );
+        await expectCode(
+          fs.transaction([{ type: "delete", path: "dir" }]),
+          "TYPE_MISMATCH",
+        );
+        await expectCode(
+          fs.transaction([
+            { type: "write", path: "a.txt", content: "1" },
+            { type: "write", path: "/a.txt", content: "2" },
+          ]),
+          "INVALID_ARGUMENT",
+        );
+      });
+
+      it("reports each change", async () => {
+        await fs.create("a.txt", "");
+        await fs.create("c.txt", "");
+        const { events } = record(fs, "");
+        await fs.transaction([
+          { type: "write", path: "a.txt", content: "x" },
+          { type: "write", path: "b.txt", content: "y" },
+          { type: "delete", path: "c.txt" },
+        ]);
+        expect(events).toEqual([
+          { type: "updated", kind: "file", path: "a.txt" },
+          { type: "created", kind: "file", path: "b.txt" },
+          { type: "deleted", kind: "file", path: "c.txt" },
+        ]);
+      });
+    });
+
+    describe("revision history", () => {
+      it("keeps prior contents of whole-file writes, newest first", async () => {
+        await fs.create("a.txt", "one");
+        await expect(fs.history("a.txt")).resolves.toEqual([]);
+        await fs.update("a.txt", "two");
+        await fs.create("a.txt", "three", { overwrite: true });
+        await fs.writeBytes("a.txt", new TextEncoder().encode("four"));
+        await fs.transaction([{ type: "write", path: "a.txt", content: "five" }]);
+
+        const revisions = await fs.history("a.txt");
+        const contents = await Promise.all(
+          revisions.map((revision) => fs.readRevision("a.txt", revision.id)),
+        );
+        expect(contents).toEqual(["four", "three", "two", "one"]);
+        expect(revisions[0]).toMatchObject({ size: 4 });
+        expect(typeof revisions[0].lastModified).toBe("number");
+      });
+
+      it("skips partial writes and hidden files", async () => {
+        await fs.create("a.txt", "one");
+        await fs.append("a.txt", "+");
+        await fs.writeAt("a.txt", 0, "O");
+        await expect(fs.history("a.txt")).resolves.toEqual([]);
+
+        await fs.create(".hidden/a.txt", "one");
+        await fs.update(".hidden/a.txt", "two");
+        await expect(fs.history(".hidden/a.txt")).resolves.toEqual([]);
+      });
+
+      it("keeps at most maxRevisions", async () => {
+        await fs.init({ history: { maxRevisions: 2 } });
+        await fs.create("a.txt", "1");
+        for (const content of ["2", "3", "4"]) await fs.update("a.txt", content);
+        const revisions = await fs.history("a.txt");
+        expect(revisions).toHaveLength(2);
+        await expect(fs.readRevision("a.txt", revisions[1].id)).resolves.toBe("2");
+        await expectCode(fs.init({ history: { maxRevisions: -1 } }), "INVALID_ARGUMENT");
+      });
+
+      it("restores a revision, keeping the replaced contents", async () => {
+        await fs.create("a.txt", "one");
+        await fs.update("a.txt", "two");
+        const [revision] = await fs.history("a.txt");
+        const { events } = record(fs, "");
+
+        const version = await fs.restore("a.txt", revision.id);
+        await expect(fs.readVersioned("a.txt")).resolves.toEqual({
+          content: "one",
+          version,
+        });
+        const [latest] = await fs.history("a.txt");
+        await expect(fs.readRevision("a.txt", latest.id)).resolves.toBe("two");
+        expect(events).toEqual([{ type: "updated", kind: "file", path: "a.txt" }]);
+      });
+
+      it("follows renames and is dropped on delete", async () => {
+        await fs.create("a.txt", "one");
+        await fs.update("a.txt", "two");
+        await fs.rename("a.txt", "b.txt");
+        const [revision] = await fs.history("b.txt");
+        await expect(fs.readRevision("b.txt", revision.id)).resolves.toBe("one");
+        expect((await fs.list()).map((entry) => entry.name)).toEqual(["b.txt"]);
+
+        await fs.delete("b.txt");
+        await fs.create("b.txt", "fresh");
+        await expect(fs.history("b.txt")).resolves.toEqual([]);
+      });
+
+      it("reports missing files and revisions", async () => {
+        await expectCode(fs.history("missing.txt"), "NOT_FOUND");
+        await fs.create("a.txt", "one");
+        await expectCode(fs.readRevision("a.txt", "1-0"), "NOT_FOUND");
+        await expectCode(fs.restore("a.txt", "../a.txt"), "NOT_FOUND");
+      });
+    });
+
+    describe("archives", () => {
+      const archiveOf = (files: Record<string, string>) =>
+        createZip(
+          Object.keys(files).map((path) => ({
+            path,
+            kind: "file" as const,
+            lastModified: Date.now(),
+            data: new Blob([files[path]]),
+          })),
+        );
+
+      it("exports every entry with its timestamp, leaving out internals", async () => {
+        await fs.create("docs/a.txt", "one");
+        await fs.update("docs/a.txt", "two");
+        await fs.mkdir("empty");
+        await fs.create(".collections/users/docs/1.json", "{}");
+
+        const items = await readZip(await fs.exportArchive());
+        expect(items.map(({ path, kind }) => `${kind} ${path}`)).toEqual([
+          "directory .collections",
+          "directory .collections/users",
+          "directory .collections/users/docs",
+          "file .collections/users/docs/1.json",
+          "directory docs",
+          "file docs/a.txt",
+          "directory empty",
+        ]);
+        const file = items.find((item) => item.path === "docs/a.txt")!;
+        const { lastModified } = await fs.stat("docs/a.txt");
+        expect(Math.floor(file.lastModified / 1000)).toBe(Math.floor(lastModified! / 1000));
+        await expect(file.read().then((blob) => blob.text())).resolves.toBe("two");
+      });
+
+      it("round-trips a tree through export and import", async () => {
+        const bytes = new Uint8Array([0, 1, 2, 255]);
+        await fs.create("docs/a.txt", "hello ".repeat(100));
+        await fs.writeBytes("bin/data", bytes);
+        await fs.mkdir("empty");
+        for (const compress of [true, false]) {
+          const archive = await fs.exportArchive({ compress });
+          await fs.rmdir("docs", { recursive: true });
+          await fs.rmdir("bin", { recursive: true });
+          await fs.rmdir("empty");
+
+          const result = await fs.importArchive(archive);
+          expect(result).toEqual({
+            imported: ["bin", "docs", "empty", "bin/data", "docs/a.txt"],
+            skipped: [],
+          });
+          await expect(fs.read("docs/a.txt")).resolves.toBe("hello ".repeat(100));
+          expect(new Uint8Array(await fs.readBytes("bin/data"))).toEqual(bytes);
+          await expect(fs.list("empty")).resolves.toEqual([]);
+        }
+      });
+
+      it("fails on conflicts by default without writing anything", async () => {
+        await fs.create("a.txt", "mine");
+        const archive = await archiveOf({ "new.txt": "new", "a.txt": "theirs" });
+        await expectCode(fs.importArchive(archive), "ALREADY_EXISTS");
+        await expect(fs.stat("new.txt")).rejects.toMatchObject({ code: "NOT_FOUND" });
+        await expect(fs.read("a.txt")).resolves.toBe("mine");
+      });
+
+      it("skips, overwrites or renames conflicting entries", async () => {
+        await fs.create("a.txt", "mine");
+        await fs.create("docs/b.md", "mine");
+        const archive = await archiveOf({ "a.txt": "theirs", "docs/b.md": "theirs" });
+
+        await expect(fs.importArchive(archive, { onConflict: "skip" })).resolves.toEqual({
+          imported: [],
+          skipped: ["a.txt", "docs/b.md"],
+        });
+        await expect(fs.read("a.txt")).resolves.toBe("mine");
+
+        await expect(fs.importArchive(archive, { onConflict: "rename" })).resolves.toEqual({
+          imported: ["a (2).txt", "docs/b (2).md"],
+          skipped: [],
+        });
+        await expect(fs.read("docs/b (2).md")).resolves.toBe("theirs");
+
+        const { events } = record(fs, "", { recursive: true });
+        await fs.importArchive(archive, { onConflict: "overwrite" });
+        await expect(fs.read("a.txt")).resolves.toBe("theirs");
+        await expect(fs.read("docs/b (2).md")).resolves.toBe("theirs");
+        expect(events).toEqual([
+          { type: "updated", kind: "file", path: "a.txt" },
+          { type: "updated", kind: "file", path: "docs/b.md" },
+        ]);
+        expect(await fs.history("a.txt")).toHaveLength(1);
+      });
+
+      it("rejects type mismatches, bad names and malformed archives", async () => {
+        await fs.mkdir("a.txt");
+        const archive = await archiveOf({ "a.txt": "file" });
+        await expectCode(fs.importArchive(archive, { onConflict: "overwrite" }), "TYPE_MISMATCH");
+        await expect(fs.importArchive(archive, { onConflict: "rename" })).resolves.toMatchObject({
+          imported: ["a (2).txt"],
+        });
+
+        await expectCode(fs.importArchive(await archiveOf({ "../evil.txt": "x" })), "INVALID_NAME");
+        await expectCode(fs.importArchive(new Blob(["not a zip"])), "INVALID_ARGUMENT");
+        await expectCode(
+          fs.importArchive(archive, { onConflict: "merge" as any }),
+          "INVALID_ARGUMENT",
+        );
+      });
+    });
+
+    describe("search", () => {
+      const paths = async (query: string) =>
+        (await fs.search(query)).map((result) => result.path);
+      // For when ranking isn't the point
+      const sortedPaths = async (query: string) => (await paths(query)).sort();
+
+      it("ranks files by how well they match every word", async () => {
+        await fs.create("notes/apples.txt", "Apple pie, apple crumble and apple juice.");
+        await fs.create("notes/fruit.txt", "Pears, plums and one apple.");
+        await fs.create("notes/veg.txt", "Carrots and leeks.");
+
+        await expect(paths("apple ")).resolves.toEqual(["notes/apples.txt", "notes/fruit.txt"]);
+        await expect(paths("apple plums ")).resolves.toEqual(["notes/fruit.txt"]);
+        await expect(paths("banana ")).resolves.toEqual([]);
+        await expect(paths("  ")).resolves.toEqual([]);
+        await expect(fs.search("and ", { limit: 1 })).resolves.toHaveLength(1);
+      });
+
+      it("matches the last word as a prefix, ignoring case and accents", async () => {
+        await fs.create("a.txt", "Le CAFÉ est fermé");
+        await expect(paths("caf")).resolves.toEqual(["a.txt"]);
+        await expect(paths("cafe ")).resolves.toEqual(["a.txt"]);
+        await expect(paths("caf ")).resolves.toEqual([]);
+      });
+
+      it("returns a snippet with the matches highlighted", async () => {
+        const filler = "lorem ipsum dolor sit amet ".repeat(10);
+        await fs.create("a.txt", `${filler}the needle is here\nand another Needle ${filler}`);
+        const [result] = await fs.search("needle");
+        expect(result.snippet.startsWith("…")).toBe(true);
+        expect(result.snippet.endsWith("…")).toBe(true);
+        expect(result.snippet).not.toContain("\n");
+        expect(result.highlights.map(([start, end]) => result.snippet.slice(start, end))).toEqual([
+          "needle",
+          "Needle",
+        ]);
+        expect(result.score).toBeGreaterThan(0);
+      });
+
+      it("finds files by name", async () => {
+        await fs.create("docs/roadmap.md", "Q3 plans");
+        await fs.create("docs/other.md", "see the roadmap");
+        await expect(paths("roadmap ")).resolves.toEqual(["docs/roadmap.md", "docs/other.md"]);
+      });
+
+      it("follows writes, renames and deletes", async () => {
+        await fs.create("a.txt", "alpha");
+        await expect(paths("alpha ")).resolves.toEqual(["a.txt"]);
+
+        await fs.update("a.txt", "beta");
+        await fs.writeBytes("b.txt", new TextEncoder().encode("beta"));
+        await expect(paths("alpha ")).resolves.toEqual([]);
+        await expect(sortedPaths("beta ")).resolves.toEqual(["a.txt", "b.txt"]);
+
+        await fs.move("a.txt", "dir/c.txt");
+        await fs.append("b.txt", " gamma");
+        await fs.copy("dir", "copy");
+        await expect(sortedPaths("beta ")).resolves.toEqual(["b.txt", "copy/c.txt", "dir/c.txt"]);
+        await expect(paths("gamma ")).resolves.toEqual(["b.txt"]);
+
+        await fs.rmdir("dir", { recursive: true });
+        await fs.delete("b.txt");
+        await expect(paths("beta ")).resolves.toEqual(["copy/c.txt"]);
+      });
+
+      it("leaves out hidden files and binary contents", async () => {
+        await fs.create(".hidden/a.txt", "secret");
+        await fs.create(".b.txt", "secret");
+        await fs.writeBytes("blob.bin", new Uint8Array([0xff, 0xfe, 0x73, 0x65, 0x63]));
+        await expect(paths("secret ")).resolves.toEqual([]);
+        await expect(paths("sec")).resolves.toEqual([]);
+        await expect(paths("blob ")).resolves.toEqual(["blob.bin"]);
+        await expectCode(fs.search("x", { limit: 0 }), "INVALID_ARGUMENT");
+      });
+    });
+
+    describe("storage and caches", () => {
+      const names = async (path: string) =>
+        (await fs.list(path)).map((entry) => entry.name);
+
+      it("reports its backend from init and refuses unknown ones", async () => {
+        await fs.create("a.txt", "kept");
+        const backend = await fs.init();
+        await expect(fs.init({ backend })).resolves.toBe(backend);
+        await expectCode(fs.init({ backend: "floppy" as StorageBackend }), "INVALID_ARGUMENT");
+        await expect(fs.read("a.txt")).resolves.toBe("kept");
+      });
+
+      it("reports usage, and usage by top-level directory on request", async () => {
+        await fs.create("docs/a.txt", "x".repeat(1000));
+        await fs.create("docs/deep/b.txt", "12345");
+        await fs.create("top.txt", "!");
+        await fs.create(".hidden/c.txt", "c");
+
+        const info = await fs.storageInfo({ byDirectory: true });
+        expect(info.usage).toBeGreaterThanOrEqual(1006);
+        expect(info.quota === null || info.quota >= info.usage).toBe(true);
+        expect(typeof info.persisted).toBe("boolean");
+        // Stored bytes: the contents and whatever the backend keeps with them
+        expect(info.directories).toEqual([{ path: "docs", size: expect.any(Number) }]);
+        expect(info.directories?.[0].size).toBeGreaterThanOrEqual(1005);
+        await expect(fs.storageInfo()).resolves.not.toHaveProperty("directories");
+      });
+
+      it("evicts the least recently used files once a cache is over maxBytes", async () => {
+        await fs.init({ caches: [{ path: "cache", maxBytes: 10 }] });
+        await fs.create("cache/a", "aaaa");
+        await fs.create("cache/b", "bbbb");
+        await fs.read("cache/a");
+        const { events } = record(fs, "cache");
+        await fs.create("cache/c", "cccc");
+
+        expect(events).toContainEqual({ type: "deleted", kind: "file", path: "cache/b" });
+        await expect(names("cache")).resolves.toEqual(["a", "c"]);
+      });
+
+      it("evicts the oldest writes first with fifo, counting files in subdirectories", async () => {
+        await fs.init({ caches: [{ path: "cache", maxFiles: 2, evict: "fifo" }] });
+        await fs.create("cache/a", "1");
+        await fs.create("cache/sub/b", "2");
+        await fs.read("cache/a");
+        await fs.create("c.txt", "3");
+        await fs.move("c.txt", "cache/c");
+
+        await expect(names("cache")).resolves.toEqual(["sub", "c"]);
+        await expect(names("cache/sub")).resolves.toEqual(["b"]);
+      });
+
+      it("leaves hidden files and files outside caches alone", async () => {
+        await fs.init({ caches: [{ path: "cache", maxBytes: 4 }] });
+        await fs.create("other.txt", "x".repeat(100));
+        await fs.create("cache/.keep", "x".repeat(100));
+        await fs.create("cache/a", "1234");
+        await expect(names("cache")).resolves.toEqual(["a"]);
+
+        // Nothing bigger than the cache stays in it, not even the newest file
+        await fs.writeBytes("cache/big", new Uint8Array(10));
+        await expect(names("cache")).resolves.toEqual([]);
+        await expect(fs.stat("cache/.keep")).resolves.toMatchObject({ size: 100 });
+        await expect(fs.stat("other.txt")).resolves.toMatchObject({ size: 100 });
+      });
+
+      it("rejects invalid cache policies", async () => {
+        await expectCode(fs.init({ caches: [{ path: "", maxBytes: 1 }] }), "INVALID_ARGUMENT");
+        await expectCode(fs.init({ caches: [{ path: "a" }] }), "INVALID_ARGUMENT");
+        await expectCode(fs.init({ caches: [{ path: "a", maxFiles: -1 }] }), "INVALID_ARGUMENT");
+        await expectCode(
+          fs.init({ caches: [{ path: "a", maxBytes: 1 }, { path: "a/b", maxFiles: 1 }] }),
+          "INVALID_ARGUMENT",
+        );
+      });
+    });
+
+    describe("watch", () => {
+      it("reports creates, updates and deletes before the call resolves", async () => {
+        const { events } = record(fs, "");
+        await fs.create("a.txt", "one");
+        await fs.update("a.txt", "two");
+        await fs.append("a.txt", "!");
+        await fs.writeBytes("b.bin", new Uint8Array([1]));
+        await fs.delete("a.txt");
+        expect(events).toEqual([
+          { type: "created", kind: "file", path: "a.txt" },
+          { type: "updated", kind: "file", path: "a.txt" },
+          { type: "updated", kind: "file", path: "a.txt" },
+          { type: "created", kind: "file", path: "b.bin" },
+          { type: "deleted", kind: "file", path: "a.txt" },
+        ]);
+      });
+
+      it("reports renames with both paths, and copies as creates", async () => {
+        await fs.create("dir/a.txt", "");
+        const { events } = record(fs, "", { recursive: true });
+        await fs.rename("dir/a.txt", "b.txt");
+        await fs.move("dir", "moved");
+        await fs.copy("moved", "copy");
+        expect(events).toEqual([
+          { type: "renamed", kind: "file", path: "dir/b.txt", oldPath: "dir/a.txt" },
+          { type: "renamed", kind: "directory", path: "moved", oldPath: "dir" },
+          { type: "created", kind: "directory", path: "copy" },
+        ]);
+      });
+
+      it("reports only directories that mkdir actually created", async () => {
+        await fs.mkdir("existing");
+        const { events } = record(fs, "");
+        await fs.mkdir("existing");
+        await fs.mkdir("fresh");
+        await fs.rmdir("fresh");
+        expect(events).toEqual([
+          { type: "created", kind: "directory", path: "fresh" },
+          { type: "deleted", kind: "directory", path: "fresh" },
+        ]);
+      });
+
+      it("limits non-recursive watchers to direct children", async () => {
+        await fs.mkdir("dir/sub");
+        const shallow = record(fs, "dir");
+        const deep = record(fs, "dir", { recursive: true });
+        await fs.create("dir/a.txt", "");
+        await fs.create("dir/sub/b.txt", "");
+        await fs.create("elsewhere.txt", "");
+        expect(shallow.events.map((event) => event.path)).toEqual(["dir/a.txt"]);
+        expect(deep.events.map((event) => event.path)).toEqual([
+          "dir/a.txt",
+          "dir/sub/b.txt",
+        ]);
+      });
+
+      it("stops reporting once unsubscribed", async () => {
+        const { events, stop } = record(fs, "");
+        await fs.create("a.txt", "");
+        stop();
+        await fs.create("b.txt", "");
+        expect(events).toHaveLength(1);
+      });
+
+      it("reports nothing for failed calls", async () => {
+        await fs.create("a.txt", "");
+        const { events } = record(fs, "", { recursive: true });
+        await expectCode(fs.create("a.txt", ""), "ALREADY_EXISTS");
+        await expectCode(fs.delete("missing.txt"), "NOT_FOUND");
+        expect(events).toEqual([]);
+      });
+    });
+
+    describe("compression", () => {
+      const bytes = (text: string) => new TextEncoder().encode(text);
+
+      it("reads back whatever each write stored", async () => {
+        const content = "compressible ".repeat(200);
+        await fs.create("a.txt", content, { compression: "gzip" });
+        await expect(fs.read("a.txt")).resolves.toBe(content);
+        const stats = await fs.stat("a.txt");
+        expect(stats.size).toBe(content.length);
+        expect(stats.storedSize).toBeGreaterThan(0);
+        await fs.writeBytes("b.bin", bytes("bytes"), { compression: "deflate" });
+        expect(text(await fs.readBytes("b.bin"))).toBe("bytes");
+        await fs.update("b.bin", "plain", { compression: "none" });
+        await expect(fs.read("b.bin")).resolves.toBe("plain");
+      });
+
+      it("supports ranged reads and writes of compressed files", async () => {
+        await fs.create("a.txt", "hello", { compression: "gzip" });
+        await fs.append("a.txt", " world");
+        await fs.writeAt("a.txt", 0, "H");
+        expect(text(await fs.readRange("a.txt", 0, 5))).toBe("Hello");
+        await expect(fs.read("a.txt")).resolves.toBe("Hello world");
+        await expect(fs.stat("a.txt")).resolves.toMatchObject({ size: 11 });
+      });
+
+      it("applies directory rules and reports stored totals", async () => {
+        await fs.init({ compression: [{ path: "logs" }] });
+        const content = "line\n".repeat(500);
+        await fs.create("logs/today.log", content);
+        await fs.create("top.txt", "!");
+        await expect(fs.read("logs/today.log")).resolves.toBe(content);
+        const { files } = await fs.storageInfo({ byDirectory: true });
+        expect(files?.size).toBe(content.length + 1);
+        expect(files?.storedSize).toBeGreaterThan(0);
+      });
+
+      it("rejects unknown formats", async () => {
+        const zip = "zip" as CompressionFormat;
+        await expectCode(fs.create("a.txt", "x", { compression: zip }), "INVALID_ARGUMENT");
+        await expectCode(
+          fs.transaction([{ type: "write", path: "a.txt", content: "x", compression: zip }]),
+          "INVALID_ARGUMENT",
+        );
+        await expectCode(fs.init({ compression: [{ path: "a", format: zip }] }), "INVALID_ARGUMENT");
+        await expectCode(fs.stat("a.txt"), "NOT_FOUND");
+      });
+    });
+
+    describe("encryption", () => {
+      const encryption = { passphrase: "correct horse", iterations: 1000 };
+
+      it("keeps contents transparent once a key is set", async () => {
+        await fs.create("plain.txt", "from before");
+        await fs.init({ encryption });
+        await expect(fs.read("plain.txt")).resolves.toBe("from before");
+        await fs.create("a.txt", "secret");
+        await fs.append("a.txt", "!");
+        await fs.writeAt("a.txt", 0, "S");
+        await expect(fs.read("a.txt")).resolves.toBe("Secret!");
+        expect(text(await fs.readRange("a.txt", 1, 3))).toBe("ecr");
+        await expect(fs.stat("a.txt")).resolves.toMatchObject({ size: 7 });
+      });
+
+      it("refuses an empty passphrase", async () => {
+        await expectCode(
+          fs.init({ encryption: { passphrase: "" } }),
+          "INVALID_ARGUMENT",
+        );
+      });
+
+      it("locks without losing anything on a store without a key", async () => {
+        await fs.create("a.txt", "x");
+        await fs.lock();
+        await expect(fs.read("a.txt")).resolves.toBe("x");
+      });
+    });
+
+    describe("integrity", () => {
+      it("finds nothing wrong with files written through the API", async () => {
+        await fs.create("a.txt", "a");
+        await fs.create("docs/b.md", "b", { compression: "gzip" });
+        await fs.update("docs/b.md", "b2");
+        await fs.rename("a.txt", "c.txt");
+        await fs.copy("docs", "copy");
+        await fs.transaction([
+          { type: "write", path: "docs/d.md", content: "d" },
+          { type: "delete", path: "copy/b.md" },
+        ]);
+        await fs.mkdir("empty");
+        await expect(fs.verify()).resolves.toEqual({ checked: 3, problems: [] });
+        await expect(fs.verify("docs")).resolves.toEqual({ checked: 2, problems: [] });
+        await expect(fs.verify("c.txt")).resolves.toEqual({ checked: 1, problems: [] });
+      });
+
+      it("stays clean after deletes and imports", async () => {
+        await fs.create("a/b.txt", "b");
+        await fs.create("a/c.txt", "c");
+        await fs.delete("a/b.txt");
+        await fs.importArchive(
+          await createZip([
+            { path: "a/c.txt", kind: "file", lastModified: Date.now(), data: new Blob(["c2"]) },
+            { path: "d.txt", kind: "file", lastModified: Date.now(), data: new Blob(["d"]) },
+          ]),
+          { onConflict: "overwrite" },
+        );
+        await fs.rmdir("a", { recursive: true });
+        await expect(fs.verify()).resolves.toEqual({ checked: 1, problems: [] });
+      });
+
+      it("fails with NOT_FOUND for missing paths and problems", async () => {
+        await expectCode(fs.verify("nope"), "NOT_FOUND");
+        await fs.create("a.txt", "a");
+        await expectCode(
+          fs.repair({ type: "corrupted", path: "a.txt", message: "" }, "repair"),
+          "NOT_FOUND",
+        );
+        await expectCode(
+          fs.repair({ type: "orphaned", path: ".a.txt.x.tmp", message: "" }, "quarantine"),
+          "NOT_FOUND",
+        );
+        await expect(fs.read("a.txt")).resolves.toBe("a");
+      });
+
+      it("rejects what verify couldn't have reported", async () => {
+        const problem = { type: "unrecorded" as const, path: "a.txt", message: "" };
+        await expectCode(fs.repair(problem, "fix" as RepairAction), "INVALID_ARGUMENT");
+        await expectCode(
+          fs.repair({ ...problem, type: "broken" } as unknown as IntegrityProblem, "repair"),
+          "INVALID_ARGUMENT",
+        );
+      });
+    });
+
+    describe("paths and cancellation", () => {
+      it("treats leading, trailing and doubled slashes alike", async () => {
+        await fs.create("/a//b.txt/", "x");
+        await expect(fs.read("a/b.txt")).resolves.toBe("x");
+      });
+
+      it("rejects relative segments", async () => {
+        await expectCode(fs.read("../escape.txt"), "INVALID_NAME");
+        await expectCode(fs.create("a/./b.txt", ""), "INVALID_NAME");
+      });
+
+      it("rejects the root as a file target", async () => {
+        await expectCode(fs.create("", "x"), "INVALID_NAME");
+        await expectCode(fs.delete("/"), "INVALID_NAME");
+      });
+
+      it("rejects calls whose signal has already fired", async () => {
+        const controller = new AbortController();
+        controller.abort();
+        await expectCode(
+          fs.create("a.txt", "x", { signal: controller.signal }),
+          "ABORTED",
+        );
+        await expectCode(fs.stat("a.txt"), "NOT_FOUND");
+      });
+    });
+  });
+}
@@ -0,0 +1,244 @@
+/// <reference path="../opfs-sync.d.ts" />
+
+// ── In-Process OPFS Mock ──────────────────────────────────────────────────────
+//
+// Just enough of `navigator.storage.getDirectory()` to run opfs.worker.ts
+// under jest: directory and file handles, sync access handles, writable
+// streams, and the DOMException names real engines raise. Handles have no
+// `move()`, like Firefox and Safari, so moves exercise the copy-then-delete
+// fallback. Without `syncAccessHandles`, files lack them like older Safari.
+
+type MockNode = MockFileHandle | MockDirectoryHandle;
+
+function isValidEntryName(name: string): boolean {
+  return name !== "" && name !== "." && name !== ".." && !/[/\\]/.test(name);
+}
+
+function assertEntryName(name: string): void {
+  if (!isValidEntryName(name)) {
+    throw new TypeError(`Name is not allowed: "${name}"`);
+  }
+}
+
+class MockFileHandle {
+  readonly kind = "file" as const;
+  data = new Uint8Array(0);
+  lastModified = Date.now();
+  /** Whether a sync access handle is currently open on this file. */
+  locked = false;
+
+  constructor(readonly name: string, syncAccessHandles = true) {
+    if (!syncAccessHandles) {
+      Object.defineProperty(this, "createSyncAccessHandle", { value: undefined });
+    }
+  }
+
+  /** Keeps `lastModified` strictly increasing, like a real clock would be. */
+  touch(): void {
+    this.lastModified = Math.max(Date.now(), this.lastModified + 1);
+  }
+
+  async getFile(): Promise<File> {
+    return new File([this.data.slice()], this.name, {
+      lastModified: this.lastModified,
+    });
+  }
+
+  async createSyncAccessHandle(): Promise<FileSystemSyncAccessHandle> {
+    if (this.locked) {
+      throw new DOMException(
+        "Access handle is already open",
+        "NoModificationAllowedError",
+      );
+    }
+    this.locked = true;
+    return new MockSyncAccessHandle(this) as unknown as FileSystemSyncAccessHandle;
+  }
+
+  async createWritable(
+    options: { keepExistingData?: boolean } = {},
+  ): Promise<MockWritableStream> {
+    return new MockWritableStream(this, Boolean(options.keepExistingData));
+  }
+}
+
+type MockWriteParams =
+  | Uint8Array
+  | { type: "write"; position?: number; data: Uint8Array }
+  | { type: "seek"; position: number }
+  | { type: "truncate"; size: number };
+
+/** Writes to a copy that replaces the file's contents on `close`. */
+class MockWritableStream {
+  private data: Uint8Array;
+  private position = 0;
+
+  constructor(private readonly file: MockFileHandle, keepExistingData: boolean) {
+    this.data = keepExistingData ? file.data.slice() : new Uint8Array(0);
+  }
+
+  async write(params: MockWriteParams): Promise<void> {
+    if (params instanceof Uint8Array) {
+      params = { type: "write", data: params };
+    }
+    if (params.type === "seek") {
+      this.position = params.position;
+    } else if (params.type === "truncate") {
+      await this.truncate(params.size);
+    } else {
+      const at = params.position ?? this.position;
+      const end = at + params.data.byteLength;
+      if (end > this.data.byteLength) await this.truncate(end);
+      this.data.set(params.data, at);
+      this.position = end;
+    }
+  }
+
+  async truncate(size: number): Promise<void> {
+    const resized = new Uint8Array(size);
+    resized.set(this.data.subarray(0, size));
+    this.data = resized;
+  }
+
+  async close(): Promise<void> {
+    this.file.data = this.data;
+    this.file.touch();
+  }
+
+  async abort(): Promise<void> {}
+}
+
+class MockSyncAccessHandle {
+  constructor(private readonly file: MockFileHandle) {}
+
+  getSize(): number {
+    return this.file.data.byteLength;
+  }
+
+  read(buffer: Uint8Array, options: { at?: number } = {}): number {
+    const at = options.at ?? 0;
+    const chunk = this.file.data.subarray(at, at + buffer.byteLength);
+    buffer.set(chunk);
+    return chunk.byteLength;
+  }
+
+  write(buffer: Uint8Array, options: { at?: number } = {}): number {
+    const at = options.at ?? 0;
+    const end = at + buffer.byteLength;
+    if (end > this.file.data.byteLength) this.truncate(end);
+    this.file.data.set(buffer, at);
+    this.file.touch();
+    return buffer.byteLength;
+  }
+
+  truncate(size: number): void {
+    const resized = new Uint8Array(size);
+    resized.set(this.file.data.subarray(0, size));
+    this.file.data = resized;
+    this.file.touch();
+  }
+
+  flush(): void {}
+
+  close(): void {
+    this.file.locked = false;
+  }
+}
+
+class MockDirectoryHandle {
+  readonly kind = "directory" as const;
+  readonly children = new Map<string, MockNode>();
+
+  constructor(readonly name: string, private readonly syncAccessHandles = true) {}
+
+  async getDirectoryHandle(
+    name: string,
+    options: { create?: boolean } = {},
+  ): Promise<MockDirectoryHandle> {
+    assertEntryName(name);
+    let child = this.children.get(name);
+    if (!child && options.create) {
+      child = new MockDirectoryHandle(name, this.syncAccessHandles);
+      this.children.set(name, child);
+    }
+    if (!child) throw new DOMException(`"${name}" not found`, "NotFoundError");
+    if (child.kind !== "directory") {
+      throw new DOMException(`"${name}" is a file`, "TypeMismatchError");
+    }
+    return child;
+  }
+
+  async getFileHandle(
+    name: string,
+    options: { create?: boolean } = {},
+  ): Promise<MockFileHandle> {
+    assertEntryName(name);
+    let child = this.children.get(name);
+    if (!child && options.create) {
+      child = new MockFileHandle(name, this.syncAccessHandles);
+      this.children.set(name, child);
+    }
+    if (!child) throw new DOMException(`"${name}" not found`, "NotFoundError");
+    if (child.kind !== "file") {
+      throw new DOMException(`"${name}" is a directory`, "TypeMismatchError");
+    }
+    return child;
+  }
+
+  async removeEntry(
+    name: string,
+    options: { recursive?: boolean } = {},
+  ): Promise<void> {
+    assertEntryName(name);
+    const child = this.children.get(name);
+    if (!child) throw new DOMException(`"${name}" not found`, "NotFoundError");
+    if (
+      child.kind === "directory" &&
+      child.children.size > 0 &&
+      !options.recursive
+    ) {
+      throw new DOMException(
+        `"${name}" is not empty`,
+        "InvalidModificationError",
+      );
+    }
+    this.children.delete(name);
+  }
+
+  async *values(): AsyncIterableIterator<MockNode> {
+    // Snapshot, so removing entries while iterating is safe
+    yield* Array.from(this.children.values());
+  }
+}
+
+/** What `estimate()` reports as the origin's quota. */
+export const MOCK_QUOTA = 1024 * 1024 * 1024;
+
+function sizeOf(node: MockNode): number {
+  if (node.kind === "file") return node.data.byteLength;
+  let size = 0;
+  node.children.forEach((child) => (size += sizeOf(child)));
+  return size;
+}
+
+export interface MockStorage {
+  storage: StorageManager;
+  /** Drops every file and directory, as if the origin were cleared. */
+  reset(): void;
+}
+
+export function createMockStorage({ syncAccessHandles = true } = {}): MockStorage {
+  let root = new MockDirectoryHandle("", syncAccessHandles);
+  const storage = {
+    getDirectory: async () => root,
+    persist: async () => true,
+    persisted: async () => true,
+    estimate: async () => ({ usage: sizeOf(root), quota: MOCK_QUOTA }),
+  };
+  return {
+    storage: storage as unknown as StorageManager,
+    reset() {
+      root = new MockDirectoryHandle("", syncAccessHandles);
+    },
+  };
+}
@@ -0,0 +1,33 @@
+// ── Jest Environment: Node + Web Platform Globals ─────────────────────────────
+//
+// jsdom lacks streams, Blob.arrayBuffer() and crypto.randomUUID, and jest's
+// own node environment only copies a handful of globals into the sandbox.
+// This one also exposes Node's built-in web APIs the file systems rely on.
+// Opt in per test file with a `@jest-environment ./src/testing/web-environment.js`
+// docblock.
+
+const NodeEnvironment = require("jest-environment-node");
+
+const WEB_GLOBALS = [
+  "Blob",
+  "File",
+  "ReadableStream",
+  "WritableStream",
+  "TransformStream",
+  "DOMException",
+  "crypto",
+  "structuredClone",
+  "CompressionStream",
+  "DecompressionStream",
+];
+
+class WebEnvironment extends NodeEnvironment {
+  constructor(config, context) {
+    super(config, context);
+    for (const name of WEB_GLOBALS) {
+      if (global[name] !== undefined) this.global[name] = global[name];
+    }
+  }
+}
+
+module.exports = WebEnvironment;
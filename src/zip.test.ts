@@ -0,0 +1,94 @@
+/**
+ * @jest-environment ./src/testing/web-environment.js
+ */
+import { createZip, readZip } from "./zip";
+
+const lastModified = Date.UTC(2024, 4, 17, 9, 30, 12);
+
+describe("zip", () => {
+  it("round-trips names, kinds, timestamps and contents", async () => {
+    const archive = await createZip([
+      { path: "notes", kind: "directory", lastModified },
+      { path: "notes/résumé ✓.txt", kind: "file", lastModified, data: new Blob(["a".repeat(1000)]) },
+      { path: "empty.bin", kind: "file", lastModified, data: new Blob([]) },
+    ]);
+    expect(archive.type).toBe("application/zip");
+
+    const items = await readZip(archive);
+    expect(items.map(({ path, kind, size }) => [path, kind, size])).toEqual([
+      ["notes", "directory", 0],
+      ["notes/résumé ✓.txt", "file", 1000],
+      ["empty.bin", "file", 0],
+    ]);
+    expect(items.every((item) => item.lastModified === lastModified)).toBe(true);
+    await expect(items[1].read().then((blob) => blob.text())).resolves.toBe("a".repeat(1000));
+  });
+
+  it("deflates files unless told not to", async () => {
+    const text = new Blob(["x".repeat(10_000)]);
+    const noise = new Blob([crypto.getRandomValues(new Uint8Array(4096))]);
+    const entries = [
+      { path: "text", kind: "file" as const, lastModified, data: text },
+      { path: "noise", kind: "file" as const, lastModified, data: noise },
+    ];
+    const deflated = await createZip(entries);
+    const stored = await createZip(entries, { compress: false });
+    expect(deflated.size).toBeLessThan(stored.size - 9000);
+    expect(stored.size).toBeGreaterThan(text.size + noise.size);
+
+    const [, item] = await readZip(deflated);
+    const bytes = new Uint8Array(await (await item.read()).arrayBuffer());
+    expect(bytes).toEqual(new Uint8Array(await noise.arrayBuffer()));
+  });
+
+  it("puts a deflated file's CRC and sizes after its data", async () => {
+    const data = new Blob(["hello ".repeat(100)]);
+    const view = async (compress: boolean) => {
+      const archive = await createZip(
+        [{ path: "a.txt", kind: "file", lastModified, data }],
+        { compress },
+      );
+      return new DataView(await archive.arrayBuffer());
+    };
+
+    const deflated = await view(true);
+    // General purpose flag bit 3, with the local CRC and sizes left zero
+    expect(deflated.getUint16(6, true) & 0x0008).toBe(0x0008);
+    expect([14, 18, 22].map((at) => deflated.getUint32(at, true))).toEqual([0, 0, 0]);
+    // The descriptor is the 16 bytes right before the central directory
+    const centralOffset = deflated.getUint32(deflated.byteLength - 22 + 16, true);
+    const descriptor = centralOffset - 16;
+    expect(deflated.getUint32(descriptor, true)).toBe(0x08074b50);
+    expect(deflated.getUint32(descriptor + 8, true)).toBe(descriptor - (30 + "a.txt".length + 9));
+    expect(deflated.getUint32(descriptor + 12, true)).toBe(data.size);
+    const [item] = await readZip(new Blob([deflated.buffer]));
+    await expect(item.read().then((blob) => blob.text())).resolves.toBe("hello ".repeat(100));
+
+    // Stored sizes are known up front, so they stay in the local header
+    const stored = await view(false);
+    expect(stored.getUint16(6, true) & 0x0008).toBe(0);
+    expect(stored.getUint32(22, true)).toBe(data.size);
+  });
+
+  it("detects corrupted contents", async () => {
+    const archive = await createZip(
+      [{ path: "a.txt", kind: "file", lastModified, data: new Blob(["hello"]) }],
+      { compress: false },
+    );
+    const bytes = new Uint8Array(await archive.arrayBuffer());
+    // The stored contents follow the 30-byte local header, name and extra field
+    bytes[30 + "a.txt".length + 9] ^= 0xff;
+    const [item] = await readZip(new Blob([bytes]));
+    await expect(item.read()).rejects.toMatchObject({ code: "INVALID_ARGUMENT" });
+  });
+
+  it("rejects what isn't a ZIP archive and names that escape the root", async () => {
+    await expect(readZip(new Blob(["PK nope"]))).rejects.toMatchObject({
+      code: "INVALID_ARGUMENT",
+    });
+    const escaping = await createZip([
+      { path: "../../etc/passwd", kind: "file", lastModified, data: new Blob(["x"]) },
+    ]);
+    await expect(readZip(escaping)).rejects.toMatchObject({ code: "INVALID_NAME" });
+  });
+});
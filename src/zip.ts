@@ -0,0 +1,424 @@
+import { OPFSError } from "./opfs-protocol";
+import { splitPath } from "./opfs-paths";
+
+// ── ZIP Archives ──────────────────────────────────────────────────────────────
+//
+// Just enough of the ZIP format for `exportArchive` and `importArchive`:
+// stored and deflated entries, directories, UTF-8 names, and modification
+// times both as DOS fields and as an extended (UTC) timestamp. No ZIP64,
+// encryption or split archives. File contents are streamed through
+// CompressionStream one chunk at a time, each chunk going into the archive
+// as it comes out; a deflated entry's CRC and sizes follow it in a data
+// descriptor. The archive itself is a Blob built from parts, so stored
+// files are referenced rather than copied.
+
+export interface ZipEntry {
+  /** Slash-separated, relative, without a trailing slash. */
+  path: string;
+  kind: "file" | "directory";
+  /** Epoch milliseconds. */
+  lastModified: number;
+}
+
+/** An entry to archive; files carry their contents. */
+export interface ZipSource extends ZipEntry {
+  data?: Blob;
+}
+
+/** An entry read back from an archive. */
+export interface ZipItem extends ZipEntry {
+  /** Uncompressed size in bytes. */
+  size: number;
+  /** Decompresses and checks the contents (CRC and size). */
+  read(): Promise<Blob>;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const EXTENDED_TIMESTAMP = 0x5455;
+
+const STORED = 0;
+const DEFLATED = 8;
+/** General purpose flag bit 11: names are UTF-8. */
+const UTF8_NAMES = 0x0800;
+/** General purpose flag bit 3: CRC and sizes are in a data descriptor after the data. */
+const SIZES_FOLLOW = 0x0008;
+const ENCRYPTED = 0x0001;
+/** 2.0: deflate and directories. */
+const VERSION = 20;
+/** "Made by" Unix, so the external attributes carry POSIX modes. */
+const MADE_BY_UNIX = (3 << 8) | VERSION;
+const MAX_UINT32 = 0xffffffff;
+
+// ── CRC-32 ──
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function updateCrc(crc: number, bytes: Uint8Array): number {
+  let c = crc ^ MAX_UINT32;
+  for (let i = 0; i < bytes.length; i++) {
+    c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ MAX_UINT32) >>> 0;
+}
+
+// ── Helpers ──
+
+function corrupt(detail: string): OPFSError {
+  return new OPFSError("INVALID_ARGUMENT", `Not a valid ZIP archive: ${detail}`);
+}
+
+async function drain(
+  stream: ReadableStream<Uint8Array>,
+  onChunk: (chunk: Uint8Array) => void,
+): Promise<void> {
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    onChunk(value);
+  }
+}
+
+function canDeflate(): boolean {
+  return (
+    typeof CompressionStream !== "undefined" &&
+    typeof DecompressionStream !== "undefined"
+  );
+}
+
+/** [time, date] in MS-DOS format, local time, two-second resolution. */
+function dosDateTime(timestamp: number): [number, number] {
+  const d = new Date(timestamp);
+  const year = Math.min(Math.max(d.getFullYear(), 1980), 2107);
+  return [
+    (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+    ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  ];
+}
+
+function fromDosDateTime(time: number, date: number): number {
+  return new Date(
+    (date >> 9) + 1980,
+    ((date >> 5) & 0xf) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2,
+  ).getTime();
+}
+
+/** Extended timestamp extra field carrying just the modification time. */
+function timestampField(timestamp: number): Uint8Array {
+  const bytes = new Uint8Array(9);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, EXTENDED_TIMESTAMP, true);
+  view.setUint16(2, 5, true);
+  view.setUint8(4, 1); // flags: modification time present
+  view.setUint32(5, Math.max(0, Math.floor(timestamp / 1000)), true);
+  return bytes;
+}
+
+/** Modification time from an extended timestamp field, if there is one. */
+function readTimestampField(extra: DataView): number | null {
+  for (let offset = 0; offset + 4 <= extra.byteLength; ) {
+    const tag = extra.getUint16(offset, true);
+    const size = extra.getUint16(offset + 2, true);
+    if (tag === EXTENDED_TIMESTAMP && size >= 5 && extra.getUint8(offset + 4) & 1) {
+      return extra.getUint32(offset + 5, true) * 1000;
+    }
+    offset += 4 + size;
+  }
+  return null;
+}
+
+// ── Writing ──
+
+interface EncodedData {
+  crc: number;
+  compressedSize: number;
+}
+
+/**
+ * Appends the contents of `data` to `parts`: a stored file by reference,
+ * a deflated one chunk by chunk as the compressor produces them.
+ */
+async function encode(data: Blob, method: number, parts: BlobPart[]): Promise<EncodedData> {
+  let crc = 0;
+  if (method === STORED) {
+    await drain(data.stream(), (chunk) => {
+      crc = updateCrc(crc, chunk);
+    });
+    parts.push(data);
+    return { crc, compressedSize: data.size };
+  }
+
+  let compressedSize = 0;
+  const checksum = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      crc = updateCrc(crc, chunk);
+      controller.enqueue(chunk);
+    },
+  });
+  await drain(
+    data
+      .stream()
+      .pipeThrough(checksum)
+      .pipeThrough(new CompressionStream("deflate-raw")),
+    (chunk) => {
+      parts.push(chunk);
+      compressedSize += chunk.byteLength;
+    },
+  );
+  return { crc, compressedSize };
+}
+
+function dataDescriptor({ crc, compressedSize }: EncodedData, size: number): Uint8Array {
+  const bytes = new Uint8Array(16);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, DATA_DESCRIPTOR, true);
+  view.setUint32(4, crc, true);
+  view.setUint32(8, compressedSize, true);
+  view.setUint32(12, size, true);
+  return bytes;
+}
+
+/**
+ * Builds a ZIP archive of `entries` in order. With `compress`, files are
+ * deflated where the engine supports it.
+ */
+export async function createZip(
+  entries: ZipSource[],
+  { compress = true }: { compress?: boolean } = {},
+): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const isDirectory = entry.kind === "directory";
+    const name = encoder.encode(isDirectory ? `${entry.path}/` : entry.path);
+    const data = isDirectory ? new Blob([]) : entry.data ?? new Blob([]);
+    if (data.size > MAX_UINT32 || offset > MAX_UINT32) {
+      throw new OPFSError(
+        "UNSUPPORTED",
+        `"${entry.path}" is too large for a ZIP archive without ZIP64`,
+        entry.path,
+      );
+    }
+    const method = compress && canDeflate() && data.size > 0 ? DEFLATED : STORED;
+    // A deflated size is only known once the data is written
+    const flags = method === DEFLATED ? UTF8_NAMES | SIZES_FOLLOW : UTF8_NAMES;
+    const [time, date] = dosDateTime(entry.lastModified);
+    const extra = timestampField(entry.lastModified);
+
+    const local = new Uint8Array(30 + name.length + extra.length);
+    const view = new DataView(local.buffer);
+    view.setUint32(0, LOCAL_HEADER, true);
+    view.setUint16(4, VERSION, true);
+    view.setUint16(6, flags, true);
+    view.setUint16(8, method, true);
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    view.setUint16(26, name.length, true);
+    view.setUint16(28, extra.length, true);
+    local.set(name, 30);
+    local.set(extra, 30 + name.length);
+
+    parts.push(local);
+    const encoded = await encode(data, method, parts);
+    const { crc, compressedSize } = encoded;
+    let entryLength = local.length + compressedSize;
+    if (flags & SIZES_FOLLOW) {
+      parts.push(dataDescriptor(encoded, data.size));
+      entryLength += 16;
+    } else {
+      // Not part of the Blob until it's built, so still ours to fill in
+      view.setUint32(14, crc, true);
+      view.setUint32(18, compressedSize, true);
+      view.setUint32(22, data.size, true);
+    }
+
+    const header = new Uint8Array(46 + name.length + extra.length);
+    const centralView = new DataView(header.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER, true);
+    centralView.setUint16(4, MADE_BY_UNIX, true);
+    centralView.setUint16(6, VERSION, true);
+    centralView.setUint16(8, flags, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, compressedSize, true);
+    centralView.setUint32(24, data.size, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint16(30, extra.length, true);
+    // Comment length, disk number and internal attributes stay zero
+    const mode = isDirectory ? 0o40755 : 0o100644;
+    centralView.setUint32(38, ((mode << 16) | (isDirectory ? 0x10 : 0)) >>> 0, true);
+    centralView.setUint32(42, offset, true);
+    header.set(name, 46);
+    header.set(extra, 46 + name.length);
+    central.push(header);
+
+    offset += entryLength;
+  }
+
+  const centralSize = central.reduce((sum, header) => sum + header.length, 0);
+  if (entries.length > 0xffff || offset > MAX_UINT32) {
+    throw new OPFSError("UNSUPPORTED", "Too many entries for a ZIP archive without ZIP64");
+  }
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end], { type: "application/zip" });
+}
+
+// ── Reading ──
+
+async function viewOf(blob: Blob): Promise<DataView> {
+  return new DataView(await blob.arrayBuffer());
+}
+
+async function decode(
+  data: Blob,
+  method: number,
+  size: number,
+  crc: number,
+  path: string,
+): Promise<Blob> {
+  const stream =
+    method === DEFLATED
+      ? data.stream().pipeThrough(new DecompressionStream("deflate-raw"))
+      : data.stream();
+  const chunks: Uint8Array[] = [];
+  let actualCrc = 0;
+  let actualSize = 0;
+  try {
+    await drain(stream, (chunk) => {
+      chunks.push(chunk);
+      actualCrc = updateCrc(actualCrc, chunk);
+      actualSize += chunk.byteLength;
+    });
+  } catch {
+    throw corrupt(`"${path}" does not decompress`);
+  }
+  if (actualCrc !== crc || actualSize !== size) {
+    throw corrupt(`"${path}" fails its checksum`);
+  }
+  return method === STORED ? data : new Blob(chunks);
+}
+
+/**
+ * Lists the entries of a ZIP archive from its central directory. Names are
+ * checked with the shared path rules, so nothing can point outside the
+ * root; contents are only decompressed when an item is read.
+ */
+export async function readZip(archive: Blob): Promise<ZipItem[]> {
+  // The end record is 22 bytes plus a comment of up to 64 KiB
+  const tailStart = Math.max(0, archive.size - (22 + 0xffff));
+  const tail = await viewOf(archive.slice(tailStart));
+  let endOffset = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) throw corrupt("no end of central directory");
+
+  const count = tail.getUint16(endOffset + 10, true);
+  const centralSize = tail.getUint32(endOffset + 12, true);
+  const centralOffset = tail.getUint32(endOffset + 16, true);
+  if (centralOffset === MAX_UINT32 || count === 0xffff) {
+    throw new OPFSError("UNSUPPORTED", "ZIP64 archives are not supported");
+  }
+  if (centralOffset + centralSize > archive.size) {
+    throw corrupt("central directory out of range");
+  }
+
+  const central = await viewOf(archive.slice(centralOffset, centralOffset + centralSize));
+  const decoder = new TextDecoder();
+  const items: ZipItem[] = [];
+  let at = 0;
+  for (let index = 0; index < count; index++) {
+    if (at + 46 > central.byteLength || central.getUint32(at, true) !== CENTRAL_HEADER) {
+      throw corrupt("truncated central directory");
+    }
+    const flags = central.getUint16(at + 8, true);
+    const method = central.getUint16(at + 10, true);
+    const time = central.getUint16(at + 12, true);
+    const date = central.getUint16(at + 14, true);
+    const crc = central.getUint32(at + 16, true);
+    const compressedSize = central.getUint32(at + 20, true);
+    const size = central.getUint32(at + 24, true);
+    const nameLength = central.getUint16(at + 28, true);
+    const extraLength = central.getUint16(at + 30, true);
+    const commentLength = central.getUint16(at + 32, true);
+    const localOffset = central.getUint32(at + 42, true);
+    const name = decoder.decode(
+      new Uint8Array(central.buffer, at + 46, nameLength),
+    );
+    const extra = new DataView(central.buffer, at + 46 + nameLength, extraLength);
+    at += 46 + nameLength + extraLength + commentLength;
+
+    const isDirectory = name.endsWith("/");
+    // Normalizes the name, and rejects "..", absolute-looking and empty ones
+    const segments = splitPath(name.replace(/\\/g, "/"));
+    if (segments.length === 0) continue;
+    const path = segments.join("/");
+    if (flags & ENCRYPTED) {
+      throw new OPFSError("UNSUPPORTED", `"${path}" is encrypted`, path);
+    }
+    if (method !== STORED && method !== DEFLATED) {
+      throw new OPFSError("UNSUPPORTED", `"${path}" uses an unsupported compression method`, path);
+    }
+    if (method === DEFLATED && !canDeflate()) {
+      throw new OPFSError("UNSUPPORTED", "This browser cannot decompress ZIP archives", path);
+    }
+    const lastModified = readTimestampField(extra) ?? fromDosDateTime(time, date);
+
+    items.push({
+      path,
+      kind: isDirectory ? "directory" : "file",
+      lastModified,
+      size: isDirectory ? 0 : size,
+      async read() {
+        if (isDirectory) return new Blob([]);
+        const local = await viewOf(archive.slice(localOffset, localOffset + 30));
+        if (local.byteLength < 30 || local.getUint32(0, true) !== LOCAL_HEADER) {
+          throw corrupt(`missing local header for "${path}"`);
+        }
+        const start =
+          localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+        if (start + compressedSize > archive.size) {
+          throw corrupt(`"${path}" is truncated`);
+        }
+        return decode(
+          archive.slice(start, start + compressedSize),
+          method,
+          size,
+          crc,
+          path,
+        );
+      },
+    });
+  }
+  return items;
+}